@@ -8,7 +8,7 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { useAuth } from "@/hooks/useAuth";
 import { useMobile } from "@/hooks/useMobile";
 import { SidebarProvider, Sidebar, SidebarContent, SidebarGroup, SidebarGroupContent, SidebarMenu, SidebarMenuItem, SidebarMenuButton, SidebarTrigger } from "@/components/ui/sidebar";
-import { Home, BookOpen, MapPin, Settings as SettingsIcon, Sparkles, LogOut, Shield, GraduationCap } from "lucide-react";
+import { Home, BookOpen, MapPin, Settings as SettingsIcon, Sparkles, LogOut, Shield, GraduationCap, FolderOpen } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -30,6 +30,8 @@ const Journal = lazy(() => import("@/pages/journal"));
 const Opportunities = lazy(() => import("@/pages/opportunities"));
 const FamilySettings = lazy(() => import("@/pages/family-settings"));
 const TranscriptPage = lazy(() => import("@/pages/transcript"));
+const PortfolioPage = lazy(() => import("@/pages/portfolio"));
+const VerifyTranscript = lazy(() => import("@/pages/verify-transcript"));
 
 function PageLoader() {
   return (
@@ -64,6 +66,7 @@ function AppSidebar() {
   const baseMenuItems = [
     { title: "Dashboard", url: "/dashboard", icon: Home },
     { title: "Journal", url: "/journal", icon: BookOpen },
+    { title: "Portfolio", url: "/portfolio", icon: FolderOpen },
     { title: "Opportunities", url: "/opportunities", icon: MapPin },
     { title: "Settings", url: "/settings", icon: SettingsIcon },
     { title: "Privacy & Safety", url: "/privacy", icon: Shield },
@@ -166,6 +169,7 @@ function MobileRouter() {
           <Route path="/journal" component={Journal} />
           <Route path="/opportunities" component={Opportunities} />
           <Route path="/transcripts" component={TranscriptPage} />
+          <Route path="/portfolio" component={PortfolioPage} />
           <Route path="/settings" component={FamilySettings} />
           <Route path="/privacy" component={Privacy} />
           <Route path="/pricing" component={Pricing} />
@@ -190,6 +194,7 @@ function DesktopRouter() {
         <Route path="/journal" component={Journal} />
         <Route path="/opportunities" component={Opportunities} />
         <Route path="/transcripts" component={TranscriptPage} />
+        <Route path="/portfolio" component={PortfolioPage} />
         <Route path="/settings" component={FamilySettings} />
         <Route path="/privacy" component={Privacy} />
         <Route path="/pricing" component={Pricing} />
@@ -306,6 +311,15 @@ function Router() {
     }
   }, [isAuthenticated, isSuccess, isAuthError, hasFamily, location, isOnPublicRoute, setLocation]);
 
+  // Transcript verification is standalone and public - admissions officers won't have an account
+  if (location.startsWith("/verify")) {
+    return (
+      <Suspense fallback={<PageLoader />}>
+        <VerifyTranscript />
+      </Suspense>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
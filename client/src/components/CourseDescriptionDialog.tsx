@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Sparkles } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TranscriptCourse } from "@shared/schema";
+
+interface CourseDescriptionDialogProps {
+  course: TranscriptCourse | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CourseDescriptionDialog({ course, onOpenChange }: CourseDescriptionDialogProps) {
+  const { toast } = useToast();
+  const [description, setDescription] = useState("");
+  const [textsUsed, setTextsUsed] = useState("");
+  const [gradeRationale, setGradeRationale] = useState("");
+
+  useEffect(() => {
+    setDescription(course?.courseDescription || "");
+    setTextsUsed((course?.textsUsed || []).join("\n"));
+    setGradeRationale(course?.gradeRationale || "");
+  }, [course]);
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/transcript/courses/${course!.id}/draft-description`);
+      return await response.json();
+    },
+    onSuccess: (data: { description: string; sources: { creditMappings: number; journalEntries: number } }) => {
+      setDescription(data.description);
+      toast({
+        title: "Description drafted",
+        description: `Based on ${data.sources.creditMappings} credited activities and ${data.sources.journalEntries} journal entries. Review before saving.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't draft description", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/transcript/courses/${course!.id}`, {
+        courseDescription: description.trim() || null,
+        textsUsed: textsUsed.split("\n").map((t) => t.trim()).filter(Boolean),
+        gradeRationale: gradeRationale.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/transcript/courses?childId=${course!.childId}`] });
+      toast({ title: "Course details saved", description: "They will appear on the transcript and course descriptions PDFs." });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save description", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!course} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{course?.courseTitle}</DialogTitle>
+          <DialogDescription>
+            Course descriptions appear on the transcript. Draft one from credited activities and journal entries, then edit it in your own words.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={8}
+          placeholder="Describe the scope of study, key topics, methods and how learning was assessed..."
+          data-testid="textarea-course-description"
+        />
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="course-texts-used">Texts and resources (one per line)</Label>
+            <Textarea
+              id="course-texts-used"
+              value={textsUsed}
+              onChange={(e) => setTextsUsed(e.target.value)}
+              rows={4}
+              placeholder="The Elements of Style - Strunk & White"
+              data-testid="textarea-course-texts"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="course-grade-rationale">How the grade was determined</Label>
+            <Textarea
+              id="course-grade-rationale"
+              value={gradeRationale}
+              onChange={(e) => setGradeRationale(e.target.value)}
+              rows={4}
+              placeholder="Weekly narrations 40%, research essay 30%, final exam 30%"
+              data-testid="textarea-course-grade-rationale"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="outline"
+            onClick={() => draftMutation.mutate()}
+            disabled={draftMutation.isPending}
+            data-testid="button-draft-description"
+          >
+            <Sparkles className="w-4 h-4 mr-2" />
+            {draftMutation.isPending ? "Drafting..." : description ? "Regenerate with AI" : "Draft with AI"}
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || draftMutation.isPending}
+            data-testid="button-save-description"
+          >
+            Save Details
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
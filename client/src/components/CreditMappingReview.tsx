@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, ClipboardCheck, Pencil, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CreditMapping, TranscriptCourse } from "@shared/schema";
+
+interface CreditMappingProposal {
+  curriculumId: string;
+  weekNumber: number;
+  subject: string;
+  activityTitle: string;
+  activities: string[];
+  completedCount: number;
+  creditAmount: number;
+  suggestedCourseId: string | null;
+}
+
+interface CreditMappingReviewProps {
+  childId: string;
+  courses: TranscriptCourse[];
+  creditUnit: string;
+}
+
+const UNLINKED = "unlinked";
+
+export function CreditMappingReview({ childId, courses, creditUnit }: CreditMappingReviewProps) {
+  const { toast } = useToast();
+  // Parent edits to proposals before accepting, keyed by week:subject
+  const [drafts, setDrafts] = useState<Record<string, { creditAmount?: string; courseId?: string }>>({});
+  const [editingMappingId, setEditingMappingId] = useState<string | null>(null);
+  const [editingAmount, setEditingAmount] = useState("");
+
+  const proposalsKey = `/api/transcript/credit-mappings/proposals?childId=${childId}`;
+  const mappingsKey = `/api/transcript/credit-mappings?childId=${childId}`;
+
+  const { data: proposalsData, isLoading: proposalsLoading } = useQuery<CreditMappingProposal[]>({
+    queryKey: [proposalsKey],
+    enabled: !!childId,
+  });
+
+  const { data: mappingsData } = useQuery<CreditMapping[]>({
+    queryKey: [mappingsKey],
+    enabled: !!childId,
+  });
+
+  const proposals = proposalsData || [];
+  const mappings = mappingsData || [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [proposalsKey] });
+    queryClient.invalidateQueries({ queryKey: [mappingsKey] });
+    queryClient.invalidateQueries({ queryKey: [`/api/transcript/courses?childId=${childId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/transcript/graduation-requirements?childId=${childId}`] });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (proposal: CreditMappingProposal) => {
+      const draft = drafts[`${proposal.weekNumber}:${proposal.subject}`] || {};
+      const creditAmount = draft.creditAmount !== undefined ? parseFloat(draft.creditAmount) : proposal.creditAmount;
+      const courseId = draft.courseId !== undefined ? draft.courseId : proposal.suggestedCourseId;
+
+      if (isNaN(creditAmount) || creditAmount < 0) {
+        throw new Error("Please enter a valid credit amount");
+      }
+
+      return await apiRequest("POST", "/api/transcript/credit-mappings", {
+        childId,
+        curriculumId: proposal.curriculumId,
+        weekNumber: proposal.weekNumber,
+        activityTitle: proposal.activityTitle,
+        subject: proposal.subject,
+        creditAmount,
+        isEdited: creditAmount !== proposal.creditAmount,
+        courseId: courseId && courseId !== UNLINKED ? courseId : null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Credit accepted", description: "The linked course total has been updated." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't accept credit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ mappingId, updates }: { mappingId: string; updates: { creditAmount?: number; courseId?: string | null } }) => {
+      return await apiRequest("PATCH", `/api/transcript/credit-mappings/${mappingId}`, updates);
+    },
+    onSuccess: () => {
+      setEditingMappingId(null);
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't update credit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (mappingId: string) => {
+      return await apiRequest("DELETE", `/api/transcript/credit-mappings/${mappingId}`);
+    },
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast({ title: "Couldn't remove credit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const setDraft = (key: string, updates: { creditAmount?: string; courseId?: string }) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...prev[key], ...updates } }));
+  };
+
+  const courseTitle = (courseId: string | null) =>
+    courses.find((c) => c.id === courseId)?.courseTitle || "Not linked";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-primary" />
+          Credit Review
+        </CardTitle>
+        <CardDescription>
+          Completed curriculum activities, grouped by week and subject. Accept or adjust each amount to add it to a course.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {proposalsLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing new to review. Tick off activities on the Today page and they'll show up here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {proposals.map((proposal) => {
+              const key = `${proposal.weekNumber}:${proposal.subject}`;
+              const draft = drafts[key] || {};
+              return (
+                <div key={key} className="rounded-lg border p-3 space-y-3" data-testid={`credit-proposal-${key}`}>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">Week {proposal.weekNumber}</Badge>
+                    <Badge variant="secondary" className="capitalize">{proposal.subject}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {proposal.completedCount} completed
+                    </span>
+                  </div>
+                  <ul className="text-sm list-disc pl-5 space-y-1">
+                    {proposal.activities.map((activity) => (
+                      <li key={activity}>{activity}</li>
+                    ))}
+                  </ul>
+                  <div className="grid gap-2 grid-cols-[100px_1fr_auto] items-center">
+                    <Input
+                      type="number"
+                      step={0.01}
+                      min={0}
+                      value={draft.creditAmount ?? String(proposal.creditAmount)}
+                      onChange={(e) => setDraft(key, { creditAmount: e.target.value })}
+                      data-testid={`input-credit-amount-${key}`}
+                    />
+                    <Select
+                      value={draft.courseId ?? proposal.suggestedCourseId ?? UNLINKED}
+                      onValueChange={(value) => setDraft(key, { courseId: value })}
+                    >
+                      <SelectTrigger data-testid={`select-credit-course-${key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNLINKED}>Not linked to a course</SelectItem>
+                        {courses.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.courseTitle}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      onClick={() => acceptMutation.mutate(proposal)}
+                      disabled={acceptMutation.isPending}
+                      data-testid={`button-accept-credit-${key}`}
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {mappings.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Accepted</h3>
+            {mappings.map((mapping) => (
+              <div key={mapping.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm" data-testid={`credit-mapping-${mapping.id}`}>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Week {mapping.weekNumber}</span>
+                    <Badge variant="secondary" className="capitalize text-xs">{mapping.subject}</Badge>
+                    {mapping.isEdited && <Badge variant="outline" className="text-xs">Edited</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{courseTitle(mapping.courseId)}</p>
+                </div>
+                {editingMappingId === mapping.id ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      step={0.01}
+                      min={0}
+                      className="w-24"
+                      value={editingAmount}
+                      onChange={(e) => setEditingAmount(e.target.value)}
+                      data-testid={`input-edit-credit-${mapping.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => updateMutation.mutate({ mappingId: mapping.id, updates: { creditAmount: parseFloat(editingAmount) } })}
+                      disabled={isNaN(parseFloat(editingAmount)) || updateMutation.isPending}
+                      data-testid={`button-save-credit-${mapping.id}`}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <span className="font-medium">{mapping.creditAmount} {creditUnit}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setEditingMappingId(mapping.id);
+                        setEditingAmount(String(mapping.creditAmount));
+                      }}
+                      data-testid={`button-edit-credit-${mapping.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(mapping.id)}
+                      data-testid={`button-delete-credit-${mapping.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GitCompare, RotateCcw, ArrowRight } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Curriculum, CurriculumTrigger } from "@shared/schema";
+import type { CurriculumDiff, ListChange } from "@shared/curriculumDiff";
+
+type CurriculumVersion = Omit<Curriculum, "curriculumData"> & { weekCount: number };
+
+const TRIGGER_LABELS: Record<CurriculumTrigger, string> = {
+  onboarding: "First curriculum",
+  settings: "Settings change",
+  manual: "Manual regenerate",
+  week: "Week regenerated",
+  rolling: "Rolled forward",
+  template: "Template imported",
+};
+
+interface CurriculumHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ChangeList({ label, change }: { label: string; change: ListChange }) {
+  if (change.added.length === 0 && change.removed.length === 0) {
+    return null;
+  }
+  return (
+    <div className="text-xs space-y-0.5">
+      <p className="font-medium text-muted-foreground">{label}</p>
+      {change.removed.map((item, idx) => (
+        <p key={`removed-${idx}`} className="text-destructive line-through">− {item}</p>
+      ))}
+      {change.added.map((item, idx) => (
+        <p key={`added-${idx}`} className="text-green-700 dark:text-green-300">+ {item}</p>
+      ))}
+    </div>
+  );
+}
+
+export function CurriculumHistoryDialog({ open, onOpenChange }: CurriculumHistoryDialogProps) {
+  const { toast } = useToast();
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<CurriculumVersion[]>({
+    queryKey: ["/api/curriculum/history"],
+    enabled: open,
+  });
+
+  const activeId = versions.find((version) => version.isActive)?.id;
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<CurriculumDiff>({
+    queryKey: [`/api/curriculum/history/diff?from=${compareId}&to=${activeId}`],
+    enabled: open && !!compareId && !!activeId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (curriculumId: string) => {
+      return await apiRequest("POST", `/api/curriculum/history/${curriculumId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/curriculum"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/curriculum/history"] });
+      setCompareId(null);
+      toast({ title: "Version restored", description: "The version you replaced is still in your history." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't restore version", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setCompareId(null);
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Curriculum History</DialogTitle>
+          <DialogDescription>
+            Every regenerate and weekly roll-forward is saved as a version. Compare any version with your current curriculum, or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-2">
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className={`rounded-md border px-3 py-2 text-sm ${compareId === version.id ? "border-primary" : ""}`}
+                data-testid={`curriculum-version-${version.id}`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">
+                        {version.createdAt ? format(new Date(version.createdAt), "d MMM yyyy, h:mm a") : "Unknown date"}
+                      </span>
+                      <Badge variant="outline" className="text-xs">
+                        {version.trigger ? TRIGGER_LABELS[version.trigger] : "Generated"}
+                      </Badge>
+                      {version.isActive && <Badge className="text-xs">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {version.weekCount} weeks{version.provider && ` • ${version.provider}`}
+                    </p>
+                  </div>
+                  {!version.isActive && (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCompareId(compareId === version.id ? null : version.id)}
+                        data-testid={`button-compare-version-${version.id}`}
+                      >
+                        <GitCompare className="w-4 h-4 mr-1" />
+                        Compare
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(version.id)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-version-${version.id}`}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {compareId === version.id && (
+                  <div className="mt-3 border-t pt-3 space-y-3" data-testid="curriculum-version-diff">
+                    {isDiffLoading || !diff ? (
+                      <Skeleton className="h-24 w-full" />
+                    ) : diff.weeks.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">This version matches your current curriculum.</p>
+                    ) : (
+                      <>
+                        <p className="text-xs text-muted-foreground">
+                          Changes from this version to your current curriculum
+                          {diff.unchangedWeeks > 0 && ` (${diff.unchangedWeeks} weeks unchanged)`}
+                        </p>
+                        {diff.weeks.map((week) => (
+                          <div key={week.weekNumber} className="space-y-2">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="font-heading font-semibold">Week {week.weekNumber}</span>
+                              {week.status !== "changed" && (
+                                <Badge variant="secondary" className="text-xs capitalize">{week.status}</Badge>
+                              )}
+                              {week.fromTheme !== week.toTheme && (
+                                <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                  {week.fromTheme || "—"} <ArrowRight className="w-3 h-3" /> {week.toTheme || "—"}
+                                </span>
+                              )}
+                            </div>
+                            <div className="pl-3 space-y-2">
+                              <ChangeList label="Family activities" change={week.familyActivities} />
+                              {week.children.map((child) => (
+                                <div key={child.childId} className="space-y-1">
+                                  <p className="text-xs font-semibold">{child.name}</p>
+                                  <ChangeList label="Deep dives" change={child.deepDives} />
+                                  <ChangeList label="Activities" change={child.activities} />
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookmarkPlus, Download, Trash2, Users } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { learningApproachNames, type LearningApproach } from "@/components/LearningApproachSelector";
+import { templateAgeBands, type CurriculumTemplate, type CurriculumTemplateData } from "@shared/schema";
+
+type LibraryTemplate = Omit<CurriculumTemplate, "familyId"> & { isOwn: boolean };
+
+const ALL = "all";
+
+interface CurriculumTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Weeks a week template can replace - finished weeks are kept as a record
+  weekNumbers: number[];
+  currentWeekNumber: number | null;
+  generationInProgress: boolean;
+}
+
+function TemplateTags({ template }: { template: Omit<CurriculumTemplate, "familyId"> }) {
+  const weekCount = (template.templateData as CurriculumTemplateData).weeks.length;
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      <Badge variant="outline" className="text-xs">
+        {template.kind === "week" ? "Single week" : `${weekCount} weeks`}
+      </Badge>
+      {template.approaches.map((approach) => (
+        <Badge key={approach} variant="secondary" className="text-xs">
+          {learningApproachNames[approach as LearningApproach] || approach}
+        </Badge>
+      ))}
+      {template.ageBands.map((band) => (
+        <Badge key={band} variant="secondary" className="text-xs">Ages {band}</Badge>
+      ))}
+    </div>
+  );
+}
+
+export function CurriculumTemplatesDialog({ open, onOpenChange, weekNumbers, currentWeekNumber, generationInProgress }: CurriculumTemplatesDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [source, setSource] = useState<string>(ALL);
+  const [targetWeek, setTargetWeek] = useState<string>("");
+  const [approachFilter, setApproachFilter] = useState<string>(ALL);
+  const [ageBandFilter, setAgeBandFilter] = useState<string>(ALL);
+  const [themeFilter, setThemeFilter] = useState("");
+
+  // Week templates replace the current week unless the family picks another
+  const importWeek = targetWeek || (currentWeekNumber !== null && weekNumbers.includes(currentWeekNumber)
+    ? String(currentWeekNumber)
+    : weekNumbers[0] !== undefined ? String(weekNumbers[0]) : "");
+
+  const libraryParams = new URLSearchParams();
+  if (approachFilter !== ALL) libraryParams.set("approach", approachFilter);
+  if (ageBandFilter !== ALL) libraryParams.set("ageBand", ageBandFilter);
+  if (themeFilter.trim()) libraryParams.set("theme", themeFilter.trim());
+
+  const { data: myTemplates = [], isLoading: isMyTemplatesLoading } = useQuery<CurriculumTemplate[]>({
+    queryKey: ["/api/curriculum/templates"],
+    enabled: open,
+  });
+
+  const { data: libraryTemplates = [], isLoading: isLibraryLoading } = useQuery<LibraryTemplate[]>({
+    queryKey: [`/api/curriculum/templates/library?${libraryParams.toString()}`],
+    enabled: open,
+  });
+
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/curriculum/templates"),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/curriculum/templates", {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        weekNumber: source === ALL ? undefined : parseInt(source),
+      });
+    },
+    onSuccess: () => {
+      invalidateTemplates();
+      setName("");
+      setDescription("");
+      toast({ title: "Template saved", description: "Children's names and details have been left out. Publish it under My Templates to share it." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async ({ templateId, isPublished }: { templateId: string; isPublished: boolean }) => {
+      return await apiRequest("PATCH", `/api/curriculum/templates/${templateId}`, { isPublished });
+    },
+    onSuccess: (_data, { isPublished }) => {
+      invalidateTemplates();
+      toast({ title: isPublished ? "Published to the library" : "Removed from the library" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't update template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      return await apiRequest("DELETE", `/api/curriculum/templates/${templateId}`);
+    },
+    onSuccess: () => {
+      invalidateTemplates();
+      toast({ title: "Template deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't delete template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (template: Omit<CurriculumTemplate, "familyId">) => {
+      await apiRequest("POST", `/api/curriculum/templates/${template.id}/import`, {
+        weekNumber: template.kind === "week" ? parseInt(importWeek) : undefined,
+      });
+      return template;
+    },
+    onSuccess: (template) => {
+      invalidateTemplates();
+      if (template.kind === "week") {
+        queryClient.invalidateQueries({ queryKey: ["/api/curriculum"] });
+        toast({ title: "Template imported", description: `Week ${importWeek} has been adapted for your children.` });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/curriculum/generation"] });
+        toast({ title: "Curriculum on its way!", description: "The template is being adapted for your children. Weeks will appear on the dashboard as they're ready." });
+      }
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't import template", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importButton = (template: Omit<CurriculumTemplate, "familyId">) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => importMutation.mutate(template)}
+      disabled={importMutation.isPending || generationInProgress || (template.kind === "week" && !importWeek)}
+      data-testid={`button-import-template-${template.id}`}
+    >
+      <Download className="w-4 h-4 mr-1" />
+      Import
+    </Button>
+  );
+
+  const weekPicker = weekNumbers.length > 0 && (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground">Week templates replace</span>
+      <Select value={importWeek} onValueChange={setTargetWeek}>
+        <SelectTrigger className="w-32" data-testid="select-import-week">
+          <SelectValue placeholder="Choose week" />
+        </SelectTrigger>
+        <SelectContent>
+          {weekNumbers.map((weekNumber) => (
+            <SelectItem key={weekNumber} value={String(weekNumber)}>Week {weekNumber}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Curriculum Templates</DialogTitle>
+          <DialogDescription>
+            Save a great week or a whole curriculum to reuse or share with other families. Imported templates are adapted to your children's ages and learning needs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="library">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="library" data-testid="tab-template-library">Library</TabsTrigger>
+            <TabsTrigger value="mine" data-testid="tab-my-templates">My Templates</TabsTrigger>
+            <TabsTrigger value="save" data-testid="tab-save-template">Save Template</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="library" className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <Select value={approachFilter} onValueChange={setApproachFilter}>
+                <SelectTrigger data-testid="select-library-approach">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All approaches</SelectItem>
+                  {Object.entries(learningApproachNames).map(([id, approachName]) => (
+                    <SelectItem key={id} value={id}>{approachName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={ageBandFilter} onValueChange={setAgeBandFilter}>
+                <SelectTrigger data-testid="select-library-age-band">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All ages</SelectItem>
+                  {templateAgeBands.map((band) => (
+                    <SelectItem key={band} value={band}>Ages {band}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Search themes"
+                value={themeFilter}
+                onChange={(e) => setThemeFilter(e.target.value)}
+                data-testid="input-library-theme"
+              />
+            </div>
+            {weekPicker}
+
+            {isLibraryLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : libraryTemplates.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No shared templates match yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {libraryTemplates.map((template) => (
+                  <div key={template.id} className="rounded-md border px-3 py-2 text-sm space-y-1" data-testid={`library-template-${template.id}`}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-medium">
+                          {template.name}
+                          {template.isOwn && <span className="text-xs text-muted-foreground"> (yours)</span>}
+                        </p>
+                        {template.description && <p className="text-xs text-muted-foreground">{template.description}</p>}
+                        <p className="text-xs text-muted-foreground">{template.themes.join(" • ")}</p>
+                      </div>
+                      {importButton(template)}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <TemplateTags template={template} />
+                      {template.importCount > 0 && (
+                        <span className="text-xs text-muted-foreground flex items-center gap-1 flex-shrink-0">
+                          <Users className="w-3 h-3" />
+                          {template.importCount}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="mine" className="space-y-3">
+            {weekPicker}
+            {isMyTemplatesLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : myTemplates.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">You haven't saved any templates yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {myTemplates.map((template) => (
+                  <div key={template.id} className="rounded-md border px-3 py-2 text-sm space-y-2" data-testid={`my-template-${template.id}`}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-medium">{template.name}</p>
+                        <p className="text-xs text-muted-foreground">{template.themes.join(" • ")}</p>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {importButton(template)}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(template.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-template-${template.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <TemplateTags template={template} />
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Label htmlFor={`publish-${template.id}`} className="text-xs">Shared</Label>
+                        <Switch
+                          id={`publish-${template.id}`}
+                          checked={template.isPublished}
+                          onCheckedChange={(isPublished) => publishMutation.mutate({ templateId: template.id, isPublished })}
+                          disabled={publishMutation.isPending}
+                          data-testid={`switch-publish-template-${template.id}`}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="save" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g. Rockpool Week"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-template-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description (optional)</Label>
+              <Textarea
+                id="template-description"
+                placeholder="What made this work well for your family or co-op?"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-template-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>What to save</Label>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger data-testid="select-template-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Whole curriculum</SelectItem>
+                  {weekNumbers.map((weekNumber) => (
+                    <SelectItem key={weekNumber} value={String(weekNumber)}>Week {weekNumber}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Children's names, mastery levels and your local outings are left out. It's tagged with your learning approaches and your children's age bands.
+              </p>
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-save-template"
+            >
+              <BookmarkPlus className="w-4 h-4 mr-2" />
+              Save Template
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  STANDARDS_CONFIG,
+  customStandardSchema,
+  getCustomStandard,
+  type CustomStandardDefinition,
+  type TranscriptFormat,
+} from "@shared/standardsConfig";
+
+interface CustomStandardBuilderProps {
+  childId: string;
+  standardMetadata: unknown;
+}
+
+const TRANSCRIPT_LAYOUTS: { value: TranscriptFormat; label: string }[] = [
+  { value: "us", label: "Traditional (courses by grade level)" },
+  { value: "uk", label: "Learning record (qualifications by key stage)" },
+  { value: "ib", label: "Diploma (subject groups and core)" },
+  { value: "anz", label: "Achievement record (credits by level)" },
+  { value: "eu", label: "Competency portfolio" },
+  { value: "narrative", label: "Narrative portfolio (no grades)" },
+];
+
+function defaultDefinition(): CustomStandardDefinition {
+  const base = STANDARDS_CONFIG.custom;
+  return {
+    name: "",
+    shortName: "",
+    flag: base.flag,
+    creditUnit: base.creditUnit,
+    creditLabel: base.creditLabel,
+    gradeTerminology: "Average",
+    gradeScale: [],
+    subjects: base.subjects,
+    transcriptFormat: base.transcriptFormat,
+  };
+}
+
+export function CustomStandardBuilder({ childId, standardMetadata }: CustomStandardBuilderProps) {
+  const { toast } = useToast();
+  const [definition, setDefinition] = useState<CustomStandardDefinition>(
+    () => getCustomStandard(standardMetadata) || defaultDefinition()
+  );
+  const [subjectsText, setSubjectsText] = useState(definition.subjects.join(", "));
+
+  useEffect(() => {
+    const saved = getCustomStandard(standardMetadata) || defaultDefinition();
+    setDefinition(saved);
+    setSubjectsText(saved.subjects.join(", "));
+  }, [standardMetadata]);
+
+  const update = (updates: Partial<CustomStandardDefinition>) => {
+    setDefinition((prev) => ({ ...prev, ...updates }));
+  };
+
+  const updateScaleEntry = (index: number, updates: { grade?: string; points?: number }) => {
+    update({
+      gradeScale: definition.gradeScale.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = customStandardSchema.safeParse({
+        ...definition,
+        subjects: subjectsText.split(",").map((s) => s.trim()).filter(Boolean),
+        gradeScale: definition.gradeScale.filter((entry) => entry.grade.trim()),
+        transcriptTitle: definition.transcriptTitle?.trim() || undefined,
+      });
+      if (!parsed.success) {
+        throw new Error("Please fill in a name, short name, credit and grade terminology, and at least one subject");
+      }
+      return await apiRequest("PUT", `/api/children/${childId}/custom-standard`, parsed.data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/children"] });
+      toast({ title: "Custom framework saved", description: "Transcripts will now use your terminology, grade scale and layout." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save framework", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4 bg-card" data-testid={`custom-standard-builder-${childId}`}>
+      <div>
+        <Label className="text-sm font-semibold">Build Your Framework</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          For example South Africa's CAPS or India's CBSE. These settings replace the generic custom defaults on the transcript page and PDF.
+        </p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1fr_1fr_80px]">
+        <div className="space-y-1">
+          <Label className="text-xs">Framework name</Label>
+          <Input
+            value={definition.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Central Board of Secondary Education"
+            data-testid="input-custom-standard-name"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Short name</Label>
+          <Input
+            value={definition.shortName}
+            onChange={(e) => update({ shortName: e.target.value })}
+            placeholder="CBSE"
+            data-testid="input-custom-standard-short-name"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Flag</Label>
+          <Input
+            value={definition.flag || ""}
+            onChange={(e) => update({ flag: e.target.value })}
+            data-testid="input-custom-standard-flag"
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Credit unit</Label>
+          <Input
+            value={definition.creditUnit}
+            onChange={(e) => update({ creditUnit: e.target.value })}
+            placeholder="credits"
+            data-testid="input-custom-standard-credit-unit"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Credit label</Label>
+          <Input
+            value={definition.creditLabel}
+            onChange={(e) => update({ creditLabel: e.target.value })}
+            placeholder="Notional Hours"
+            data-testid="input-custom-standard-credit-label"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Grade terminology</Label>
+          <Input
+            value={definition.gradeTerminology}
+            onChange={(e) => update({ gradeTerminology: e.target.value })}
+            placeholder="CGPA"
+            data-testid="input-custom-standard-grade-terminology"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Subjects (comma separated)</Label>
+        <Input
+          value={subjectsText}
+          onChange={(e) => setSubjectsText(e.target.value)}
+          placeholder="Home Language, First Additional Language, Mathematics, Life Orientation"
+          data-testid="input-custom-standard-subjects"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Grade scale</Label>
+        <p className="text-xs text-muted-foreground">
+          Map each grade you record to points. Leave empty to use a 4.0 GPA.
+        </p>
+        {definition.gradeScale.map((entry, index) => (
+          <div key={index} className="grid grid-cols-[1fr_100px_auto] gap-2">
+            <Input
+              value={entry.grade}
+              onChange={(e) => updateScaleEntry(index, { grade: e.target.value })}
+              placeholder="A1"
+              data-testid={`input-grade-scale-grade-${index}`}
+            />
+            <Input
+              type="number"
+              step={0.1}
+              min={0}
+              value={entry.points}
+              onChange={(e) => updateScaleEntry(index, { points: parseFloat(e.target.value) || 0 })}
+              data-testid={`input-grade-scale-points-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => update({ gradeScale: definition.gradeScale.filter((_, i) => i !== index) })}
+              data-testid={`button-remove-grade-scale-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ gradeScale: [...definition.gradeScale, { grade: "", points: 0 }] })}
+          data-testid="button-add-grade-scale"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Grade
+        </Button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Transcript layout</Label>
+          <Select
+            value={definition.transcriptFormat}
+            onValueChange={(value) => update({ transcriptFormat: value as TranscriptFormat })}
+          >
+            <SelectTrigger data-testid="select-custom-standard-layout">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSCRIPT_LAYOUTS.map((layout) => (
+                <SelectItem key={layout.value} value={layout.value}>
+                  {layout.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Transcript heading (optional)</Label>
+          <Input
+            value={definition.transcriptTitle || ""}
+            onChange={(e) => update({ transcriptTitle: e.target.value })}
+            placeholder="SENIOR SECONDARY RECORD"
+            data-testid="input-custom-standard-title"
+          />
+        </div>
+      </div>
+
+      <Button
+        type="button"
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending}
+        data-testid="button-save-custom-standard"
+      >
+        <Save className="w-4 h-4 mr-2" />
+        {saveMutation.isPending ? "Saving..." : "Save Framework"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle2, Circle, Clock, ListChecks } from "lucide-react";
+import type { GraduationProgress, RequirementProgress } from "@shared/graduationRequirements";
+
+interface GraduationRequirementsChecklistProps {
+  childId: string;
+  creditUnit: string;
+}
+
+function formatMonth(date: string | null): string | null {
+  return date ? format(parseISO(date), "MMMM yyyy") : null;
+}
+
+function measureLabel(requirement: RequirementProgress, creditUnit: string): string {
+  switch (requirement.measure) {
+    case "credits":
+      return creditUnit;
+    case "groups":
+      return "groups";
+    case "points":
+      return "points";
+    default:
+      return requirement.required === 1 ? "course" : "courses";
+  }
+}
+
+export function GraduationRequirementsChecklist({ childId, creditUnit }: GraduationRequirementsChecklistProps) {
+  const { data: progress, isLoading } = useQuery<GraduationProgress>({
+    queryKey: [`/api/transcript/graduation-requirements?childId=${childId}`],
+    enabled: !!childId,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (!progress) {
+    return null;
+  }
+
+  const projected = formatMonth(progress.projectedGraduationDate);
+  const typical = formatMonth(progress.typicalGraduationDate);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-primary" />
+          Graduation Requirements
+        </CardTitle>
+        <CardDescription>
+          {progress.isComplete
+            ? "All requirements are met."
+            : projected
+              ? `At the current pace, requirements will be met by ${projected}.`
+              : "Complete a course in each area to see a projected graduation date."}
+          {typical && ` Typical graduation for this age: ${typical}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {progress.requirements.map((requirement) => {
+          const unit = measureLabel(requirement, creditUnit);
+          const percent = Math.min(100, (requirement.completed / requirement.required) * 100);
+          return (
+            <div key={requirement.id} className="space-y-1.5" data-testid={`graduation-requirement-${requirement.id}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-2 min-w-0">
+                  {requirement.status === "met" ? (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                  ) : requirement.status === "on-track" ? (
+                    <Clock className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <Circle className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{requirement.label}</p>
+                    {requirement.description && (
+                      <p className="text-xs text-muted-foreground">{requirement.description}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="text-sm font-medium">
+                    {requirement.completed} / {requirement.required} {unit}
+                  </p>
+                  {requirement.status !== "met" && (
+                    <p className="text-xs text-muted-foreground">
+                      {requirement.inProgress > 0 && `${requirement.inProgress} in progress • `}
+                      {requirement.projectedDate ? `Projected ${formatMonth(requirement.projectedDate)}` : "No pace yet"}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 pl-6">
+                <Progress value={percent} className="h-2" />
+                {requirement.status === "missing" && (
+                  <Badge variant="outline" className="text-xs whitespace-nowrap">
+                    Needs {requirement.remaining} more
+                  </Badge>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, Ban, Copy } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TranscriptVerification } from "@shared/schema";
+
+type IssuedTranscript = Omit<TranscriptVerification, "snapshot"> & { courseCount: number };
+
+interface IssuedTranscriptsProps {
+  childId: string;
+}
+
+export function IssuedTranscripts({ childId }: IssuedTranscriptsProps) {
+  const { toast } = useToast();
+  const verificationsKey = `/api/transcript/verifications?childId=${childId}`;
+
+  const { data: verifications = [] } = useQuery<IssuedTranscript[]>({
+    queryKey: [verificationsKey],
+    enabled: !!childId,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (verificationId: string) => {
+      return await apiRequest("POST", `/api/transcript/verifications/${verificationId}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [verificationsKey] });
+      toast({ title: "Transcript revoked", description: "Anyone checking this code will be told it is no longer valid." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't revoke transcript", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyLink = async (code: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/verify/${code}`);
+    toast({ title: "Verification link copied" });
+  };
+
+  if (verifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          Issued Transcripts
+        </CardTitle>
+        <CardDescription>
+          Every downloaded transcript carries a verification code. Colleges can check it online; revoke any copy you no longer stand behind.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {verifications.map((verification) => (
+          <div
+            key={verification.id}
+            className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm"
+            data-testid={`issued-transcript-${verification.id}`}
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-mono font-medium">{verification.verificationCode}</span>
+                {verification.revokedAt ? (
+                  <Badge variant="destructive" className="text-xs">Revoked</Badge>
+                ) : (
+                  <Badge variant="secondary" className="text-xs">Valid</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Issued {format(new Date(verification.issuedAt), "d MMM yyyy, h:mm a")} • {verification.courseCount} courses
+                {verification.revokedAt && ` • Revoked ${format(new Date(verification.revokedAt), "d MMM yyyy")}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => copyLink(verification.verificationCode)}
+                data-testid={`button-copy-verification-${verification.id}`}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              {!verification.revokedAt && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(verification.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-verification-${verification.id}`}
+                >
+                  <Ban className="w-4 h-4 mr-1" />
+                  Revoke
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
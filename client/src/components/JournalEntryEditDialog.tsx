@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Child, JournalEntry } from "@shared/schema";
+
+interface JournalEntryEditDialogProps {
+  entry: JournalEntry | null;
+  familyChildren: Child[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function JournalEntryEditDialog({ entry, familyChildren, onOpenChange }: JournalEntryEditDialogProps) {
+  const { toast } = useToast();
+  const [content, setContent] = useState("");
+  const [entryDate, setEntryDate] = useState("");
+  const [childId, setChildId] = useState("");
+  const [subjectsText, setSubjectsText] = useState("");
+  const [minutesText, setMinutesText] = useState("");
+
+  useEffect(() => {
+    if (entry) {
+      setContent(entry.content);
+      setEntryDate(entry.entryDate);
+      setChildId(entry.childId);
+      setSubjectsText((entry.subjects || []).join(", "));
+      setMinutesText(entry.elapsedMinutes != null ? String(entry.elapsedMinutes) : "");
+    }
+  }, [entry]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const minutes = parseInt(minutesText, 10);
+      const response = await apiRequest("PATCH", `/api/journal/${entry!.id}`, {
+        content,
+        entryDate,
+        childId,
+        subjects: subjectsText.split(",").map((s) => s.trim()).filter(Boolean),
+        elapsedMinutes: Number.isNaN(minutes) ? null : minutes,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      // Covers the paged list too, which lives under the same key prefix
+      queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+      toast({
+        title: "Entry updated",
+        description: "Your journal entry has been saved.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving entry",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-edit-journal-entry">
+        <DialogHeader>
+          <DialogTitle>Edit journal entry</DialogTitle>
+          <DialogDescription>Fix a transcript, move it to another day or child, or update the subject tags.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="journal-edit-child">Child</Label>
+              <Select value={childId} onValueChange={setChildId}>
+                <SelectTrigger id="journal-edit-child" data-testid="select-edit-journal-child">
+                  <SelectValue placeholder="Choose a child" />
+                </SelectTrigger>
+                <SelectContent>
+                  {familyChildren.map((child) => (
+                    <SelectItem key={child.id} value={child.id}>{child.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="journal-edit-date">Date</Label>
+              <Input
+                id="journal-edit-date"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                data-testid="input-edit-journal-date"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="journal-edit-content">Entry</Label>
+            <Textarea
+              id="journal-edit-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="min-h-[140px]"
+              data-testid="textarea-edit-journal-content"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="journal-edit-subjects">Subjects</Label>
+              <Input
+                id="journal-edit-subjects"
+                value={subjectsText}
+                onChange={(e) => setSubjectsText(e.target.value)}
+                placeholder="e.g. Maths, Science"
+                data-testid="input-edit-journal-subjects"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="journal-edit-minutes">Minutes</Label>
+              <Input
+                id="journal-edit-minutes"
+                type="number"
+                min={0}
+                value={minutesText}
+                onChange={(e) => setMinutesText(e.target.value)}
+                data-testid="input-edit-journal-minutes"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-edit-journal">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!content.trim() || !entryDate || !childId || saveMutation.isPending}
+            data-testid="button-save-edit-journal"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -109,14 +109,22 @@ const approaches: ApproachInfo[] = [
   },
 ];
 
+// Display names, for places that show approach tags without the full selector
+export const learningApproachNames = Object.fromEntries(
+  approaches.map((approach) => [approach.id, approach.name])
+) as Record<LearningApproach, string>;
+
 interface LearningApproachSelectorProps {
   value?: LearningApproach | LearningApproach[];
   onChange: (approach: LearningApproach | LearningApproach[]) => void;
   hideTitle?: boolean;
   multiSelect?: boolean;
+  // A row of toggle buttons instead of the full cards - for per-child pickers inside a child's form
+  compact?: boolean;
+  testIdPrefix?: string;
 }
 
-export function LearningApproachSelector({ value, onChange, hideTitle, multiSelect = false }: LearningApproachSelectorProps) {
+export function LearningApproachSelector({ value, onChange, hideTitle, multiSelect = false, compact = false, testIdPrefix = "approach" }: LearningApproachSelectorProps) {
   const [selected, setSelected] = useState<LearningApproach | LearningApproach[] | undefined>(value);
 
   useEffect(() => {
@@ -144,6 +152,31 @@ export function LearningApproachSelector({ value, onChange, hideTitle, multiSele
     return selected === approachId;
   };
 
+  if (compact) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        {approaches.map((approach) => {
+          const Icon = approach.icon;
+          const isSelected = isApproachSelected(approach.id);
+          return (
+            <Button
+              key={approach.id}
+              type="button"
+              variant={isSelected ? "default" : "outline"}
+              size="sm"
+              title={approach.tagline}
+              onClick={() => handleSelect(approach.id)}
+              data-testid={`button-${testIdPrefix}-${approach.id}`}
+            >
+              <Icon className="w-4 h-4 mr-1.5" />
+              {approach.name}
+            </Button>
+          );
+        })}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {!hideTitle && (
@@ -0,0 +1,416 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { SyncedTranscript } from "@/components/SyncedTranscript";
+import { useToast } from "@/hooks/use-toast";
+import { useVoiceRecording } from "@/hooks/useVoiceRecording";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getCurrentWeekNumber } from "@shared/curriculumSchedule";
+import { Check, MessageSquareQuote, Mic, Trash2, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { Child, CurriculumData, DailyActivity, MeasuredNarration, Narration, NarrationGrowth, TranscriptSegment } from "@shared/schema";
+
+const PLAN_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"] as const;
+type PlanDay = typeof PLAN_DAYS[number];
+
+interface NarrationHistory {
+  narrations: MeasuredNarration[];
+  growth: NarrationGrowth;
+}
+
+interface NarrationCaptureProps {
+  familyChildren: Child[];
+  curriculumData: CurriculumData | undefined;
+}
+
+function activityTitle(activity: DailyActivity): string {
+  return typeof activity === "string" ? activity : activity.activity;
+}
+
+// Readings are picked by day and position, since the same title can come up on two days
+function readingKey(day: PlanDay, idx: number): string {
+  return `${day}:${idx}`;
+}
+
+function GrowthSummary({ growth }: { growth: NarrationGrowth }) {
+  if (growth.narrationCount < 2) return null;
+  const change = (early: number, recent: number) => {
+    const diff = Math.round((recent - early) * 10) / 10;
+    return diff > 0 ? `+${diff}` : `${diff}`;
+  };
+  return (
+    <div className="grid grid-cols-3 gap-2 text-center" data-testid="narration-growth">
+      <div className="rounded-md border border-border p-2">
+        <p className="text-lg font-semibold">{growth.recentAverageWords}</p>
+        <p className="text-xs text-muted-foreground">words per narration ({change(growth.earlyAverageWords, growth.recentAverageWords)})</p>
+      </div>
+      <div className="rounded-md border border-border p-2">
+        <p className="text-lg font-semibold">{growth.recentAverageUniqueWords}</p>
+        <p className="text-xs text-muted-foreground">different words ({change(growth.earlyAverageUniqueWords, growth.recentAverageUniqueWords)})</p>
+      </div>
+      <div className="rounded-md border border-border p-2">
+        <p className="text-lg font-semibold">{growth.vocabularySize}</p>
+        <p className="text-xs text-muted-foreground">words used so far</p>
+      </div>
+    </div>
+  );
+}
+
+// Record a child's narration of one of this week's readings, and follow how their narrations grow
+export function NarrationCapture({ familyChildren, curriculumData }: NarrationCaptureProps) {
+  const { toast } = useToast();
+  const { isRecording, audioBlob, audioUrl, duration, error: recordingError, startRecording, stopRecording, resetRecording } = useVoiceRecording();
+  const [childId, setChildId] = useState(familyChildren[0]?.id || "");
+  const [selectedReading, setSelectedReading] = useState("");
+  const [typedNarration, setTypedNarration] = useState("");
+  const [includeInPortfolio, setIncludeInPortfolio] = useState(false);
+  const [deletingNarration, setDeletingNarration] = useState<MeasuredNarration | null>(null);
+  const [transcriptDrafts, setTranscriptDrafts] = useState<Record<string, string>>({});
+
+  const weekNumber = curriculumData ? getCurrentWeekNumber(curriculumData.generatedAt) : null;
+  const plan = curriculumData?.weeks
+    .find((week) => week.weekNumber === weekNumber)
+    ?.children.find((c) => c.childId === childId);
+  const readings = PLAN_DAYS.map((day) => ({
+    day,
+    activities: (plan?.dailyPlan[day] || []).map(activityTitle),
+  })).filter(({ activities }) => activities.length > 0);
+
+  useEffect(() => {
+    if (!familyChildren.some((child) => child.id === childId)) {
+      setChildId(familyChildren[0]?.id || "");
+    }
+  }, [familyChildren, childId]);
+
+  // Start on the first reading planned for today, if there is one
+  useEffect(() => {
+    const today = format(new Date(), "EEEE");
+    const todays = readings.find(({ day }) => day === today);
+    setSelectedReading(todays ? readingKey(todays.day, 0) : "");
+  }, [childId, weekNumber]);
+
+  useEffect(() => {
+    if (recordingError) {
+      toast({ title: "Recording Error", description: recordingError, variant: "destructive" });
+    }
+  }, [recordingError, toast]);
+
+  // Recordings are transcribed on the server after saving, so check back until they're done
+  const { data: history, isLoading: historyLoading } = useQuery<NarrationHistory>({
+    queryKey: ["/api/children", childId, "narrations"],
+    enabled: !!childId,
+    refetchInterval: (query) =>
+      query.state.data?.narrations.some((narration) => narration.transcriptionStatus === "pending") ? 5000 : false,
+  });
+
+  const resetCapture = () => {
+    resetRecording();
+    setTypedNarration("");
+    setIncludeInPortfolio(false);
+  };
+
+  const saveNarrationMutation = useMutation({
+    mutationFn: async () => {
+      const [day, idx] = selectedReading.split(":") as [PlanDay, string];
+      const reading = plan?.dailyPlan[day]?.[parseInt(idx, 10)];
+      if (!reading || weekNumber === null) {
+        throw new Error("Please choose a reading");
+      }
+
+      let uploadedAudioUrl: string | undefined;
+      if (audioBlob) {
+        const uploadResponse = await apiRequest("POST", "/api/objects/upload", {});
+        const { uploadURL } = await uploadResponse.json();
+        const putResponse = await fetch(uploadURL, {
+          method: "PUT",
+          body: audioBlob,
+          headers: { "Content-Type": audioBlob.type },
+        });
+        if (!putResponse.ok) {
+          throw new Error("Couldn't upload the recording");
+        }
+        uploadedAudioUrl = uploadURL;
+      }
+
+      const response = await apiRequest("POST", "/api/narrations", {
+        childId,
+        weekNumber,
+        day,
+        reading: activityTitle(reading),
+        narrationDate: format(new Date(), "yyyy-MM-dd"),
+        transcript: typedNarration.trim() || undefined,
+        audioUrl: uploadedAudioUrl,
+        duration: audioBlob ? duration : undefined,
+        includeInPortfolio,
+      });
+      return await response.json() as Narration;
+    },
+    onSuccess: (narration) => {
+      toast({
+        title: "Narration saved!",
+        description: narration.transcriptionStatus === "pending"
+          ? "We're transcribing the recording. It will appear below shortly."
+          : includeInPortfolio ? "It's been added to this week's portfolio." : "You can add it to the portfolio any time.",
+      });
+      resetCapture();
+      queryClient.invalidateQueries({ queryKey: ["/api/children", childId, "narrations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving narration",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateNarrationMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; includeInPortfolio?: boolean; transcript?: string }) => {
+      const response = await apiRequest("PATCH", `/api/narrations/${id}`, updates);
+      return await response.json();
+    },
+    onSuccess: (_narration, { id }) => {
+      setTranscriptDrafts(({ [id]: _draft, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ["/api/children", childId, "narrations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't update the narration",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteNarrationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/narrations/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Narration deleted" });
+      setDeletingNarration(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/children", childId, "narrations"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting narration",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = !!selectedReading && !isRecording && (!!audioBlob || !!typedNarration.trim());
+
+  return (
+    <Card data-testid="card-narration">
+      <CardHeader>
+        <CardTitle className="font-heading text-xl flex items-center gap-2">
+          <MessageSquareQuote className="w-5 h-5 text-primary" />
+          Narration
+        </CardTitle>
+        <CardDescription>Record your child telling back one of this week's readings in their own words</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          {familyChildren.length > 1 && (
+            <Select value={childId} onValueChange={setChildId}>
+              <SelectTrigger data-testid="select-narration-child">
+                <SelectValue placeholder="Choose a child" />
+              </SelectTrigger>
+              <SelectContent>
+                {familyChildren.map((child) => (
+                  <SelectItem key={child.id} value={child.id}>{child.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={selectedReading} onValueChange={setSelectedReading} disabled={readings.length === 0}>
+            <SelectTrigger className={familyChildren.length > 1 ? "" : "sm:col-span-2"} data-testid="select-narration-reading">
+              <SelectValue placeholder={readings.length > 0 ? "Which reading?" : "No readings planned this week"} />
+            </SelectTrigger>
+            <SelectContent>
+              {readings.map(({ day, activities }) => (
+                <SelectGroup key={day}>
+                  <SelectLabel>{day}</SelectLabel>
+                  {activities.map((activity, idx) => (
+                    <SelectItem key={readingKey(day, idx)} value={readingKey(day, idx)}>{activity}</SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          size="lg"
+          variant={isRecording ? "destructive" : "default"}
+          className="w-full h-14"
+          onClick={isRecording ? stopRecording : startRecording}
+          disabled={!selectedReading || saveNarrationMutation.isPending}
+          data-testid="button-record-narration"
+        >
+          <Mic className={`w-5 h-5 mr-2 ${isRecording ? "animate-pulse" : ""}`} />
+          {isRecording ? `Listening... ${duration}s / 120s` : "Record narration"}
+        </Button>
+
+        {audioUrl && !isRecording && (
+          <audio controls src={audioUrl} className="w-full" data-testid="audio-narration-preview" />
+        )}
+
+        <Textarea
+          placeholder={audioBlob
+            ? "Optional - type the narration if you'd rather not use the transcription"
+            : "Or write the narration down as your child tells it"}
+          value={typedNarration}
+          onChange={(e) => setTypedNarration(e.target.value)}
+          className="min-h-[80px]"
+          data-testid="input-narration-text"
+        />
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="narration-include-portfolio"
+            checked={includeInPortfolio}
+            onCheckedChange={setIncludeInPortfolio}
+            data-testid="switch-narration-portfolio"
+          />
+          <Label htmlFor="narration-include-portfolio" className="text-sm">Add to this week's portfolio</Label>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            className="flex-1"
+            onClick={() => saveNarrationMutation.mutate()}
+            disabled={!canSave || saveNarrationMutation.isPending}
+            data-testid="button-save-narration"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            {saveNarrationMutation.isPending ? "Saving..." : "Save Narration"}
+          </Button>
+          {(audioBlob || typedNarration) && (
+            <Button variant="outline" onClick={resetCapture} disabled={saveNarrationMutation.isPending} data-testid="button-discard-narration">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        {historyLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : history && history.narrations.length > 0 && (
+          <div className="space-y-3 pt-2">
+            <h4 className="text-sm font-semibold">Past narrations</h4>
+            <GrowthSummary growth={history.growth} />
+            {history.narrations.map((narration) => {
+              const segments = (narration.transcriptSegments as TranscriptSegment[] | null) || [];
+              return (
+                <div key={narration.id} className="rounded-md border border-border p-3 space-y-2" data-testid={`narration-${narration.id}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium">{narration.reading}</p>
+                      <p className="text-xs text-muted-foreground">{format(parseISO(narration.narrationDate), "EEE d MMM yyyy")}</p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDeletingNarration(narration)}
+                      data-testid={`button-delete-narration-${narration.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {narration.audioUrl && segments.length > 0 ? (
+                    <SyncedTranscript entryId={narration.id} audioUrl={narration.audioUrl} segments={segments} />
+                  ) : (
+                    <>
+                      {narration.audioUrl && <audio controls src={narration.audioUrl} className="w-full" />}
+                      {narration.transcriptionStatus === "pending" && (
+                        <p className="text-sm text-muted-foreground italic">Transcribing the recording...</p>
+                      )}
+                      {narration.transcriptionStatus === "failed" && (
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">We couldn't transcribe this recording. Type the narration as you listen back.</p>
+                          <Textarea
+                            value={transcriptDrafts[narration.id] || ""}
+                            onChange={(e) => setTranscriptDrafts((drafts) => ({ ...drafts, [narration.id]: e.target.value }))}
+                            className="min-h-[80px]"
+                            data-testid={`input-narration-transcript-${narration.id}`}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => updateNarrationMutation.mutate({ id: narration.id, transcript: transcriptDrafts[narration.id].trim() })}
+                            disabled={!transcriptDrafts[narration.id]?.trim() || updateNarrationMutation.isPending}
+                            data-testid={`button-save-narration-transcript-${narration.id}`}
+                          >
+                            <Check className="w-4 h-4 mr-2" />
+                            Save narration
+                          </Button>
+                        </div>
+                      )}
+                      {narration.transcriptionStatus === "done" && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{narration.transcript}</p>
+                      )}
+                    </>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {narration.transcriptionStatus === "done" && (
+                      <>
+                        <Badge variant="secondary" className="text-xs">{narration.metrics.wordCount} words</Badge>
+                        <Badge variant="secondary" className="text-xs">{narration.metrics.uniqueWordCount} different</Badge>
+                        {narration.metrics.newWordCount > 0 && (
+                          <Badge variant="outline" className="text-xs">{narration.metrics.newWordCount} new</Badge>
+                        )}
+                        {narration.metrics.wordsPerMinute !== null && (
+                          <Badge variant="outline" className="text-xs">{narration.metrics.wordsPerMinute} wpm</Badge>
+                        )}
+                      </>
+                    )}
+                    <div className="flex items-center gap-2 ml-auto">
+                      <Switch
+                        id={`narration-portfolio-${narration.id}`}
+                        checked={narration.includeInPortfolio}
+                        onCheckedChange={(checked) => updateNarrationMutation.mutate({ id: narration.id, includeInPortfolio: checked })}
+                        disabled={updateNarrationMutation.isPending}
+                        data-testid={`switch-narration-portfolio-${narration.id}`}
+                      />
+                      <Label htmlFor={`narration-portfolio-${narration.id}`} className="text-xs">In portfolio</Label>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!deletingNarration} onOpenChange={(open) => !open && setDeletingNarration(null)}>
+        <AlertDialogContent data-testid="dialog-delete-narration">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this narration?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The narration and its recording will be permanently deleted, and it will be taken out of the portfolio.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-narration">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingNarration && deleteNarrationMutation.mutate(deletingNarration.id)}
+              disabled={deleteNarrationMutation.isPending}
+              data-testid="button-confirm-delete-narration"
+            >
+              {deleteNarrationMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp, Minus, Network, Sparkles, TrendingDown, TrendingUp } from "lucide-react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import type { SkillNode, SkillsMap as SkillsMapData, SkillTrend } from "@shared/schema";
+
+const TREND_DISPLAY: Record<SkillTrend, { label: string; icon: typeof TrendingUp; className: string }> = {
+  new: { label: "New", icon: Sparkles, className: "text-primary" },
+  rising: { label: "Growing", icon: TrendingUp, className: "text-green-600" },
+  steady: { label: "Steady", icon: Minus, className: "text-muted-foreground" },
+  falling: { label: "Fading", icon: TrendingDown, className: "text-amber-600" },
+};
+
+function Sparkline({ history }: { history: SkillNode["history"] }) {
+  if (history.length < 2) return null;
+  const width = 64;
+  const height = 20;
+  const points = history
+    .map((point, idx) => `${(idx / (history.length - 1)) * width},${height - (point.confidence / 100) * height}`)
+    .join(" ");
+  return (
+    <svg width={width} height={height} className="text-primary shrink-0" aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+function SkillRow({ childId, node, testId }: { childId: string; node: SkillNode; testId: string }) {
+  const [open, setOpen] = useState(false);
+  const trend = TREND_DISPLAY[node.trend];
+  const TrendIcon = trend.icon;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <button type="button" className="w-full text-left rounded-md p-2 hover-elevate" data-testid={testId}>
+          <div className="flex items-center gap-3">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium truncate">{node.skill}</span>
+                <span className={`flex items-center gap-1 text-xs ${trend.className}`} data-testid={`${testId}-trend`}>
+                  <TrendIcon className="w-3 h-3" />
+                  {trend.label}
+                </span>
+              </div>
+              <Progress value={node.confidence} className="h-1.5" />
+            </div>
+            <Sparkline history={node.history} />
+            <span className="text-xs text-muted-foreground w-8 text-right" data-testid={`${testId}-confidence`}>{node.confidence}%</span>
+            {open ? <ChevronUp className="w-4 h-4 text-muted-foreground" /> : <ChevronDown className="w-4 h-4 text-muted-foreground" />}
+          </div>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="pl-2 pr-2 pb-3 space-y-2">
+          <p className="text-xs text-muted-foreground">
+            First seen {format(parseISO(node.firstSeen), "MMM d, yyyy")} · Last practised {formatDistanceToNow(parseISO(node.lastPractised), { addSuffix: true })} · {node.occurrences} {node.occurrences === 1 ? "time" : "times"}
+          </p>
+          {node.evidence.length > 0 ? (
+            <div className="space-y-1">
+              {node.evidence.map((evidence) => (
+                <Link
+                  key={evidence.entryId}
+                  href={`/journal?${new URLSearchParams({ childId, from: evidence.entryDate, to: evidence.entryDate, q: node.skill }).toString()}`}
+                  className="block rounded-md border border-border p-2 text-xs hover-elevate"
+                  data-testid={`link-skill-evidence-${evidence.entryId}`}
+                >
+                  <span className="font-medium">{format(parseISO(evidence.entryDate), "MMM d")}</span>
+                  <span className="text-muted-foreground"> - {evidence.excerpt}</span>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground italic">From the weekly mastery check-ins</p>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function SkillsMap({ childId }: { childId: string }) {
+  const { data, isLoading } = useQuery<SkillsMapData>({
+    queryKey: ["/api/children", childId, "skills"],
+  });
+
+  return (
+    <Card data-testid={`card-skills-map-${childId}`}>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Network className="w-5 h-5 text-primary" />
+          <CardTitle className="font-heading">Skills Map</CardTitle>
+        </div>
+        <CardDescription>
+          Skills spotted in journal entries and weekly check-ins, grouped by subject. Confidence fades when a skill isn't practised.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : data && data.subjects.length > 0 ? (
+          <div className="space-y-5" data-testid={`skills-map-${childId}`}>
+            {data.subjects.map((group) => (
+              <div key={group.subject} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold">{group.subject}</h4>
+                  <Badge variant="secondary" className="text-xs">
+                    {group.skills.length} {group.skills.length === 1 ? "skill" : "skills"}
+                  </Badge>
+                </div>
+                {group.skills.map((node, idx) => (
+                  <SkillRow
+                    key={node.skill}
+                    childId={childId}
+                    node={node}
+                    testId={`skill-${childId}-${group.subject.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-${idx}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8" data-testid={`text-skills-empty-${childId}`}>
+            No skills mapped yet. Voice journal entries add to this as you go.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { useRef, useState } from "react";
+import type { TranscriptSegment } from "@shared/schema";
+
+interface SyncedTranscriptProps {
+  entryId: string;
+  audioUrl: string;
+  segments: TranscriptSegment[];
+}
+
+function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Audio player with its transcript underneath: the line being spoken is highlighted, and tapping a line jumps there
+export function SyncedTranscript({ entryId, audioUrl, segments }: SyncedTranscriptProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const activeIndex = segments.findIndex((segment) => currentTime >= segment.start && currentTime < segment.end);
+
+  const handleSeek = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segment.start;
+    setCurrentTime(segment.start);
+    audio.play().catch(() => {});
+  };
+
+  return (
+    <div className="space-y-3">
+      <audio
+        ref={audioRef}
+        controls
+        src={audioUrl}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        className="w-full"
+        data-testid={`audio-player-${entryId}`}
+      />
+      <div className="space-y-1" data-testid={`transcript-${entryId}`}>
+        {segments.map((segment, idx) => (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => handleSeek(segment)}
+            className={`flex w-full gap-3 rounded-md px-2 py-1 text-left text-sm transition-colors hover-elevate ${
+              idx === activeIndex ? "bg-primary/10 text-foreground" : "text-muted-foreground"
+            }`}
+            data-testid={`transcript-segment-${entryId}-${idx}`}
+          >
+            <span className="shrink-0 font-mono text-xs pt-0.5">{formatTimestamp(segment.start)}</span>
+            <span>{segment.text}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
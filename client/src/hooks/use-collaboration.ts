@@ -72,6 +72,13 @@ export function useCollaboration({ user, familyId, enabled = true }: UseCollabor
               window.dispatchEvent(new CustomEvent("curriculum_updated"));
               break;
 
+            case "curriculum_progress":
+              // Weeks of a background generation arriving one at a time
+              window.dispatchEvent(new CustomEvent("curriculum_progress", {
+                detail: message
+              }));
+              break;
+
             case "week_update":
               // Trigger week refetch
               window.dispatchEvent(new CustomEvent("week_updated", {
@@ -12,13 +12,32 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Sparkles, RefreshCw, Calendar, TrendingUp, MapPin, BookOpen, ExternalLink, Users, Zap, CalendarDays, Clock, DollarSign, Leaf, Gift, Copy, CheckCircle2, ShoppingBasket, Tag, ChevronRight, Settings, Printer } from "lucide-react";
+import { Sparkles, RefreshCw, Calendar, TrendingUp, MapPin, BookOpen, ExternalLink, Users, Zap, CalendarDays, Clock, DollarSign, Leaf, Gift, Copy, CheckCircle2, ShoppingBasket, Tag, ChevronRight, Settings, Printer, History, Lightbulb, AlertTriangle, LayoutTemplate } from "lucide-react";
 import { SiFacebook } from "react-icons/si";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { CurriculumData, WeekCurriculum, UpcomingEvent, JournalEntry, DailyActivity } from "@shared/schema";
 import { Link } from "wouter";
-import { format, addDays, startOfWeek, eachWeekOfInterval, isSameWeek, parseISO } from "date-fns";
+import { format, startOfWeek, eachWeekOfInterval, isSameWeek, parseISO } from "date-fns";
 import { ExpandableActivityCard } from "@/components/ExpandableActivityCard";
+import { CurriculumHistoryDialog } from "@/components/CurriculumHistoryDialog";
+import { CurriculumTemplatesDialog } from "@/components/CurriculumTemplatesDialog";
+import { getCurrentWeekNumber, getLastWeekNumber, getWeekDates } from "@shared/curriculumSchedule";
+
+// Background generation status from /api/curriculum/generation, kept current by curriculum_progress messages
+interface CurriculumGenerationStatus {
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  totalWeeks: number;
+  weeks: WeekCurriculum[];
+  error?: { message: string; code: string };
+}
+
+interface CurriculumProgress {
+  status: "started" | "week" | "completed" | "failed";
+  totalWeeks: number;
+  week?: WeekCurriculum;
+  error?: { message: string; code: string };
+}
 
 export default function Dashboard() {
   const { toast } = useToast();
@@ -26,6 +45,9 @@ export default function Dashboard() {
   const [copiedResources, setCopiedResources] = useState<Record<number, boolean>>({});
   const [currentWeekNumber, setCurrentWeekNumber] = useState<number | null>(null);
   const [expandedWeeks, setExpandedWeeks] = useState<Set<number>>(new Set());
+  const [showPastWeeks, setShowPastWeeks] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -58,6 +80,11 @@ export default function Dashboard() {
     enabled: !!user,
   });
 
+  const { data: generationJob } = useQuery<CurriculumGenerationStatus | null>({
+    queryKey: ["/api/curriculum/generation"],
+    enabled: !!user && !!familyData,
+  });
+
   const { data: journalEntries = [] } = useQuery<JournalEntry[]>({
     queryKey: ["/api/journal"],
     enabled: !!user && !!familyData,
@@ -95,6 +122,7 @@ export default function Dashboard() {
   useEffect(() => {
     const handleCurriculumUpdate = () => {
       queryClient.invalidateQueries({ queryKey: ["/api/curriculum"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/curriculum/history"] });
       toast({
         title: "Curriculum Updated",
         description: "Another user updated the curriculum",
@@ -105,6 +133,52 @@ export default function Dashboard() {
     return () => window.removeEventListener("curriculum_updated", handleCurriculumUpdate);
   }, [toast]);
 
+  // Follow a background generation as its weeks stream in
+  useEffect(() => {
+    const handleProgress = (event: Event) => {
+      const progress = (event as CustomEvent<CurriculumProgress>).detail;
+
+      queryClient.setQueryData<CurriculumGenerationStatus | null>(["/api/curriculum/generation"], (current) => {
+        switch (progress.status) {
+          case "started":
+            return { status: "running", startedAt: new Date().toISOString(), totalWeeks: progress.totalWeeks, weeks: [] };
+          case "week":
+            if (!current || !progress.week) return current;
+            return {
+              ...current,
+              weeks: [...current.weeks.filter(w => w.weekNumber !== progress.week!.weekNumber), progress.week]
+                .sort((a, b) => a.weekNumber - b.weekNumber),
+            };
+          case "completed":
+            return current ? { ...current, status: "completed" } : current;
+          case "failed":
+            return current ? { ...current, status: "failed", error: progress.error } : current;
+        }
+      });
+
+      if (progress.status === "completed") {
+        queryClient.invalidateQueries({ queryKey: ["/api/curriculum"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/curriculum/history"] });
+        toast({
+          title: "Curriculum Ready",
+          description: `All ${progress.totalWeeks} weeks of your new curriculum are in.`,
+        });
+      } else if (progress.status === "failed") {
+        toast({
+          title: "Curriculum generation failed",
+          description: progress.error?.message || "You can try regenerating from Settings.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    window.addEventListener("curriculum_progress", handleProgress);
+    return () => window.removeEventListener("curriculum_progress", handleProgress);
+  }, [toast]);
+
+  const generationInProgress = generationJob?.status === "running";
+  const generatedWeeks = generationInProgress ? generationJob.weeks : [];
+
   const { mutate: regenerateWeek, isPending: isRegenerating } = useMutation({
     mutationFn: async (weekNumber: number) => {
       toast({
@@ -114,11 +188,12 @@ export default function Dashboard() {
       const response = await apiRequest("POST", "/api/curriculum/regenerate", { weekNumber });
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, weekNumber) => {
       queryClient.invalidateQueries({ queryKey: ["/api/curriculum"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/curriculum/history"] });
       toast({
         title: "Week Regenerated",
-        description: "Your curriculum has been updated with fresh content!",
+        description: `Week ${weekNumber} has fresh content. The rest of your curriculum is unchanged.`,
       });
     },
     onError: (error: Error) => {
@@ -189,45 +264,30 @@ export default function Dashboard() {
   // Calculate the actual current week based on today's date
   useEffect(() => {
     if (curriculumResponse?.curriculumData?.generatedAt) {
-      const startDate = parseISO(curriculumResponse.curriculumData.generatedAt);
-      const today = new Date();
-      
-      // If curriculum starts in the future, default to week 1
-      if (today < startDate) {
-        setCurrentWeekNumber(1);
-        setExpandedWeeks(new Set([1]));
-        return;
-      }
-      
-      let calculatedWeek = 1;
-      for (let i = 0; i < 12; i++) {
-        const weekStart = addDays(startDate, i * 7);
-        const weekEnd = addDays(startDate, i * 7 + 6);
-        
-        if (today >= weekStart && today <= weekEnd) {
-          calculatedWeek = i + 1;
-          break;
-        }
-      }
-      
-      // If today is after all 12 weeks, default to week 12
-      const lastWeekEnd = addDays(startDate, 11 * 7 + 6);
-      if (today > lastWeekEnd) {
-        calculatedWeek = 12;
-      }
-      
+      // Weeks roll forward on the server; until the next one lands, stay on the last planned week
+      const calculatedWeek = Math.min(
+        getCurrentWeekNumber(curriculumResponse.curriculumData.generatedAt),
+        getLastWeekNumber(curriculumResponse.curriculumData) || 1
+      );
+
       setCurrentWeekNumber(calculatedWeek);
       setExpandedWeeks(new Set([calculatedWeek]));
     }
-  }, [curriculumResponse?.curriculumData?.generatedAt]);
+  }, [curriculumResponse]);
+
+  // A new plan starts again at week 1 - jump to the first streamed week until the rest arrive
+  useEffect(() => {
+    if (generatedWeeks.length > 0 && !generatedWeeks.some(w => w.weekNumber === currentWeekNumber)) {
+      setCurrentWeekNumber(generatedWeeks[0].weekNumber);
+      setExpandedWeeks(new Set([generatedWeeks[0].weekNumber]));
+    }
+  }, [generatedWeeks, currentWeekNumber]);
 
   // Calculate journal progress for each week using actual date ranges
   const getWeekProgress = (weekNumber: number): { completed: number; total: number } => {
     if (!curriculumResponse?.curriculumData?.generatedAt) return { completed: 0, total: 5 };
     
-    const startDate = parseISO(curriculumResponse.curriculumData.generatedAt);
-    const weekStart = addDays(startDate, (weekNumber - 1) * 7);
-    const weekEnd = addDays(startDate, (weekNumber - 1) * 7 + 6);
+    const { startDate: weekStart, endDate: weekEnd } = getWeekDates(curriculumResponse.curriculumData.generatedAt, weekNumber);
     
     const entriesThisWeek = journalEntries.filter(entry => {
       const entryDate = parseISO(entry.entryDate);
@@ -297,13 +357,15 @@ export default function Dashboard() {
     );
   }
 
-  if (!curriculumResponse) {
+  if (!curriculumResponse && generatedWeeks.length === 0) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
         <Sparkles className="w-12 h-12 text-primary mx-auto mb-4" />
-        <h2 className="text-2xl font-heading font-bold mb-2">Generating your custom curriculum... (10–20s)</h2>
+        <h2 className="text-2xl font-heading font-bold mb-2">Generating your custom curriculum...</h2>
         <p className="text-muted-foreground mb-6">
-          Your personalized curriculum is being created. Please refresh in a moment.
+          {generationInProgress
+            ? "Week 1 will appear here as soon as it's ready."
+            : "Your personalized curriculum is being created. Please refresh in a moment."}
         </p>
         <Link href="/settings/family">
           <Button size="lg" data-testid="button-goto-settings">
@@ -314,7 +376,10 @@ export default function Dashboard() {
     );
   }
 
-  const curriculum: CurriculumData = curriculumResponse.curriculumData;
+  // While a new plan streams in, show its weeks in place of the current one
+  const curriculum: CurriculumData = generatedWeeks.length > 0
+    ? { generatedAt: generationJob!.startedAt, weeks: generatedWeeks }
+    : curriculumResponse?.curriculumData;
   
   if (!curriculum || !curriculum.weeks || curriculum.weeks.length === 0) {
     return (
@@ -328,14 +393,33 @@ export default function Dashboard() {
     );
   }
 
+  // Weeks the AI couldn't produce even after repair - the rest of the plan is usable meanwhile
+  const flaggedWeeks = curriculum.flaggedWeeks || [];
+
+  // Finished weeks stay browsable but are tucked away by default
+  const pastWeekCount = curriculum.weeks.filter(week => week.archivedAt).length;
+  const visibleWeeks = showPastWeeks ? curriculum.weeks : curriculum.weeks.filter(week => !week.archivedAt);
+
   // Calculate week dates for the calendar
-  const startDate = parseISO(curriculum.generatedAt || new Date().toISOString());
-  const weekDates = curriculum.weeks.map((week, idx) => ({
+  const planStartDate = curriculum.generatedAt || new Date().toISOString();
+  const weekDates = visibleWeeks.map((week) => ({
     weekNumber: week.weekNumber,
-    startDate: addDays(startDate, idx * 7),
-    endDate: addDays(startDate, idx * 7 + 6),
+    ...getWeekDates(planStartDate, week.weekNumber),
   }));
 
+  const pastWeeksToggle = pastWeekCount > 0 && (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="w-full justify-start text-muted-foreground"
+      onClick={() => setShowPastWeeks(prev => !prev)}
+      data-testid="button-toggle-past-weeks"
+    >
+      <History className="w-4 h-4 mr-2" />
+      {showPastWeeks ? "Hide past weeks" : `Show ${pastWeekCount} past week${pastWeekCount !== 1 ? "s" : ""}`}
+    </Button>
+  );
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -413,6 +497,24 @@ export default function Dashboard() {
                   <span className="md:hidden">Download</span>
                 </Button>
               )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setHistoryOpen(true)}
+                data-testid="button-curriculum-history"
+              >
+                <History className="w-4 h-4 md:mr-2" />
+                <span className="hidden md:inline">History</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setTemplatesOpen(true)}
+                data-testid="button-curriculum-templates"
+              >
+                <LayoutTemplate className="w-4 h-4 md:mr-2" />
+                <span className="hidden md:inline">Templates</span>
+              </Button>
               <Link href="/family-settings">
                 <Button variant="outline" size="sm" data-testid="button-edit-family">
                   <Settings className="w-4 h-4 mr-2" />
@@ -424,6 +526,57 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {generationInProgress && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6" data-testid="curriculum-generation-progress">
+          <Card>
+            <CardContent className="py-4 space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <RefreshCw className="w-4 h-4 animate-spin text-primary" />
+                {generatedWeeks.length < generationJob.totalWeeks
+                  ? `Generating week ${generatedWeeks.length + 1} of ${generationJob.totalWeeks}`
+                  : "Finishing up your new curriculum"}
+              </div>
+              <Progress value={(generatedWeeks.length / generationJob.totalWeeks) * 100} />
+              <p className="text-xs text-muted-foreground">
+                Weeks appear below as they're ready.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {flaggedWeeks.length > 0 && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6" data-testid="curriculum-flagged-weeks">
+          <Card className="border-destructive/40">
+            <CardContent className="py-4 space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                {flaggedWeeks.length === 1 ? "One week couldn't be generated" : `${flaggedWeeks.length} weeks couldn't be generated`}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The rest of your curriculum is ready to use. Give these weeks another go:
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {flaggedWeeks.map((week) => (
+                  <Button
+                    key={week.weekNumber}
+                    variant="outline"
+                    size="sm"
+                    title={week.reason}
+                    onClick={() => regenerateWeek(week.weekNumber)}
+                    disabled={isRegenerating || generationInProgress}
+                    data-testid={`button-retry-week-${week.weekNumber}`}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${isRegenerating ? "animate-spin" : ""}`} />
+                    Week {week.weekNumber}
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 md:py-8">
         <div className="grid lg:grid-cols-[280px_1fr] gap-6">
@@ -433,14 +586,15 @@ export default function Dashboard() {
               <CardHeader className="pb-3">
                 <div className="flex items-center gap-2">
                   <Calendar className="w-4 h-4 text-primary" />
-                  <CardTitle className="text-lg font-heading">12-Week Plan</CardTitle>
+                  <CardTitle className="text-lg font-heading">Rolling Plan</CardTitle>
                 </div>
               </CardHeader>
               <CardContent className="space-y-1">
+                {pastWeeksToggle}
                 {weekDates.map(({ weekNumber, startDate, endDate }) => {
                   const isCurrentWeek = weekNumber === currentWeekNumber;
                   const progress = getWeekProgress(weekNumber);
-                  const theme = curriculum.weeks[weekNumber - 1]?.familyTheme || '';
+                  const theme = curriculum.weeks.find(w => w.weekNumber === weekNumber)?.familyTheme || '';
                   
                   return (
                     <button
@@ -481,8 +635,9 @@ export default function Dashboard() {
           {/* Main Content Area */}
           <div className="space-y-6">
             {/* Mobile Week Selector */}
+            {pastWeeksToggle && <div className="lg:hidden">{pastWeeksToggle}</div>}
             <div className="lg:hidden flex items-center gap-2 overflow-x-auto pb-2">
-              {curriculum.weeks.map((week) => {
+              {visibleWeeks.map((week) => {
                 const isCurrentWeek = week.weekNumber === currentWeekNumber;
                 const progress = getWeekProgress(week.weekNumber);
                 
@@ -519,7 +674,7 @@ export default function Dashboard() {
               }}
               className="space-y-4"
             >
-              {curriculum.weeks.map((week, idx) => {
+              {visibleWeeks.map((week, idx) => {
                 const weekDatesInfo = weekDates[idx];
                 const progress = getWeekProgress(week.weekNumber);
                 const progressPercent = (progress.completed / progress.total) * 100;
@@ -609,7 +764,19 @@ export default function Dashboard() {
                           </div>
                         </div>
 
-                        {/* Regenerate Button */}
+                        {/* Regenerate Button - finished weeks are kept as a record instead */}
+                        {week.archivedAt ? (
+                          <div className="flex flex-col items-end gap-1 text-right">
+                            <Badge variant="outline" className="text-xs" data-testid={`badge-week-finished-${week.weekNumber}`}>
+                              Finished
+                            </Badge>
+                            {week.recap && (
+                              <p className="text-xs text-muted-foreground">
+                                {week.recap.activitiesCompleted} activities • {week.recap.journalEntries} journal entries
+                              </p>
+                            )}
+                          </div>
+                        ) : (
                         <div className="flex flex-col items-end gap-1">
                           {isRegenerating && (
                             <p className="text-xs text-muted-foreground italic">
@@ -623,7 +790,7 @@ export default function Dashboard() {
                               e.stopPropagation();
                               regenerateWeek(week.weekNumber);
                             }}
-                            disabled={isRegenerating}
+                            disabled={isRegenerating || generationInProgress}
                             className="shrink-0"
                             data-testid={`button-regenerate-${week.weekNumber}`}
                           >
@@ -631,6 +798,7 @@ export default function Dashboard() {
                             <span className="hidden md:inline ml-2">Regenerate</span>
                           </Button>
                         </div>
+                        )}
                       </div>
                     </AccordionTrigger>
 
@@ -651,12 +819,21 @@ export default function Dashboard() {
                                       <CardDescription>Age {child.age}</CardDescription>
                                     </div>
                                     <div className="flex gap-2">
-                                      {child.deepDives.map((dive, idx) => (
-                                        <Badge key={idx} variant="default" className="text-xs">
-                                          <Sparkles className="w-3 h-3 mr-1" />
-                                          {dive}
-                                        </Badge>
-                                      ))}
+                                      {child.deepDives.map((dive, idx) => {
+                                        const fromEmergingInterest = child.inspiredBy?.some(link => link.deepDive === dive);
+                                        return (
+                                          <Badge
+                                            key={idx}
+                                            variant="default"
+                                            className="text-xs"
+                                            title={fromEmergingInterest ? "Inspired by an interest you noted" : undefined}
+                                            data-testid={fromEmergingInterest ? `badge-inspired-deep-dive-${child.childId}-${idx}` : undefined}
+                                          >
+                                            {fromEmergingInterest ? <Lightbulb className="w-3 h-3 mr-1" /> : <Sparkles className="w-3 h-3 mr-1" />}
+                                            {dive}
+                                          </Badge>
+                                        );
+                                      })}
                                     </div>
                                   </div>
                                 </CardHeader>
@@ -955,6 +1132,15 @@ export default function Dashboard() {
           </div>
         </div>
       </div>
+
+      <CurriculumHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} />
+      <CurriculumTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        weekNumbers={curriculum.weeks.filter(week => !week.archivedAt).map(week => week.weekNumber)}
+        currentWeekNumber={currentWeekNumber}
+        generationInProgress={generationInProgress}
+      />
     </div>
   );
 }
@@ -22,8 +22,10 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { MapPin, User, Calendar, Plus, Trash2, Save, Sparkles, Facebook, Download, Shield, Brain, Globe2, BookOpen, Languages, BookMarked, Settings as SettingsIcon } from "lucide-react";
 import { PlacesAutocomplete } from "@/components/PlacesAutocomplete";
 import { LearningApproachSelector, type LearningApproach } from "@/components/LearningApproachSelector";
+import { CustomStandardBuilder } from "@/components/CustomStandardBuilder";
 import { useLocation } from "wouter";
 import { STANDARDS_CONFIG, type EducationStandard } from "@shared/standardsConfig";
+import type { Child, ChildApproach } from "@shared/schema";
 import { getCountryList, getCountryByCode, detectCountry, VALID_COUNTRY_CODES } from "@/lib/countries";
 
 const familySettingsSchema = z.object({
@@ -65,6 +67,8 @@ const familySettingsSchema = z.object({
       // High School Mode (ages 12+)
       isHighSchoolMode: z.boolean().optional(),
       educationStandard: z.string().optional(),
+      // Own learning approaches, used when usePerChildApproaches is on
+      approaches: z.array(z.string()).optional(),
     })
   ).min(1, "Please add at least one child"),
 });
@@ -93,12 +97,18 @@ export default function FamilySettings() {
     enabled: !!user,
   });
 
-  const { data: children, isLoading: childrenLoading } = useQuery({
+  const { data: children, isLoading: childrenLoading } = useQuery<Child[]>({
     queryKey: ["/api/children"],
     retry: false,
     enabled: !!user,
   });
 
+  const { data: childApproaches, isLoading: childApproachesLoading } = useQuery<ChildApproach[]>({
+    queryKey: ["/api/children/approaches"],
+    retry: false,
+    enabled: !!user,
+  });
+
   const { data: facebookGroups = [], isLoading: groupsLoading } = useQuery({
     queryKey: ["/api/groups"],
     retry: false,
@@ -151,7 +161,7 @@ export default function FamilySettings() {
   });
 
   useEffect(() => {
-    if (familyData && children && familyApproach) {
+    if (familyData && children && familyApproach && childApproaches) {
       // Normalize legacy country values (e.g., "OTHER" -> "AU")
       const normalizedCountry = familyData.country && familyData.country !== "OTHER" 
         ? familyData.country 
@@ -190,10 +200,11 @@ export default function FamilySettings() {
           isPerfectionist: child.isPerfectionist ?? false,
           isHighSchoolMode: child.isHighSchoolMode ?? false,
           educationStandard: child.educationStandard ?? "us",
+          approaches: childApproaches.find(override => override.childId === child.id)?.approaches || [],
         })),
       });
     }
-  }, [familyData, children, familyApproach]);
+  }, [familyData, children, familyApproach, childApproaches]);
 
   const addGroupMutation = useMutation({
     mutationFn: async (data: { groupUrl: string; groupName: string }) => {
@@ -234,6 +245,7 @@ export default function FamilySettings() {
     mutationFn: async (data: FamilySettingsData) => {
       return await apiRequest("PUT", "/api/family/settings", {
         ...data,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         children: data.children.map(child => ({
           ...child,
           interests: child.interests.split(",").map(i => i.trim()),
@@ -244,6 +256,7 @@ export default function FamilySettings() {
       queryClient.invalidateQueries({ queryKey: ["/api/family"] });
       queryClient.invalidateQueries({ queryKey: ["/api/children"] });
       queryClient.invalidateQueries({ queryKey: ["/api/family/approach"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/children/approaches"] });
       
       toast({
         title: "Settings updated!",
@@ -253,12 +266,12 @@ export default function FamilySettings() {
       setIsRegenerating(true);
       
       try {
-        await apiRequest("POST", "/api/curriculum/regenerate", {});
-        queryClient.invalidateQueries({ queryKey: ["/api/curriculum"] });
+        await apiRequest("POST", "/api/curriculum/regenerate", { trigger: "settings" });
+        queryClient.invalidateQueries({ queryKey: ["/api/curriculum/generation"] });
         setIsRegenerating(false);
         toast({
-          title: "Curriculum regenerated!",
-          description: "Your 12-week curriculum has been updated with your new family settings.",
+          title: "Curriculum on its way!",
+          description: "Your new 12 weeks will appear on the dashboard week by week as they're ready.",
         });
         navigate("/");
       } catch (error: any) {
@@ -384,7 +397,7 @@ export default function FamilySettings() {
     updateSettingsMutation.mutate(data);
   };
 
-  if (familyLoading || childrenLoading || approachLoading) {
+  if (familyLoading || childrenLoading || approachLoading || childApproachesLoading) {
     return (
       <div className="container max-w-4xl mx-auto p-6">
         <Skeleton className="h-12 w-64 mb-8" />
@@ -605,7 +618,7 @@ export default function FamilySettings() {
               {form.watch("usePerChildApproaches") && (
                 <div className="rounded-lg bg-muted/50 p-4">
                   <p className="text-sm text-muted-foreground text-center">
-                    Configure learning approaches for each child in the "Children" section below
+                    Choose each child's learning approaches in the "Children" section below. Children you leave blank follow the family approaches.
                   </p>
                 </div>
               )}
@@ -644,6 +657,7 @@ export default function FamilySettings() {
                     hasAnxiety: false,
                     anxietyIntensity: 0,
                     isPerfectionist: false,
+                    approaches: [],
                   })}
                   data-testid="button-add-child"
                 >
@@ -736,6 +750,29 @@ export default function FamilySettings() {
                     )}
                   />
 
+                  {form.watch("usePerChildApproaches") && (
+                    <FormField
+                      control={form.control}
+                      name={`children.${index}.approaches`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Learning Approaches</FormLabel>
+                          <FormControl>
+                            <LearningApproachSelector
+                              value={(field.value || []) as LearningApproach[]}
+                              onChange={field.onChange}
+                              multiSelect={true}
+                              compact={true}
+                              testIdPrefix={`child-${index}-approach`}
+                            />
+                          </FormControl>
+                          <FormDescription>Leave blank to follow the family approaches</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   {/* Learning Needs & Preferences */}
                   <Accordion type="single" collapsible className="w-full">
                     <AccordionItem value="learning-needs" className="border rounded-lg px-4">
@@ -1061,6 +1098,8 @@ export default function FamilySettings() {
                     if (age < 12) return null;
 
                     const isHighSchoolMode = form.watch(`children.${index}.isHighSchoolMode`);
+                    const educationStandard = form.watch(`children.${index}.educationStandard`);
+                    const childId = form.watch(`children.${index}.id`);
                     
                     return (
                       <div className="mt-4 p-4 border-2 border-primary/20 rounded-lg bg-primary/5 space-y-4">
@@ -1152,6 +1191,19 @@ export default function FamilySettings() {
                               )}
                             />
 
+                            {educationStandard === "custom" && (
+                              childId ? (
+                                <CustomStandardBuilder
+                                  childId={childId}
+                                  standardMetadata={children?.find((c) => c.id === childId)?.standardMetadata}
+                                />
+                              ) : (
+                                <p className="text-xs text-muted-foreground">
+                                  Save your settings first, then come back to build this child's custom framework.
+                                </p>
+                              )
+                            )}
+
                             <div className="flex items-start gap-2 p-3 bg-muted/50 rounded-lg">
                               <Sparkles className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
                               <p className="text-xs text-muted-foreground">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -8,14 +8,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { PrivacyBanner } from "@/components/PrivacyBanner";
-import { BookOpen, Star, Smile, Meh, ChevronDown, ChevronUp, Sparkles, Mic, Image as ImageIcon } from "lucide-react";
+import { JournalEntryEditDialog } from "@/components/JournalEntryEditDialog";
+import { SyncedTranscript } from "@/components/SyncedTranscript";
+import { NarrationCapture } from "@/components/NarrationCapture";
+import { BookOpen, Star, Smile, Meh, ChevronDown, ChevronUp, Sparkles, Mic, Image as ImageIcon, Search, Pencil, Trash2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { format } from "date-fns";
 import type { UploadResult } from "@uppy/core";
-import type { WeekCurriculum } from "@shared/schema";
+import type { Child, ChildApproach, CurriculumData, Family, JournalEntry, TranscriptSegment } from "@shared/schema";
 
 type ReactionType = "loved" | "okay" | "not_today";
 
@@ -27,6 +33,14 @@ interface ActivityFeedback {
   voiceNoteUrl?: string;
 }
 
+interface JournalEntryPage {
+  entries: JournalEntry[];
+  nextCursor: string | null;
+}
+
+const ALL_CHILDREN = "all";
+const CHARLOTTE_MASON = "charlotte-mason";
+
 export default function Journal() {
   const { toast } = useToast();
   const { user } = useAuth();
@@ -35,6 +49,16 @@ export default function Journal() {
   const [emergingTitle, setEmergingTitle] = useState("");
   const [emergingDescription, setEmergingDescription] = useState("");
   const [emergingPhotoUrl, setEmergingPhotoUrl] = useState("");
+  // Filters can arrive in the URL, e.g. from the evidence links on the skills map
+  const [initialFilters] = useState(() => new URLSearchParams(window.location.search));
+  const [searchText, setSearchText] = useState(initialFilters.get("q") || "");
+  const [search, setSearch] = useState(initialFilters.get("q") || "");
+  const [childFilter, setChildFilter] = useState(initialFilters.get("childId") || ALL_CHILDREN);
+  const [subjectFilter, setSubjectFilter] = useState(initialFilters.get("subject") || "");
+  const [fromDate, setFromDate] = useState(initialFilters.get("from") || "");
+  const [toDate, setToDate] = useState(initialFilters.get("to") || "");
+  const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
+  const [deletingEntry, setDeletingEntry] = useState<JournalEntry | null>(null);
 
   const todayDate = format(new Date(), "yyyy-MM-dd");
 
@@ -48,16 +72,64 @@ export default function Journal() {
     enabled: !!user,
   });
 
+  // Narration mode is for Charlotte Mason families, or just the Charlotte Mason children when approaches are per child
+  const { data: family } = useQuery<Family>({
+    queryKey: ["/api/family"],
+    enabled: !!user,
+  });
+
+  const { data: familyApproach } = useQuery<{ approaches: string[] }>({
+    queryKey: ["/api/family/approach"],
+    enabled: !!user,
+  });
+
+  const { data: childApproaches } = useQuery<ChildApproach[]>({
+    queryKey: ["/api/children/approaches"],
+    enabled: !!user && !!family?.usePerChildApproaches,
+  });
+
   const { data: dailyCompletionData } = useQuery<{ completed: number; total: number; completedIds: string[] }>({
     queryKey: ["/api/daily-completion", todayDate],
     enabled: !!user,
   });
 
-  const { data: journalEntries, isLoading: journalLoading } = useQuery({
-    queryKey: ["/api/journal"],
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchText.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const journalParams = new URLSearchParams();
+  if (search) journalParams.set("q", search);
+  if (childFilter !== ALL_CHILDREN) journalParams.set("childId", childFilter);
+  if (subjectFilter.trim()) journalParams.set("subject", subjectFilter.trim());
+  if (fromDate) journalParams.set("from", fromDate);
+  if (toDate) journalParams.set("to", toDate);
+  const journalQuery = journalParams.toString();
+  const hasJournalFilters = journalQuery.length > 0;
+
+  // Keyed under "/api/journal" so anything that invalidates the journal refreshes these pages too
+  const {
+    data: journalPages,
+    isLoading: journalLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/journal", "entries", journalQuery],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(journalQuery);
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/journal/entries?${params.toString()}`);
+      return await response.json() as JournalEntryPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user,
   });
 
+  const journalEntries = journalPages?.pages.flatMap((page) => page.entries) || [];
+
   const completedIds = dailyCompletionData?.completedIds || [];
   const hasCompletedActivities = completedIds.length > 0;
 
@@ -119,6 +191,36 @@ export default function Journal() {
     },
   });
 
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      return await apiRequest("DELETE", `/api/journal/${entryId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Entry deleted",
+        description: "The journal entry has been removed.",
+      });
+      setDeletingEntry(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting entry",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearJournalFilters = () => {
+    setSearchText("");
+    setSearch("");
+    setChildFilter(ALL_CHILDREN);
+    setSubjectFilter("");
+    setFromDate("");
+    setToDate("");
+  };
+
   const handleReactionClick = (activityId: string, childId: string, reaction: ReactionType) => {
     setFeedbackMap(prev => {
       const currentFeedback = prev[activityId] || {};
@@ -264,7 +366,15 @@ export default function Journal() {
     );
   }
 
-  const curriculumData = (curriculumResponse as any)?.curriculum?.curriculumData as { weeks: WeekCurriculum[] } | undefined;
+  const curriculumData = (curriculumResponse as any)?.curriculum?.curriculumData as CurriculumData | undefined;
+
+  const narrationChildren = ((children as Child[] | undefined) || []).filter((child) => {
+    const override = family?.usePerChildApproaches
+      ? childApproaches?.find((approach) => approach.childId === child.id)?.approaches
+      : undefined;
+    const approaches = override && override.length > 0 ? override : familyApproach?.approaches || [];
+    return approaches.includes(CHARLOTTE_MASON);
+  });
 
   // Get today's completed activities
   const getCompletedActivities = () => {
@@ -329,53 +439,143 @@ export default function Journal() {
         {/* Privacy Banner */}
         <PrivacyBanner />
         
-        {/* Voice Journal Entries */}
-        {journalEntries && (journalEntries as any[]).length > 0 && (
+        {/* Narration (Charlotte Mason) */}
+        {narrationChildren.length > 0 && (
+          <NarrationCapture familyChildren={narrationChildren} curriculumData={curriculumData} />
+        )}
+
+        {/* Journal Entries */}
+        {(journalEntries.length > 0 || hasJournalFilters) && (
           <Card>
             <CardHeader>
               <CardTitle className="font-heading text-xl flex items-center gap-2">
                 <Mic className="w-5 h-5 text-primary" />
-                Voice Journal Entries
+                Journal Entries
               </CardTitle>
               <CardDescription>Your recorded learning moments</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {(journalEntries as any[]).map((entry: any) => {
-                const child = (children as any[])?.find((c: any) => c.id === entry.childId);
+              {/* Filters */}
+              <div className="space-y-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    placeholder="Search entries, interests and skills"
+                    className="pl-9"
+                    data-testid="input-journal-search"
+                  />
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <Select value={childFilter} onValueChange={setChildFilter}>
+                    <SelectTrigger data-testid="select-journal-child">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_CHILDREN}>All children</SelectItem>
+                      {((children as Child[] | undefined) || []).map((child) => (
+                        <SelectItem key={child.id} value={child.id}>{child.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={subjectFilter}
+                    onChange={(e) => setSubjectFilter(e.target.value)}
+                    placeholder="Subject"
+                    data-testid="input-journal-subject"
+                  />
+                  <Input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    aria-label="From date"
+                    data-testid="input-journal-from"
+                  />
+                  <Input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    aria-label="To date"
+                    data-testid="input-journal-to"
+                  />
+                </div>
+              </div>
+
+              {journalLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : journalEntries.length === 0 ? (
+                <div className="text-center py-6 space-y-2">
+                  <p className="text-sm text-muted-foreground">No entries match these filters.</p>
+                  <Button variant="outline" size="sm" onClick={clearJournalFilters} data-testid="button-clear-journal-filters">
+                    Clear filters
+                  </Button>
+                </div>
+              ) : journalEntries.map((entry) => {
+                const child = (children as Child[] | undefined)?.find((c) => c.id === entry.childId);
+                const segments = (entry.transcriptSegments as TranscriptSegment[] | null) || [];
                 
                 return (
-                  <div key={entry.id} className="border border-border rounded-lg p-4 space-y-3">
+                  <div key={entry.id} className="border border-border rounded-lg p-4 space-y-3" data-testid={`journal-entry-${entry.id}`}>
                     <div className="flex items-center justify-between gap-2">
-                      <div className="flex items-center gap-2">
+                      <div className="flex items-center gap-2 flex-wrap">
                         <Badge variant="outline" className="text-xs">
                           {child?.name || "Unknown"}
                         </Badge>
                         <span className="text-sm text-muted-foreground">
                           {format(new Date(entry.entryDate), "MMM d, yyyy")}
                         </span>
+                        {entry.subjects?.map((subject) => (
+                          <Badge key={subject} variant="secondary" className="text-xs">{subject}</Badge>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {entry.audioDuration && (
+                          <Badge variant="secondary" className="text-xs">
+                            {entry.audioDuration}s
+                          </Badge>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditingEntry(entry)}
+                          aria-label="Edit entry"
+                          data-testid={`button-edit-journal-${entry.id}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeletingEntry(entry)}
+                          aria-label="Delete entry"
+                          data-testid={`button-delete-journal-${entry.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
                       </div>
-                      {entry.audioDuration && (
-                        <Badge variant="secondary" className="text-xs">
-                          {entry.audioDuration}s
-                        </Badge>
-                      )}
                     </div>
-
-                    {/* Audio Player */}
+                    {/* Audio Player, with the synced transcript when the server transcribed it */}
                     {entry.audioUrl && (
                       <div className="p-3 bg-muted rounded-lg border border-border">
                         <p className="text-xs text-muted-foreground mb-2">Recording:</p>
-                        <audio 
-                          controls 
-                          src={entry.audioUrl}
-                          className="w-full"
-                          data-testid={`audio-player-${entry.id}`}
-                        />
+                        {segments.length > 0 ? (
+                          <SyncedTranscript entryId={entry.id} audioUrl={entry.audioUrl} segments={segments} />
+                        ) : (
+                          <audio 
+                            controls 
+                            src={entry.audioUrl}
+                            className="w-full"
+                            data-testid={`audio-player-${entry.id}`}
+                          />
+                        )}
                       </div>
                     )}
 
-                    {/* Entry Content/Transcript */}
-                    {entry.content && (
+                    {/* Entry Content - skipped when it's just the transcript shown above */}
+                    {entry.content && !(segments.length > 0 && entry.content === entry.transcript) && (
                       <div className="text-sm text-foreground">
                         <p className="font-medium mb-1">Summary:</p>
                         <p className="text-muted-foreground">{entry.content}</p>
@@ -390,7 +590,7 @@ export default function Journal() {
                           <p className="text-sm font-medium">AI Follow-up Questions</p>
                         </div>
                         <div className="space-y-3">
-                          {entry.aiFollowUpQuestions.map((question: string, idx: number) => (
+                          {entry.aiFollowUpQuestions.map((question, idx) => (
                             <div key={idx} className="space-y-1">
                               <p className="text-sm font-medium text-foreground">{question}</p>
                               {entry.followUpAnswers && entry.followUpAnswers[idx] && (
@@ -406,6 +606,18 @@ export default function Journal() {
                   </div>
                 );
               })}
+
+              {hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more-journal"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -591,6 +803,33 @@ export default function Journal() {
           </Card>
         </Collapsible>
       </div>
+
+      <JournalEntryEditDialog
+        entry={editingEntry}
+        familyChildren={(children as Child[] | undefined) || []}
+        onOpenChange={(open) => !open && setEditingEntry(null)}
+      />
+
+      <AlertDialog open={!!deletingEntry} onOpenChange={(open) => !open && setDeletingEntry(null)}>
+        <AlertDialogContent data-testid="dialog-delete-journal-entry">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this journal entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The entry and its photos will be permanently deleted, along with its voice recording unless another child's entry shares it. Portfolio weeks built from it will no longer include it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-journal">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingEntry && deleteEntryMutation.mutate(deletingEntry.id)}
+              disabled={deleteEntryMutation.isPending}
+              data-testid="button-confirm-delete-journal"
+            >
+              {deleteEntryMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
@@ -48,6 +48,7 @@ const childSchema = z.object({
   birthdate: z.string().min(1, "Birthdate is required"),
   interests: z.string().min(1, "Please add at least one interest"),
   learningStyle: z.string().optional(),
+  approaches: z.array(z.string()).optional(),
 });
 
 const step4Schema = z.object({
@@ -120,6 +121,7 @@ export default function Onboarding() {
           birthdate: "",
           interests: "",
           learningStyle: "",
+          approaches: [],
         },
       ],
     },
@@ -140,7 +142,7 @@ export default function Onboarding() {
       } else {
         toast({
           title: "Welcome to Pollinate!",
-          description: "Your family profile has been created. Generating your custom curriculum... (10–20s)",
+          description: "Your family profile has been created. Your curriculum will appear week by week as it's generated.",
         });
       }
       navigate("/dashboard");
@@ -188,6 +190,7 @@ export default function Onboarding() {
       ...step1Data,
       ...step2Data,
       ...step3Data,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       children: data.children.map((child) => ({
         ...child,
         interests: child.interests.split(",").map((i) => i.trim()),
@@ -206,6 +209,7 @@ export default function Onboarding() {
         birthdate: "",
         interests: "",
         learningStyle: "",
+        approaches: [],
       },
     ]);
   };
@@ -504,7 +508,7 @@ export default function Onboarding() {
                             Customize per child
                           </FormLabel>
                           <p className="text-sm text-muted-foreground">
-                            Set different learning approaches for each child (configured later)
+                            Choose a different learning approach for each child in the next step
                           </p>
                         </div>
                         <FormControl>
@@ -664,6 +668,29 @@ export default function Onboarding() {
                             </FormItem>
                           )}
                         />
+
+                        {step3Data?.usePerChildApproaches && (
+                          <FormField
+                            control={step4Form.control}
+                            name={`children.${index}.approaches`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Learning Approaches</FormLabel>
+                                <FormControl>
+                                  <LearningApproachSelector
+                                    value={(field.value || []) as LearningApproach[]}
+                                    onChange={field.onChange}
+                                    multiSelect={true}
+                                    compact={true}
+                                    testIdPrefix={`child-${index}-approach`}
+                                  />
+                                </FormControl>
+                                <FormDescription>Leave blank to follow the family approaches</FormDescription>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
                       </CardContent>
                     </Card>
                   ))}
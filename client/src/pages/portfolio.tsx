@@ -0,0 +1,569 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FolderOpen, Plus, Trash2, CheckCircle2, Circle, CalendarDays, Clock, RefreshCw, Download } from "lucide-react";
+import { useState, useEffect } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Child, ChildPortfolioYear, PortfolioEntry, StateRequirement } from "@shared/schema";
+
+interface SubjectProgress {
+  subject: string;
+  requiredHours: number;
+  loggedHours: number;
+  met: boolean;
+}
+
+interface PortfolioSummary {
+  weekCount: number;
+  totalHours: number;
+  attendanceDays: number;
+  minimumHoursPerYear: number | null;
+  minimumDaysPerYear: number | null;
+  hoursMet: boolean;
+  daysMet: boolean;
+  subjects: SubjectProgress[];
+  otherSubjectHours: Record<string, number>;
+  stateRequirement: StateRequirement | null;
+}
+
+export default function PortfolioPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [selectedYearId, setSelectedYearId] = useState<string | null>(null);
+  const [newAcademicYear, setNewAcademicYear] = useState("");
+  const [newRequirementId, setNewRequirementId] = useState<string>("");
+  const [weekStart, setWeekStart] = useState("");
+  const [attendanceDays, setAttendanceDays] = useState("5");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [hourRows, setHourRows] = useState<Array<{ subject: string; hours: string }>>([{ subject: "", hours: "" }]);
+
+  const { data: childrenData, isLoading: childrenLoading } = useQuery<Child[]>({
+    queryKey: ["/api/children"],
+    enabled: !!user,
+  });
+
+  const { data: requirementsData } = useQuery<StateRequirement[]>({
+    queryKey: ["/api/portfolio/state-requirements"],
+    enabled: !!user,
+  });
+
+  const { data: yearsData, isLoading: yearsLoading } = useQuery<ChildPortfolioYear[]>({
+    queryKey: [`/api/portfolio/years?childId=${selectedChildId}`],
+    enabled: !!selectedChildId,
+  });
+
+  const { data: summary, isLoading: summaryLoading } = useQuery<PortfolioSummary>({
+    queryKey: ["/api/portfolio/years", selectedYearId, "summary"],
+    enabled: !!selectedYearId,
+  });
+
+  const { data: entriesData } = useQuery<PortfolioEntry[]>({
+    queryKey: [`/api/portfolio/entries?portfolioYearId=${selectedYearId}`],
+    enabled: !!selectedYearId,
+  });
+
+  const children = childrenData || [];
+  const requirements = requirementsData || [];
+  const years = yearsData || [];
+  const entries = entriesData || [];
+
+  useEffect(() => {
+    if (!selectedChildId && children.length > 0) {
+      setSelectedChildId(children[0].id);
+    }
+  }, [selectedChildId, children]);
+
+  // Default to the most recent academic year whenever the child changes
+  useEffect(() => {
+    if (years.length > 0 && !years.some((y) => y.id === selectedYearId)) {
+      setSelectedYearId(years[0].id);
+    } else if (years.length === 0 && selectedYearId) {
+      setSelectedYearId(null);
+    }
+  }, [years, selectedYearId]);
+
+  const invalidatePortfolio = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/portfolio/years?childId=${selectedChildId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/portfolio/years", selectedYearId, "summary"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/portfolio/entries?portfolioYearId=${selectedYearId}`] });
+  };
+
+  const createYearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/portfolio/years", {
+        childId: selectedChildId,
+        academicYear: newAcademicYear.trim(),
+        stateRequirementId: newRequirementId || null,
+      });
+      return await response.json();
+    },
+    onSuccess: (year: ChildPortfolioYear) => {
+      setNewAcademicYear("");
+      setSelectedYearId(year.id);
+      invalidatePortfolio();
+      toast({ title: "Academic year added", description: `Portfolio for ${year.academicYear} is ready.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't add year", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateRequirementMutation = useMutation({
+    mutationFn: async (stateRequirementId: string) => {
+      return await apiRequest("PATCH", `/api/portfolio/years/${selectedYearId}`, { stateRequirementId });
+    },
+    onSuccess: () => invalidatePortfolio(),
+    onError: (error: any) => {
+      toast({ title: "Couldn't update requirement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createEntryMutation = useMutation({
+    mutationFn: async () => {
+      const subjectHours: Record<string, number> = {};
+      for (const row of hourRows) {
+        const hours = parseFloat(row.hours);
+        if (row.subject.trim() && !isNaN(hours) && hours > 0) {
+          subjectHours[row.subject.trim()] = (subjectHours[row.subject.trim()] || 0) + hours;
+        }
+      }
+      const response = await apiRequest("POST", "/api/portfolio/entries", {
+        portfolioYearId: selectedYearId,
+        weekStartDate: weekStart,
+        weekEndDate: format(addDays(parseISO(weekStart), 6), "yyyy-MM-dd"),
+        subjectHours,
+        attendanceDays: parseInt(attendanceDays, 10) || 0,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setWeekStart("");
+      setHourRows([{ subject: "", hours: "" }]);
+      invalidatePortfolio();
+      toast({ title: "Week recorded", description: "Hours and attendance have been added to the portfolio." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save week", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/portfolio/years/${selectedYearId}/rebuild`);
+      return await response.json();
+    },
+    onSuccess: (result: { weeksWritten: number; journalEntriesLinked: number }) => {
+      invalidatePortfolio();
+      toast({
+        title: "Portfolio rebuilt",
+        description: `${result.journalEntriesLinked} journal entries tallied across ${result.weeksWritten} week${result.weeksWritten !== 1 ? "s" : ""}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't rebuild portfolio", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      return await apiRequest("DELETE", `/api/portfolio/entries/${entryId}`);
+    },
+    onSuccess: () => invalidatePortfolio(),
+    onError: (error: any) => {
+      toast({ title: "Couldn't delete week", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDownloadReport = async () => {
+    if (!selectedYearId) return;
+
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/portfolio/years/${selectedYearId}/report`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to download report");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "Annual-Report.pdf";
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Annual report downloaded",
+        description: "Ready to print or share at your registration visit.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Download Failed",
+        description: error.message || "Unable to generate annual report PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (childrenLoading) {
+    return (
+      <div className="container mx-auto p-6 space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const selectedYear = years.find((y) => y.id === selectedYearId);
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-heading font-bold mb-2">Compliance Portfolio</h1>
+        <p className="text-muted-foreground">
+          Record each academic year and see weekly hours and attendance roll up against your state's requirements
+        </p>
+      </div>
+
+      {/* Child Selector Tabs */}
+      <Tabs value={selectedChildId || ""} onValueChange={setSelectedChildId}>
+        <TabsList>
+          {children.map((child) => (
+            <TabsTrigger key={child.id} value={child.id} data-testid={`tab-child-${child.id}`}>
+              {child.name}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {/* Academic Years */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-primary" />
+            Academic Years
+          </CardTitle>
+          <CardDescription>Each year can be attached to a state or territory requirement</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {yearsLoading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : years.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {years.map((year) => (
+                <Button
+                  key={year.id}
+                  variant={year.id === selectedYearId ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSelectedYearId(year.id)}
+                  data-testid={`button-year-${year.id}`}
+                >
+                  {year.academicYear}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto] items-end">
+            <div className="space-y-1">
+              <Label htmlFor="academic-year">New academic year</Label>
+              <Input
+                id="academic-year"
+                placeholder="e.g. 2026 or 2026-2027"
+                value={newAcademicYear}
+                onChange={(e) => setNewAcademicYear(e.target.value)}
+                data-testid="input-academic-year"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>State requirement</Label>
+              <Select value={newRequirementId} onValueChange={setNewRequirementId}>
+                <SelectTrigger data-testid="select-new-requirement">
+                  <SelectValue placeholder="None" />
+                </SelectTrigger>
+                <SelectContent>
+                  {requirements.map((req) => (
+                    <SelectItem key={req.id} value={req.id}>
+                      {req.stateName} ({req.countryCode})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => createYearMutation.mutate()}
+              disabled={!selectedChildId || !newAcademicYear.trim() || createYearMutation.isPending}
+              data-testid="button-add-year"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Year
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedYear && (
+        <>
+          {/* Requirement Rollup */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{selectedYear.academicYear} Progress</CardTitle>
+                  <CardDescription>
+                    {summary?.stateRequirement
+                      ? `Tracking against ${summary.stateRequirement.stateName}`
+                      : "No state requirement attached"}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={selectedYear.stateRequirementId || ""}
+                    onValueChange={(value) => updateRequirementMutation.mutate(value)}
+                  >
+                    <SelectTrigger className="w-56" data-testid="select-year-requirement">
+                      <SelectValue placeholder="Attach requirement" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {requirements.map((req) => (
+                        <SelectItem key={req.id} value={req.id}>
+                          {req.stateName} ({req.countryCode})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleDownloadReport}
+                    disabled={isDownloading}
+                    data-testid="button-download-annual-report"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {isDownloading ? "Generating..." : "Annual Report PDF"}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {summaryLoading || !summary ? (
+                <Skeleton className="h-32 w-full" />
+              ) : (
+                <>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="rounded-lg border p-4 space-y-2">
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Clock className="w-4 h-4" />
+                        Total hours
+                      </div>
+                      <div className="text-3xl font-bold" data-testid="text-total-hours">
+                        {summary.totalHours}
+                        {summary.minimumHoursPerYear && (
+                          <span className="text-base font-normal text-muted-foreground"> / {summary.minimumHoursPerYear}</span>
+                        )}
+                      </div>
+                      {summary.minimumHoursPerYear ? (
+                        <Progress value={Math.min(100, (summary.totalHours / summary.minimumHoursPerYear) * 100)} className="h-2" />
+                      ) : (
+                        <p className="text-xs text-muted-foreground">No annual hour minimum</p>
+                      )}
+                    </div>
+                    <div className="rounded-lg border p-4 space-y-2">
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <CalendarDays className="w-4 h-4" />
+                        Attendance days
+                      </div>
+                      <div className="text-3xl font-bold" data-testid="text-attendance-days">
+                        {summary.attendanceDays}
+                        {summary.minimumDaysPerYear && (
+                          <span className="text-base font-normal text-muted-foreground"> / {summary.minimumDaysPerYear}</span>
+                        )}
+                      </div>
+                      {summary.minimumDaysPerYear ? (
+                        <Progress value={Math.min(100, (summary.attendanceDays / summary.minimumDaysPerYear) * 100)} className="h-2" />
+                      ) : (
+                        <p className="text-xs text-muted-foreground">No attendance minimum</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {summary.subjects.length > 0 && (
+                    <div className="space-y-3">
+                      <h3 className="font-semibold">Required subjects</h3>
+                      {summary.subjects.map((subject) => (
+                        <div key={subject.subject} className="space-y-1" data-testid={`subject-progress-${subject.subject}`}>
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-2">
+                              {subject.met ? (
+                                <CheckCircle2 className="w-4 h-4 text-green-600" />
+                              ) : (
+                                <Circle className="w-4 h-4 text-muted-foreground" />
+                              )}
+                              {subject.subject}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {subject.loggedHours}h{subject.requiredHours > 0 ? ` / ${subject.requiredHours}h` : " logged"}
+                            </span>
+                          </div>
+                          {subject.requiredHours > 0 && (
+                            <Progress value={Math.min(100, (subject.loggedHours / subject.requiredHours) * 100)} className="h-2" />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {Object.keys(summary.otherSubjectHours).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(summary.otherSubjectHours).map(([subject, hours]) => (
+                        <Badge key={subject} variant="outline">{subject}: {hours}h</Badge>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Weekly Entries */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Weekly Records</CardTitle>
+                  <CardDescription>
+                    {entries.length} week{entries.length !== 1 ? "s" : ""} recorded • hours and attendance are tallied from journal entries automatically
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => rebuildMutation.mutate()}
+                  disabled={rebuildMutation.isPending}
+                  data-testid="button-rebuild-portfolio"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${rebuildMutation.isPending ? "animate-spin" : ""}`} />
+                  Rebuild from Journal
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3 rounded-lg border p-4">
+                <div className="grid gap-3 md:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="week-start">Week starting</Label>
+                    <Input
+                      id="week-start"
+                      type="date"
+                      value={weekStart}
+                      onChange={(e) => setWeekStart(e.target.value)}
+                      data-testid="input-week-start"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="attendance-days">Days attended</Label>
+                    <Input
+                      id="attendance-days"
+                      type="number"
+                      min={0}
+                      max={7}
+                      value={attendanceDays}
+                      onChange={(e) => setAttendanceDays(e.target.value)}
+                      data-testid="input-attendance-days"
+                    />
+                  </div>
+                </div>
+                {hourRows.map((row, index) => (
+                  <div key={index} className="grid gap-3 grid-cols-[2fr_1fr]">
+                    <Input
+                      placeholder="Subject"
+                      value={row.subject}
+                      onChange={(e) => setHourRows(hourRows.map((r, i) => (i === index ? { ...r, subject: e.target.value } : r)))}
+                      data-testid={`input-subject-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      placeholder="Hours"
+                      value={row.hours}
+                      onChange={(e) => setHourRows(hourRows.map((r, i) => (i === index ? { ...r, hours: e.target.value } : r)))}
+                      data-testid={`input-hours-${index}`}
+                    />
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHourRows([...hourRows, { subject: "", hours: "" }])}
+                    data-testid="button-add-subject-row"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Subject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => createEntryMutation.mutate()}
+                    disabled={!weekStart || createEntryMutation.isPending}
+                    data-testid="button-save-week"
+                  >
+                    Save Week
+                  </Button>
+                </div>
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No weeks recorded for this year yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {entries.map((entry) => {
+                    const hours = (entry.subjectHours as Record<string, number>) || {};
+                    return (
+                      <div key={entry.id} className="flex items-start justify-between gap-4 rounded-lg border p-3" data-testid={`portfolio-entry-${entry.id}`}>
+                        <div className="space-y-1">
+                          <div className="font-medium text-sm">
+                            {format(parseISO(entry.weekStartDate), "d MMM")} – {format(parseISO(entry.weekEndDate), "d MMM yyyy")}
+                            <span className="text-muted-foreground font-normal"> • {entry.attendanceDays} day{entry.attendanceDays !== 1 ? "s" : ""}</span>
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {Object.entries(hours).map(([subject, value]) => (
+                              <Badge key={subject} variant="secondary" className="text-xs">{subject}: {value}h</Badge>
+                            ))}
+                          </div>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteEntryMutation.mutate(entry.id)}
+                          data-testid={`button-delete-entry-${entry.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
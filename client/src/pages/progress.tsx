@@ -5,6 +5,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { SkillsMap } from "@/components/SkillsMap";
 import { Download, Award, BookOpen, Calendar, Sparkles } from "lucide-react";
 import type { WeekCurriculum, CurriculumData } from "@shared/schema";
 import { format, formatDistanceToNow } from "date-fns";
@@ -325,7 +326,7 @@ export default function ProgressPage() {
                     <CardTitle className="font-heading">Subject Mastery</CardTitle>
                   </div>
                   <CardDescription>
-                    Overall progress across 12 weeks
+                    Overall progress across {curriculumData.weeks.length} weeks
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -349,6 +350,9 @@ export default function ProgressPage() {
                 </CardContent>
               </Card>
 
+              {/* Skills Map */}
+              <SkillsMap childId={child.id} />
+
               {/* Deep Dives Timeline */}
               <Card data-testid={`card-deep-dives-${child.id}`}>
                 <CardHeader>
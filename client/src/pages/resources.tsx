@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Library, ExternalLink, DollarSign, Recycle, Gift } from "lucide-react";
 import type { WeekCurriculum, Resource } from "@shared/schema";
-import { startOfWeek } from "date-fns";
+import { getCurrentWeekNumber } from "@shared/curriculumSchedule";
 
 export default function Resources() {
   const { user } = useAuth();
@@ -39,9 +39,7 @@ export default function Resources() {
     );
   }
   const currentWeekStartDate = new Date((curriculumResponse as any).curriculum?.generatedAt || new Date());
-  const weekStart = startOfWeek(currentWeekStartDate, { weekStartsOn: 1 });
-  const today = new Date();
-  const weekNumber = Math.floor((today.getTime() - weekStart.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  const weekNumber = getCurrentWeekNumber(currentWeekStartDate);
   const currentWeek = curriculumData?.weeks?.find(w => w.weekNumber === Math.min(weekNumber, 12)) || curriculumData?.weeks?.[0];
 
   if (!currentWeek) {
@@ -5,8 +5,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Users, User } from "lucide-react";
 import type { WeekCurriculum, DailyActivity } from "@shared/schema";
-import { format, startOfWeek } from "date-fns";
+import { format } from "date-fns";
 import { ExpandableActivityCard } from "@/components/ExpandableActivityCard";
+import { getCurrentWeekNumber, getLastWeekNumber } from "@shared/curriculumSchedule";
 
 export default function ThisWeek() {
   const { user } = useAuth();
@@ -44,10 +45,8 @@ export default function ThisWeek() {
     );
   }
   const currentWeekStartDate = new Date((curriculumResponse as any).curriculum?.generatedAt || new Date());
-  const weekStart = startOfWeek(currentWeekStartDate, { weekStartsOn: 1 });
-  const today = new Date();
-  const weekNumber = Math.floor((today.getTime() - weekStart.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
-  const currentWeek = curriculumData?.weeks?.find(w => w.weekNumber === Math.min(weekNumber, 12)) || curriculumData?.weeks?.[0];
+  const weekNumber = getCurrentWeekNumber(currentWeekStartDate);
+  const currentWeek = curriculumData?.weeks?.find(w => w.weekNumber === Math.min(weekNumber, getLastWeekNumber(curriculumData))) || curriculumData?.weeks?.[0];
 
   if (!currentWeek) {
     return (
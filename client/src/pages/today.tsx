@@ -11,10 +11,23 @@ import { useToast } from "@/hooks/use-toast";
 import { Sparkles, Users, User, MapPin, Mic, Check, X, Flame, CheckCircle2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import type { WeekCurriculum, DailyActivity } from "@shared/schema";
-import { format, startOfWeek } from "date-fns";
+import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { triggerSubtleConfetti, triggerStreakConfetti } from "@/lib/confetti";
 import { ExpandableActivityCard } from "@/components/ExpandableActivityCard";
+import { getCurrentWeekNumber, getLastWeekNumber } from "@shared/curriculumSchedule";
+
+interface VoiceJournalFollowUp {
+  entryId: string;
+  childName: string;
+  questions: string[];
+  answers: string[];
+}
+
+interface VoiceJournalResult {
+  entries: Array<{ entry: { id: string }; childName: string; followUpQuestions: string[] }>;
+  transcribing: boolean; // The recording is still being transcribed on the server
+}
 
 export default function Today() {
   const { user } = useAuth();
@@ -22,9 +35,8 @@ export default function Today() {
   const [completedActivities, setCompletedActivities] = useState<Set<string>>(new Set());
   const { isRecording, audioBlob, audioUrl, duration, error: recordingError, startRecording, stopRecording, resetRecording } = useVoiceRecording();
   const [summary, setSummary] = useState("");
-  const [followUpQuestions, setFollowUpQuestions] = useState<string[]>([]);
-  const [followUpAnswers, setFollowUpAnswers] = useState<string[]>([]);
-  const [savedEntryId, setSavedEntryId] = useState<string | null>(null);
+  // One recording can become several entries, one per child it mentions
+  const [followUps, setFollowUps] = useState<VoiceJournalFollowUp[]>([]);
 
   const { data: familyData } = useQuery({
     queryKey: ["/api/family"],
@@ -126,47 +138,67 @@ export default function Today() {
       let uploadedAudioUrl = data.audioUrl;
       if (audioBlob && !uploadedAudioUrl) {
         // Get upload URL
-        const uploadResponse = await apiRequest('/api/objects/upload', {
-          method: 'POST',
-        });
-        const { uploadURL } = uploadResponse;
+        const uploadResponse = await apiRequest('POST', '/api/objects/upload', {});
+        const { uploadURL } = await uploadResponse.json();
         
         // Upload the audio blob
-        await fetch(uploadURL, {
+        const putResponse = await fetch(uploadURL, {
           method: 'PUT',
           body: audioBlob,
           headers: {
             'Content-Type': audioBlob.type,
           },
         });
+        if (!putResponse.ok) {
+          throw new Error("Couldn't upload the recording");
+        }
         
-        // Extract the object path from the upload URL (before the query string)
-        const urlObj = new URL(uploadURL);
-        uploadedAudioUrl = urlObj.pathname;
+        // The server claims the upload and transcribes it in the background
+        uploadedAudioUrl = uploadURL;
       }
       
-      return await apiRequest('/api/journal-voice', {
-        method: 'POST',
-        body: JSON.stringify({ 
-          transcript: data.summary,
-          duration: duration,
-          audioUrl: uploadedAudioUrl,
-        }),
+      const response = await apiRequest('POST', '/api/journal-voice', {
+        transcript: data.summary || undefined,
+        duration: duration,
+        audioUrl: uploadedAudioUrl,
       });
+      return await response.json();
     },
-    onSuccess: (data: any) => {
-      setSavedEntryId(data.entry?.id);
-      if (data.followUpQuestions && data.followUpQuestions.length > 0) {
-        setFollowUpQuestions(data.followUpQuestions);
-        setFollowUpAnswers(new Array(data.followUpQuestions.length).fill(""));
+    onSuccess: (data: VoiceJournalResult) => {
+      // A recording without a summary is analysed once it's transcribed, so there's nothing to show yet
+      if (data.entries.length === 0) {
+        toast({
+          title: "Voice note saved!",
+          description: "We're transcribing your recording. It will appear in your journal shortly.",
+        });
+        resetRecording();
+        setSummary("");
+        return;
+      }
+
+      const newFollowUps = data.entries
+        .filter((result) => result.followUpQuestions.length > 0)
+        .map((result) => ({
+          entryId: result.entry.id,
+          childName: result.childName,
+          questions: result.followUpQuestions,
+          answers: new Array(result.followUpQuestions.length).fill(""),
+        }));
+      const savedFor = data.entries.length > 1
+        ? `Saved as separate entries for ${data.entries.map((result) => result.childName).join(" and ")}.`
+        : null;
+      if (newFollowUps.length > 0) {
+        setFollowUps(newFollowUps);
         toast({
           title: "Voice note saved!",
-          description: "We've generated some follow-up questions to help you reflect.",
+          description: savedFor
+            ? `${savedFor} We've generated some follow-up questions to help you reflect.`
+            : "We've generated some follow-up questions to help you reflect.",
         });
       } else {
         toast({
           title: "Voice note saved!",
-          description: "Your journal entry has been saved successfully.",
+          description: savedFor || "Your journal entry has been saved successfully.",
         });
         resetRecording();
         setSummary("");
@@ -191,12 +223,13 @@ export default function Today() {
   };
 
   const handleSaveVoiceNote = () => {
-    if (summary.trim()) {
+    // The recording is transcribed on the server, so the written summary is optional
+    if (summary.trim() || audioBlob) {
       saveJournalMutation.mutate({ summary: summary.trim() });
     } else {
       toast({
         title: "Summary required",
-        description: "Please add a brief summary of today's learning.",
+        description: "Please record a voice note or add a brief summary of today's learning.",
         variant: "destructive",
       });
     }
@@ -205,26 +238,21 @@ export default function Today() {
   const handleDiscardVoiceNote = () => {
     resetRecording();
     setSummary("");
-    setFollowUpQuestions([]);
-    setFollowUpAnswers([]);
-    setSavedEntryId(null);
+    setFollowUps([]);
   };
 
   const saveAnswersMutation = useMutation({
-    mutationFn: async (data: { entryId: string; answers: string[] }) => {
-      return await apiRequest(`/api/journal/${data.entryId}/follow-up-answers`, {
-        method: 'PATCH',
-        body: JSON.stringify({ answers: data.answers }),
-      });
+    mutationFn: async (data: VoiceJournalFollowUp[]) => {
+      return await Promise.all(data.map((followUp) =>
+        apiRequest('PATCH', `/api/journal/${followUp.entryId}/follow-up-answers`, { answers: followUp.answers })
+      ));
     },
     onSuccess: () => {
       toast({
         title: "Answers saved!",
         description: "Thank you for the additional reflection.",
       });
-      setFollowUpQuestions([]);
-      setFollowUpAnswers([]);
-      setSavedEntryId(null);
+      setFollowUps([]);
       resetRecording();
       setSummary("");
       queryClient.invalidateQueries({ queryKey: ['/api/journal'] });
@@ -274,14 +302,11 @@ export default function Today() {
   
   // Calculate current week properly with clamping
   const curriculumGeneratedAt = new Date((curriculumResponse as any).curriculum?.generatedAt || new Date());
-  const weekStart = startOfWeek(curriculumGeneratedAt, { weekStartsOn: 1 }); // Monday
   const today = new Date();
   const dayOfWeek = today.getDay(); // 0 = Sunday, 1 = Monday, etc.
   
-  // Calculate week number with proper clamping (1-12)
-  const daysSinceStart = Math.floor((today.getTime() - weekStart.getTime()) / (24 * 60 * 60 * 1000));
-  const rawWeekNumber = Math.floor(daysSinceStart / 7) + 1;
-  const weekNumber = Math.max(1, Math.min(rawWeekNumber, 12));
+  // Calculate week number, clamped to the weeks planned so far
+  const weekNumber = Math.max(1, Math.min(getCurrentWeekNumber(curriculumGeneratedAt, today), getLastWeekNumber(curriculumData)));
   
   // Map day number to day name (handle weekends as "Weekend")
   type DayName = "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Weekend";
@@ -485,7 +510,7 @@ export default function Today() {
                 : "Tap to start recording"}
             </Button>
 
-            {audioUrl && !isRecording && followUpQuestions.length === 0 && (
+            {audioUrl && !isRecording && followUps.length === 0 && (
               <div className="space-y-3">
                 <div className="p-3 bg-muted rounded-lg border border-border">
                   <p className="text-sm text-muted-foreground mb-2">Your recording ({duration}s):</p>
@@ -496,7 +521,7 @@ export default function Today() {
                     data-testid="audio-player"
                   />
                   <Textarea
-                    placeholder="Add a brief summary of today's learning..."
+                    placeholder="Add a written summary if you like - we'll transcribe your recording either way"
                     value={summary}
                     onChange={(e) => setSummary(e.target.value)}
                     className="min-h-[80px]"
@@ -526,7 +551,7 @@ export default function Today() {
               </div>
             )}
 
-            {followUpQuestions.length > 0 && (
+            {followUps.length > 0 && (
               <div className="space-y-4 p-4 bg-primary/5 rounded-lg border border-primary/20">
                 <div className="flex items-start gap-2">
                   <Sparkles className="w-5 h-5 text-primary mt-1" />
@@ -535,21 +560,30 @@ export default function Today() {
                     <p className="text-xs text-muted-foreground mb-3">
                       These questions can help you reflect more deeply on today's learning:
                     </p>
-                    <div className="space-y-3">
-                      {followUpQuestions.map((question, idx) => (
-                        <div key={idx} className="space-y-2">
-                          <p className="text-sm font-medium">{question}</p>
-                          <Textarea
-                            placeholder="Your thoughts..."
-                            value={followUpAnswers[idx] || ""}
-                            onChange={(e) => {
-                              const newAnswers = [...followUpAnswers];
-                              newAnswers[idx] = e.target.value;
-                              setFollowUpAnswers(newAnswers);
-                            }}
-                            className="min-h-[60px] text-sm"
-                            data-testid={`input-follow-up-${idx}`}
-                          />
+                    <div className="space-y-4">
+                      {followUps.map((followUp, followUpIdx) => (
+                        <div key={followUp.entryId} className="space-y-3">
+                          {followUps.length > 1 && (
+                            <Badge variant="outline" className="text-xs">{followUp.childName}</Badge>
+                          )}
+                          {followUp.questions.map((question, idx) => (
+                            <div key={idx} className="space-y-2">
+                              <p className="text-sm font-medium">{question}</p>
+                              <Textarea
+                                placeholder="Your thoughts..."
+                                value={followUp.answers[idx] || ""}
+                                onChange={(e) => {
+                                  const newFollowUps = [...followUps];
+                                  const newAnswers = [...followUp.answers];
+                                  newAnswers[idx] = e.target.value;
+                                  newFollowUps[followUpIdx] = { ...followUp, answers: newAnswers };
+                                  setFollowUps(newFollowUps);
+                                }}
+                                className="min-h-[60px] text-sm"
+                                data-testid={followUps.length > 1 ? `input-follow-up-${followUpIdx}-${idx}` : `input-follow-up-${idx}`}
+                              />
+                            </div>
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -557,15 +591,8 @@ export default function Today() {
                       <Button
                         size="sm"
                         variant="default"
-                        onClick={() => {
-                          if (savedEntryId) {
-                            saveAnswersMutation.mutate({
-                              entryId: savedEntryId,
-                              answers: followUpAnswers,
-                            });
-                          }
-                        }}
-                        disabled={saveAnswersMutation.isPending || !savedEntryId}
+                        onClick={() => saveAnswersMutation.mutate(followUps)}
+                        disabled={saveAnswersMutation.isPending}
                         data-testid="button-save-answers"
                       >
                         {saveAnswersMutation.isPending ? "Saving..." : "Save Answers"}
@@ -574,9 +601,7 @@ export default function Today() {
                         size="sm"
                         variant="ghost"
                         onClick={() => {
-                          setFollowUpQuestions([]);
-                          setFollowUpAnswers([]);
-                          setSavedEntryId(null);
+                          setFollowUps([]);
                           resetRecording();
                           setSummary("");
                         }}
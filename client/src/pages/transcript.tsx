@@ -6,18 +6,26 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
-import { GraduationCap, Award, Download, Plus, Edit } from "lucide-react";
+import { GraduationCap, Award, Download, Plus, Edit, BookOpen } from "lucide-react";
 import { useState, useEffect, useMemo } from "react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
 import type { Child, TranscriptCourse } from "@shared/schema";
 import { getProgressLabel, getStandardConfig } from "@shared/standardsConfig";
+import { calculateGradeSummary } from "@shared/gradeCalculations";
+import { CreditMappingReview } from "@/components/CreditMappingReview";
+import { CourseDescriptionDialog } from "@/components/CourseDescriptionDialog";
+import { GraduationRequirementsChecklist } from "@/components/GraduationRequirementsChecklist";
+import { IssuedTranscripts } from "@/components/IssuedTranscripts";
 
 export default function TranscriptPage() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
   const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isDownloadingBooklet, setIsDownloadingBooklet] = useState(false);
+  const [editingCourse, setEditingCourse] = useState<TranscriptCourse | null>(null);
   const { toast } = useToast();
 
   const { data: childrenData, isLoading: childrenLoading } = useQuery({
@@ -89,8 +97,9 @@ export default function TranscriptPage() {
   const progressPercent = totalCredits > 0 ? (completedCredits / totalCredits) * 100 : 0;
   
   // Get the correct terminology based on the child's education standard
-  const progressLabels = getProgressLabel(selectedChild?.educationStandard);
-  const standardConfig = getStandardConfig(selectedChild?.educationStandard);
+  const progressLabels = getProgressLabel(selectedChild?.educationStandard, selectedChild?.standardMetadata);
+  const standardConfig = getStandardConfig(selectedChild?.educationStandard, selectedChild?.standardMetadata);
+  const gradeSummary = calculateGradeSummary(selectedChild?.educationStandard, courses, selectedChild?.standardMetadata);
 
   const subjects = ["All", "English", "Math", "Science", "History", "Elective"];
   const [selectedSubject, setSelectedSubject] = useState("All");
@@ -136,10 +145,11 @@ export default function TranscriptPage() {
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
+      queryClient.invalidateQueries({ queryKey: [`/api/transcript/verifications?childId=${selectedChildId}`] });
       
       toast({
         title: "Transcript Downloaded",
-        description: "Your official transcript PDF is ready to print or submit to universities.",
+        description: "Your official transcript PDF includes a verification code colleges can check online.",
       });
     } catch (error: any) {
       toast({
@@ -152,6 +162,42 @@ export default function TranscriptPage() {
     }
   };
 
+  const handleDownloadBooklet = async () => {
+    if (!selectedChildId) return;
+
+    setIsDownloadingBooklet(true);
+    try {
+      const response = await fetch(`/api/transcript/booklet/${selectedChildId}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to download course descriptions");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `Course-Descriptions-${selectedChild?.name.replace(/[^a-z0-9]/gi, '_')}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Course Descriptions Downloaded",
+        description: "Includes your school profile, grading scale and a section for every course.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Download Failed",
+        description: error.message || "Unable to generate course descriptions PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingBooklet(false);
+    }
+  };
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
@@ -162,14 +208,25 @@ export default function TranscriptPage() {
             Track academic credits and generate official transcripts
           </p>
         </div>
-        <Button 
-          onClick={handleDownloadTranscript} 
-          disabled={isDownloading || !selectedChildId || courses.length === 0}
-          data-testid="button-download-transcript"
-        >
-          <Download className="w-4 h-4 mr-2" />
-          {isDownloading ? "Generating..." : "Download Transcript PDF"}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={handleDownloadBooklet}
+            disabled={isDownloadingBooklet || !selectedChildId || courses.length === 0}
+            data-testid="button-download-booklet"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            {isDownloadingBooklet ? "Generating..." : "Course Descriptions PDF"}
+          </Button>
+          <Button 
+            onClick={handleDownloadTranscript} 
+            disabled={isDownloading || !selectedChildId || courses.length === 0}
+            data-testid="button-download-transcript"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {isDownloading ? "Generating..." : "Download Transcript PDF"}
+          </Button>
+        </div>
       </div>
 
       {/* Child Selector Tabs */}
@@ -216,9 +273,41 @@ export default function TranscriptPage() {
             <span>{progressLabels.creditLabel}</span>
             <span>{progressLabels.gradeTerminology}</span>
           </div>
+          {gradeSummary.metrics.length > 0 ? (
+            <div className="grid gap-3 pt-2 sm:grid-cols-2 lg:grid-cols-3">
+              {gradeSummary.metrics.map((metric) => (
+                <div key={metric.key} className="rounded-md border p-3" data-testid={`grade-metric-${metric.key}`}>
+                  <div className="text-xs text-muted-foreground">{metric.label}</div>
+                  <div className="text-2xl font-bold">{metric.display}</div>
+                  {metric.detail && <div className="text-xs text-muted-foreground">{metric.detail}</div>}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground pt-2">
+              {gradeSummary.note || `Add grades to courses to see ${progressLabels.gradeTerminology} calculations.`}
+            </p>
+          )}
         </CardContent>
       </Card>
 
+      {/* Graduation Requirements */}
+      {selectedChildId && (
+        <GraduationRequirementsChecklist childId={selectedChildId} creditUnit={progressLabels.creditUnit} />
+      )}
+
+      {/* Credit Review */}
+      {selectedChildId && (
+        <CreditMappingReview
+          childId={selectedChildId}
+          courses={courses}
+          creditUnit={progressLabels.creditUnit}
+        />
+      )}
+
+      {/* Issued Transcripts */}
+      {selectedChildId && <IssuedTranscripts childId={selectedChildId} />}
+
       {/* Subject Filter */}
       <div className="flex gap-2">
         {subjects.map((subject) => (
@@ -300,7 +389,7 @@ export default function TranscriptPage() {
                         {course.grade && ` • ${progressLabels.gradeTerminology}: ${course.grade}`}
                       </CardDescription>
                     </div>
-                    <Button variant="ghost" size="icon" data-testid={`button-edit-course-${course.id}`}>
+                    <Button variant="ghost" size="icon" onClick={() => setEditingCourse(course)} data-testid={`button-edit-course-${course.id}`}>
                       <Edit className="w-4 h-4" />
                     </Button>
                   </div>
@@ -322,6 +411,11 @@ export default function TranscriptPage() {
           })
         )}
       </div>
+
+      <CourseDescriptionDialog
+        course={editingCourse}
+        onOpenChange={(open) => !open && setEditingCourse(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShieldCheck, ShieldAlert, ShieldX, Search } from "lucide-react";
+
+interface VerificationResult {
+  status: "valid" | "revoked" | "tampered";
+  verificationCode: string;
+  contentHash: string;
+  issuedAt: string;
+  revokedAt: string | null;
+  transcript: {
+    studentName: string;
+    birthdate: string | null;
+    schoolName: string;
+    standardName: string;
+    issuedAt: string;
+    courses: Array<{
+      courseTitle: string;
+      subject: string;
+      gradeLevel: string;
+      credits: number;
+      grade: string | null;
+      isComplete: boolean;
+    }>;
+  } | null;
+}
+
+// Public page for admissions officers - works without an account
+export default function VerifyTranscript() {
+  const [, params] = useRoute("/verify/:code");
+  const [, navigate] = useLocation();
+  const code = params?.code ? decodeURIComponent(params.code) : "";
+  const [input, setInput] = useState(code);
+
+  const { data: result, isLoading, error } = useQuery<VerificationResult>({
+    queryKey: ["/api/transcript/verify", code],
+    enabled: !!code,
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`/api/transcript/verify/${encodeURIComponent(code)}`);
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.error || "Unable to verify this code");
+      }
+      return body;
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) {
+      navigate(`/verify/${encodeURIComponent(input.trim().toUpperCase())}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-12 space-y-6">
+        <div>
+          <h1 className="text-3xl font-heading font-bold">Verify a Transcript</h1>
+          <p className="text-muted-foreground mt-1">
+            Enter the verification code printed at the bottom of a home education transcript to confirm it matches what the family issued.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX"
+            className="font-mono"
+            data-testid="input-verification-code"
+          />
+          <Button type="submit" data-testid="button-verify">
+            <Search className="w-4 h-4 mr-2" />
+            Verify
+          </Button>
+        </form>
+
+        {isLoading && <Skeleton className="h-48 w-full" />}
+
+        {error && (
+          <Card className="border-destructive">
+            <CardContent className="py-6 flex items-center gap-3">
+              <ShieldX className="w-6 h-6 text-destructive flex-shrink-0" />
+              <p>{(error as Error).message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {result && result.status === "revoked" && (
+          <Card className="border-destructive">
+            <CardContent className="py-6 flex items-start gap-3">
+              <ShieldX className="w-6 h-6 text-destructive flex-shrink-0" />
+              <div>
+                <p className="font-semibold">This transcript has been revoked</p>
+                <p className="text-sm text-muted-foreground">
+                  Code {result.verificationCode} was issued on {format(new Date(result.issuedAt), "d MMMM yyyy")} and
+                  withdrawn by the family{result.revokedAt && ` on ${format(new Date(result.revokedAt), "d MMMM yyyy")}`}. Please request a current copy.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {result && result.status === "tampered" && (
+          <Card className="border-destructive">
+            <CardContent className="py-6 flex items-start gap-3">
+              <ShieldAlert className="w-6 h-6 text-destructive flex-shrink-0" />
+              <div>
+                <p className="font-semibold">This record failed its integrity check</p>
+                <p className="text-sm text-muted-foreground">
+                  The stored transcript no longer matches its signature. Do not rely on it; please contact the family.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {result && result.status === "valid" && result.transcript && (
+          <Card data-testid="card-verified-transcript">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5 text-primary" />
+                Verified transcript for {result.transcript.studentName}
+              </CardTitle>
+              <CardDescription>
+                Issued by {result.transcript.schoolName} on {format(new Date(result.issuedAt), "d MMMM yyyy")} • {result.transcript.standardName}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>The content hash on the printed transcript should begin with:</p>
+                <p className="font-mono text-foreground break-all">{result.contentHash}</p>
+              </div>
+              <div className="divide-y rounded-md border">
+                {result.transcript.courses.map((course, index) => (
+                  <div key={index} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium">{course.courseTitle}</p>
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {course.subject} • Grade {course.gradeLevel}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="font-medium">{course.grade || (course.isComplete ? "Complete" : "In Progress")}</p>
+                      <p className="text-xs text-muted-foreground">{course.credits} credits</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
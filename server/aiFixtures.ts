@@ -0,0 +1,126 @@
+import type { CurriculumData, WeekCurriculum } from "@shared/schema";
+import type { AiMessage, AiTask } from "./aiProviders";
+
+// Deterministic stand-ins for AI responses, used when AI_PROVIDER=fixture.
+// Each fixture is valid for the prompt it answers, so the app can be developed end to end offline.
+
+const FIXTURE_CHILD_ID = "00000000-0000-4000-8000-000000000000";
+
+const FIXTURE_THEMES = [
+  "Discovering Our Local Ecosystem",
+  "Inventors and Inventions",
+  "Weather Watchers",
+  "Stories from the Stars",
+  "The Secret Life of Bugs",
+  "Building Bridges",
+  "Maps and Explorers",
+  "Music All Around Us",
+  "From Seed to Plate",
+  "Ancient Builders",
+  "Ocean Depths",
+  "Festival of Light",
+];
+
+function lastUserMessage(messages: AiMessage[]): string {
+  return messages.filter(m => m.role === "user").pop()?.content || "";
+}
+
+// One analysis per child named in the transcript, built from the sentences that mention them
+function fixtureJournalSplit(transcript: string, messages: AiMessage[]) {
+  const systemPrompt = messages.find(m => m.role === "system")?.content || "";
+  const names = Array.from(systemPrompt.matchAll(/^\s+\d+\. (.+?) \(age \d+\)/gm), match => match[1]);
+  const sentences = transcript.split(/(?<=[.!?])\s+/);
+  const mentioned = names
+    .map((name, idx) => ({
+      childNumber: idx + 1,
+      excerpt: sentences.filter(sentence => sentence.toLowerCase().includes(name.toLowerCase())).join(" "),
+    }))
+    .filter(split => split.excerpt);
+  const splits = mentioned.length > 0 ? mentioned : [{ childNumber: 1, excerpt: transcript }];
+  return splits.map(split => ({
+    ...split,
+    summary: split.excerpt.slice(0, 200),
+    interests: [],
+    skills: [],
+    subjects: [],
+    enthusiasm: "medium",
+    notes: "",
+    emergingInterests: [],
+  }));
+}
+
+// The curriculum prompts carry an example week for the first child - plan for that child
+function fixtureChild(prompt: string): { childId: string; name: string; age: number } {
+  const match = prompt.match(/"childId": "([^"]+)",\s*"name": "([^"]*)",\s*"age": (\d+)/);
+  return match
+    ? { childId: match[1], name: match[2], age: parseInt(match[3]) }
+    : { childId: FIXTURE_CHILD_ID, name: "Child", age: 8 };
+}
+
+function fixtureWeek(weekNumber: number, prompt: string): WeekCurriculum {
+  const child = fixtureChild(prompt);
+  const theme = FIXTURE_THEMES[(weekNumber - 1) % FIXTURE_THEMES.length];
+  return {
+    weekNumber,
+    familyTheme: theme,
+    familyActivities: [`${theme} read-aloud`, "Nature walk", "Family games night"],
+    localOpportunities: [],
+    children: [
+      {
+        childId: child.childId,
+        name: child.name,
+        age: child.age,
+        deepDives: [`${theme}: big questions`, `${theme}: making and building`],
+        dailyPlan: {
+          Monday: [`Read aloud and narrate: ${theme}`],
+          Tuesday: ["Nature journal sketch"],
+          Wednesday: [`Hands-on project: ${theme}`],
+          Thursday: ["Maths board game"],
+          Friday: ["Show and tell of the week's work"],
+          Weekend: "Family outing linked to this week's theme",
+        },
+        masteryUpdates: { Reading: "Developing", Maths: "Exposure", Science: "Developing" },
+        inspiredBy: [],
+      },
+    ],
+    resources: [
+      { title: "Local library picture books", description: `Books about ${theme.toLowerCase()}`, category: "free" },
+      { title: "Cardboard and tape", description: "For the hands-on project", category: "recycled" },
+    ],
+  };
+}
+
+function fixtureCurriculum(prompt: string): CurriculumData {
+  return {
+    generatedAt: new Date().toISOString(),
+    weeks: FIXTURE_THEMES.map((_, idx) => fixtureWeek(idx + 1, prompt)),
+  };
+}
+
+export function getFixtureResponse(task: AiTask, messages: AiMessage[]): string {
+  const prompt = lastUserMessage(messages);
+
+  switch (task) {
+    case "curriculum":
+      return JSON.stringify(fixtureCurriculum(prompt));
+    case "curriculumWeek": {
+      const weekNumber = parseInt(prompt.match(/"weekNumber": (\d+)/)?.[1] || "1");
+      return JSON.stringify(fixtureWeek(weekNumber, prompt));
+    }
+    case "courseDescription": {
+      const course = prompt.match(/^Course: (.+)$/m)?.[1] || "This course";
+      return `${course} was studied through a combination of living books, hands-on projects and field work. The student read widely, kept a learning journal and narrated their understanding orally and in writing. Learning was assessed through discussion, completed projects and a portfolio of work reviewed by the parent educator.`;
+    }
+    case "journalAnalysis": {
+      const transcript = prompt.replace(/^Voice journal transcript:\s*/, "").trim();
+      return JSON.stringify({ children: fixtureJournalSplit(transcript, messages) });
+    }
+    case "followUpQuestions":
+      return JSON.stringify({
+        questions: [
+          "What seemed to spark the most excitement or curiosity?",
+          "Were there any moments of struggle or breakthrough?",
+        ],
+      });
+  }
+}
@@ -0,0 +1,210 @@
+import OpenAI from "openai";
+import { getFixtureResponse } from "./aiFixtures";
+
+// Every AI call in the app goes through completeAiTask. Each task has an ordered list of
+// provider/model routes: the first configured provider is tried first, the rest are fallbacks.
+//
+// Configuration (all optional):
+// - AI_PROVIDER=fixture         use the deterministic local fixture provider for every task (no keys or network)
+// - AI_MODELS_<TASK>=a:m1,b:m2  override a task's routes, e.g. AI_MODELS_CURRICULUM=anthropic:claude-3-5-sonnet-20241022,xai:grok-4
+
+export const aiTasks = [
+  "curriculum",
+  "curriculumWeek",
+  "courseDescription",
+  "journalAnalysis",
+  "followUpQuestions",
+] as const;
+export type AiTask = typeof aiTasks[number];
+
+export type AiProviderId = "xai" | "anthropic" | "openrouter" | "fixture";
+
+export interface AiMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface AiCompletionRequest {
+  messages: AiMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for JSON-only output on providers that support a structured output mode
+  json?: boolean;
+  // Called once per provider attempt; the handler receives each streamed chunk of that attempt
+  createTextHandler?: () => (text: string) => void;
+}
+
+export interface AiCompletion {
+  text: string;
+  provider: string;
+}
+
+interface AiRoute {
+  provider: AiProviderId;
+  model: string;
+}
+
+interface AiProviderRequest {
+  task: AiTask;
+  model: string;
+  messages: AiMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean;
+  onText?: (text: string) => void;
+}
+
+interface AiProvider {
+  label: string;
+  isConfigured(): boolean;
+  complete(request: AiProviderRequest): Promise<string>;
+}
+
+// xAI, Anthropic and OpenRouter all speak the OpenAI chat completions API. Anthropic's
+// compatibility layer has no JSON mode, so there the prompt alone has to ask for JSON.
+function createOpenAiCompatibleProvider(label: string, client: OpenAI | null, supportsJsonMode: boolean): AiProvider {
+  return {
+    label,
+    isConfigured: () => client !== null,
+    async complete({ model, messages, maxTokens, temperature, json, onText }) {
+      if (!client) {
+        throw new Error(`${label} is not configured`);
+      }
+
+      const params = {
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        ...(json && supportsJsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      };
+
+      if (!onText) {
+        const completion = await client.chat.completions.create(params);
+        return completion.choices[0]?.message?.content || "";
+      }
+
+      const stream = await client.chat.completions.create({ ...params, stream: true });
+      let text = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content || "";
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      return text;
+    },
+  };
+}
+
+const FIXTURE_CHUNK_SIZE = 200;
+
+// Canned, deterministic responses for local development and tests. Streams in fixed-size chunks
+// so the streaming path gets exercised too.
+const fixtureProvider: AiProvider = {
+  label: "Local fixtures",
+  isConfigured: () => true,
+  async complete({ task, messages, onText }) {
+    const text = getFixtureResponse(task, messages);
+    if (onText) {
+      for (let i = 0; i < text.length; i += FIXTURE_CHUNK_SIZE) {
+        onText(text.slice(i, i + FIXTURE_CHUNK_SIZE));
+      }
+    }
+    return text;
+  },
+};
+
+const providers: Record<AiProviderId, AiProvider> = {
+  xai: createOpenAiCompatibleProvider("xAI", process.env.XAI_API_KEY ? new OpenAI({
+    baseURL: "https://api.x.ai/v1",
+    apiKey: process.env.XAI_API_KEY,
+  }) : null, true),
+  anthropic: createOpenAiCompatibleProvider("Anthropic", process.env.ANTHROPIC_API_KEY ? new OpenAI({
+    baseURL: "https://api.anthropic.com/v1",
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    defaultHeaders: {
+      "anthropic-version": "2023-06-01",
+    },
+  }) : null, false),
+  openrouter: createOpenAiCompatibleProvider("OpenRouter", process.env.OPENROUTER_API_KEY ? new OpenAI({
+    baseURL: "https://openrouter.ai/api/v1",
+    apiKey: process.env.OPENROUTER_API_KEY,
+  }) : null, true),
+  fixture: fixtureProvider,
+};
+
+const XAI_GROK: AiRoute = { provider: "xai", model: "grok-4" };
+const ANTHROPIC_SONNET: AiRoute = { provider: "anthropic", model: "claude-3-5-sonnet-20241022" };
+const OPENROUTER_SONNET: AiRoute = { provider: "openrouter", model: "anthropic/claude-3.5-sonnet" };
+
+const DEFAULT_ROUTES: Record<AiTask, AiRoute[]> = {
+  curriculum: [XAI_GROK, ANTHROPIC_SONNET],
+  curriculumWeek: [XAI_GROK, ANTHROPIC_SONNET],
+  courseDescription: [XAI_GROK, ANTHROPIC_SONNET],
+  journalAnalysis: [OPENROUTER_SONNET, ANTHROPIC_SONNET, XAI_GROK],
+  followUpQuestions: [OPENROUTER_SONNET, ANTHROPIC_SONNET, XAI_GROK],
+};
+
+// "curriculumWeek" -> "AI_MODELS_CURRICULUM_WEEK"
+function routesEnvName(task: AiTask): string {
+  return `AI_MODELS_${task.replace(/([A-Z])/g, "_$1").toUpperCase()}`;
+}
+
+function parseRoutes(value: string): AiRoute[] {
+  return value.split(",").flatMap(entry => {
+    const separator = entry.indexOf(":");
+    const provider = entry.slice(0, separator).trim() as AiProviderId;
+    const model = entry.slice(separator + 1).trim();
+    if (separator === -1 || !(provider in providers) || !model) {
+      console.warn(`Ignoring invalid AI route "${entry}"`);
+      return [];
+    }
+    return [{ provider, model }];
+  });
+}
+
+export function getAiRoutes(task: AiTask): AiRoute[] {
+  if (process.env.AI_PROVIDER === "fixture") {
+    return [{ provider: "fixture", model: task }];
+  }
+  const override = process.env[routesEnvName(task)];
+  const routes = override ? parseRoutes(override) : DEFAULT_ROUTES[task];
+  return routes.filter(route => providers[route.provider].isConfigured());
+}
+
+export function isAiConfigured(task: AiTask): boolean {
+  return getAiRoutes(task).length > 0;
+}
+
+// Run a task against its routes in order. If every route fails, the first error is rethrown.
+export async function completeAiTask(task: AiTask, request: AiCompletionRequest): Promise<AiCompletion> {
+  const routes = getAiRoutes(task);
+  if (routes.length === 0) {
+    throw new Error("No AI provider configured. Please set XAI_API_KEY or ANTHROPIC_API_KEY.");
+  }
+
+  let firstError: any = null;
+  for (let index = 0; index < routes.length; index++) {
+    const route = routes[index];
+    const provider = providers[route.provider];
+    const label = `${provider.label} ${route.model}${index > 0 ? " (fallback)" : ""}`;
+    try {
+      const text = await provider.complete({
+        task,
+        model: route.model,
+        messages: request.messages,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        json: request.json,
+        onText: request.createTextHandler?.(),
+      });
+      return { text, provider: label };
+    } catch (error: any) {
+      console.error(`AI provider ${label} failed for ${task}:`, error.message);
+      firstError = firstError || error;
+    }
+  }
+  throw firstError;
+}
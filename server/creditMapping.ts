@@ -0,0 +1,162 @@
+import type { CreditMapping, Curriculum, CurriculumData, DailyActivity, TranscriptCourse } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { differenceInCalendarDays, format as formatDate, parseISO } from "date-fns";
+import { getCurriculumStartDate, getWeekDates } from "@shared/curriculumSchedule";
+
+export interface CreditMappingProposal {
+  curriculumId: string;
+  weekNumber: number;
+  subject: string;
+  activityTitle: string;
+  activities: string[];
+  completedCount: number;
+  creditAmount: number;
+  suggestedCourseId: string | null;
+}
+
+// Carnegie unit: 1.0 credit ≈ 120 hours. Each ticked-off daily activity is counted as one hour.
+export const HOURS_PER_CREDIT = 120;
+export const HOURS_PER_COMPLETED_ACTIVITY = 1;
+
+// Transcript subject buckets (matches the subject filter on the transcript page)
+const SUBJECT_KEYWORDS: Record<string, string[]> = {
+  math: ["math", "algebra", "geometry", "fraction", "equation", "calculat", "statistic", "graph", "budget", "measur", "number", "probability"],
+  science: ["science", "experiment", "biology", "chemistry", "physics", "ecosystem", "microscope", "astronomy", "weather", "insect", "plant", "animal", "volcano", "nature study", "lab"],
+  history: ["history", "historical", "ancient", "civilization", "civilisation", "timeline", "geography", "culture", "government", "civics", "war", "museum"],
+  english: ["read", "writ", "essay", "poem", "poetry", "story", "book", "novel", "narrat", "grammar", "spelling", "literature", "journal"],
+};
+
+export function getActivityTitle(activity: DailyActivity): string {
+  return typeof activity === "string" ? activity : activity.activity;
+}
+
+export function classifyActivitySubject(text: string): string {
+  const lower = text.toLowerCase();
+  let best = "elective";
+  let bestScore = 0;
+
+  for (const [subject, keywords] of Object.entries(SUBJECT_KEYWORDS)) {
+    const score = keywords.filter((keyword) => lower.includes(keyword)).length;
+    if (score > bestScore) {
+      best = subject;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Week N of a curriculum starts on the Monday of the week it was generated (see getCurriculumStartDate)
+function getWeekAndDay(curriculumStart: Date, completionDate: string): { weekNumber: number; dayName: string } | null {
+  const date = parseISO(completionDate);
+  const days = differenceInCalendarDays(date, curriculumStart);
+  if (days < 0) return null;
+
+  const dayNames = ["Weekend", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Weekend"];
+  return { weekNumber: Math.floor(days / 7) + 1, dayName: dayNames[date.getDay()] };
+}
+
+// Every save makes a new curriculum version and a regenerate restarts week numbers from 1, so a
+// mapping is identified by the Monday of its week and its subject rather than by curriculum row.
+// Mappings whose curriculum is unknown fall back to the week number.
+export function getCreditMappingKey(
+  mapping: { curriculumId?: string | null; weekNumber: number; subject: string },
+  versions: Curriculum[]
+): string {
+  const subject = mapping.subject.toLowerCase();
+  const version = versions.find((v) => v.id === mapping.curriculumId);
+  if (!version) {
+    return `week-${mapping.weekNumber}:${subject}`;
+  }
+  const { startDate } = getWeekDates(version.generatedAt || new Date(), mapping.weekNumber);
+  return `${formatDate(startDate, "yyyy-MM-dd")}:${subject}`;
+}
+
+// Turn the family's ticked-off activities for a high school child into per-week, per-subject credit proposals.
+// Weeks and subjects that already have a mapping, from any version of the curriculum, are skipped so
+// accepted or edited amounts are never re-proposed.
+export function proposeCreditMappings(
+  childId: string,
+  curriculum: Curriculum,
+  completions: Array<{ completionDate: string; completedIds: string[] }>,
+  existingMappings: CreditMapping[],
+  courses: TranscriptCourse[],
+  versions: Curriculum[]
+): CreditMappingProposal[] {
+  const curriculumData = curriculum.curriculumData as CurriculumData;
+  const curriculumStart = getCurriculumStartDate(curriculum.generatedAt || new Date());
+  const grouped = new Map<string, CreditMappingProposal>();
+
+  for (const completion of completions) {
+    const position = getWeekAndDay(curriculumStart, completion.completionDate);
+    if (!position || position.dayName === "Weekend") continue;
+
+    const week = curriculumData.weeks.find((w) => w.weekNumber === position.weekNumber);
+    const childPlan = week?.children.find((c) => c.childId === childId);
+    if (!week || !childPlan) continue;
+
+    const completedTitles: string[] = [];
+    if (completion.completedIds.includes(`child-${childId}`)) {
+      const dayPlan = childPlan.dailyPlan[position.dayName as keyof typeof childPlan.dailyPlan];
+      if (Array.isArray(dayPlan) && dayPlan.length > 0) {
+        completedTitles.push(getActivityTitle(dayPlan[0]));
+      }
+    }
+    if (completion.completedIds.includes("family-activity") && week.familyActivities[0]) {
+      completedTitles.push(week.familyActivities[0]);
+    }
+
+    for (const title of completedTitles) {
+      const subject = classifyActivitySubject(title);
+      const key = `${week.weekNumber}:${subject}`;
+      const proposal = grouped.get(key) || {
+        curriculumId: curriculum.id,
+        weekNumber: week.weekNumber,
+        subject,
+        activityTitle: "",
+        activities: [],
+        completedCount: 0,
+        creditAmount: 0,
+        suggestedCourseId: null,
+      };
+      proposal.completedCount++;
+      if (!proposal.activities.includes(title)) {
+        proposal.activities.push(title);
+      }
+      grouped.set(key, proposal);
+    }
+  }
+
+  const allVersions = versions.some((v) => v.id === curriculum.id) ? versions : [curriculum, ...versions];
+  const alreadyMapped = new Set(existingMappings.map((m) => getCreditMappingKey(m, allVersions)));
+
+  return Array.from(grouped.values())
+    .filter((proposal) => !alreadyMapped.has(getCreditMappingKey(proposal, allVersions)))
+    .map((proposal) => {
+      const hours = proposal.completedCount * HOURS_PER_COMPLETED_ACTIVITY;
+      const course = courses.find((c) => c.subject.toLowerCase() === proposal.subject && !c.isComplete);
+      return {
+        ...proposal,
+        activityTitle: proposal.activities.join("; "),
+        creditAmount: Math.max(0.01, Math.round((hours / HOURS_PER_CREDIT) * 100) / 100),
+        suggestedCourseId: course?.id || null,
+      };
+    })
+    .sort((a, b) => a.weekNumber - b.weekNumber || a.subject.localeCompare(b.subject));
+}
+
+export async function getLinkedCredits(storage: IStorage, course: TranscriptCourse): Promise<number> {
+  const linked = (await storage.getCreditMappings(course.childId)).filter((m) => m.courseId === course.id);
+  return linked.reduce((sum, m) => sum + m.creditAmount, 0);
+}
+
+// Roll accepted mappings up into the course total, on top of any credits the parent entered by hand
+export async function recalculateCourseCredits(storage: IStorage, courseId: string | null | undefined): Promise<void> {
+  if (!courseId) return;
+
+  const course = await storage.getTranscriptCourse(courseId);
+  if (!course) return;
+
+  const credits = Math.round((course.baseCredits + await getLinkedCredits(storage, course)) * 100) / 100;
+  await storage.updateTranscriptCourse(courseId, { credits });
+}
@@ -0,0 +1,187 @@
+import type { ZodError } from "zod";
+import { weekCurriculumSchema, type CurriculumData, type CurriculumTrigger, type FlaggedWeek, type WeekCurriculum } from "@shared/schema";
+
+export type GenerationJobStatus = "running" | "completed" | "failed";
+
+// In-memory state for a family's background curriculum generation, so a dashboard that
+// connects (or reloads) mid-generation can catch up on the weeks streamed so far
+export interface CurriculumGenerationJob {
+  familyId: string;
+  status: GenerationJobStatus;
+  trigger: CurriculumTrigger;
+  startedAt: string;
+  totalWeeks: number;
+  weeks: WeekCurriculum[];
+  curriculumId?: string;
+  error?: { message: string; code: string };
+}
+
+const jobs = new Map<string, CurriculumGenerationJob>();
+
+export function getGenerationJob(familyId: string): CurriculumGenerationJob | null {
+  return jobs.get(familyId) || null;
+}
+
+// Returns null if the family already has a generation running
+export function beginGenerationJob(familyId: string, trigger: CurriculumTrigger, totalWeeks: number): CurriculumGenerationJob | null {
+  if (jobs.get(familyId)?.status === "running") {
+    return null;
+  }
+  const job: CurriculumGenerationJob = {
+    familyId,
+    status: "running",
+    trigger,
+    startedAt: new Date().toISOString(),
+    totalWeeks,
+    weeks: [],
+  };
+  jobs.set(familyId, job);
+  return job;
+}
+
+// A provider fallback restarts the stream, so the same week can arrive twice
+export function recordGeneratedWeek(job: CurriculumGenerationJob, week: WeekCurriculum) {
+  job.weeks = [...job.weeks.filter(w => w.weekNumber !== week.weekNumber), week].sort((a, b) => a.weekNumber - b.weekNumber);
+}
+
+// Pulls each complete object out of the top-level "weeks" array as the JSON streams in.
+// Tracks string and bracket state rather than re-parsing the whole buffer on every chunk.
+export function createWeekStreamParser(onWeek: (raw: unknown) => void) {
+  const containers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let weekStart = -1;
+  let buffer = "";
+
+  return {
+    push(chunk: string) {
+      const offset = buffer.length;
+      buffer += chunk;
+
+      for (let i = offset; i < buffer.length; i++) {
+        const char = buffer[i];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === "{" || char === "[") {
+          // A week is an object directly inside the array that sits directly inside the root object
+          if (char === "{" && containers.length === 2 && containers[0] === "{" && containers[1] === "[") {
+            weekStart = i;
+          }
+          containers.push(char);
+        } else if (char === "}" || char === "]") {
+          containers.pop();
+          if (char === "}" && weekStart !== -1 && containers.length === 2) {
+            const text = buffer.slice(weekStart, i + 1);
+            weekStart = -1;
+            try {
+              onWeek(JSON.parse(text));
+            } catch {
+              // Leave malformed weeks to the final validation of the full response
+            }
+          }
+        }
+      }
+    },
+  };
+}
+
+// Each repair is another AI call, so a badly broken response is flagged rather than rebuilt week by week
+const MAX_WEEK_REPAIRS = 4;
+
+export interface CurriculumWeekRepairer {
+  // Re-prompt for a week that came back but failed validation
+  repairWeek(rawWeek: unknown, weekNumber: number, issues: string[]): Promise<WeekCurriculum>;
+  // Plan a week the response left out (usually because it was cut off)
+  planWeek(curriculum: CurriculumData, weekNumber: number): Promise<WeekCurriculum>;
+}
+
+export function formatZodIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+// Keep the weeks that validate, repair or re-plan the rest, and flag any that still can't be fixed
+export async function salvageCurriculum(
+  parsed: unknown,
+  totalWeeks: number,
+  repairer: CurriculumWeekRepairer,
+  onWeek?: (week: WeekCurriculum) => void
+): Promise<CurriculumData> {
+  const root = (parsed && typeof parsed === "object" ? parsed : {}) as { weeks?: unknown };
+  // Week dates are anchored to generatedAt, so the model's value is never trusted
+  const generatedAt = new Date().toISOString();
+
+  const validWeeks = new Map<number, WeekCurriculum>();
+  const invalidWeeks = new Map<number, { rawWeek: unknown; issues: string[] }>();
+  for (const rawWeek of Array.isArray(root.weeks) ? root.weeks : []) {
+    const result = weekCurriculumSchema.safeParse(rawWeek);
+    const weekNumber = result.success ? result.data.weekNumber : (rawWeek as { weekNumber?: unknown } | null)?.weekNumber;
+    if (typeof weekNumber !== "number" || !Number.isInteger(weekNumber) || weekNumber < 1) {
+      continue;
+    }
+    if (weekNumber > totalWeeks) {
+      console.warn(`Dropping curriculum week ${weekNumber}, beyond the ${totalWeeks} weeks asked for`);
+      continue;
+    }
+    // The first copy of a week wins; a valid copy still beats an earlier malformed one
+    if (validWeeks.has(weekNumber) || (!result.success && invalidWeeks.has(weekNumber))) {
+      console.warn(`Dropping duplicate curriculum week ${weekNumber}`);
+      continue;
+    }
+    if (result.success) {
+      if (invalidWeeks.delete(weekNumber)) {
+        console.warn(`Using the second, valid copy of curriculum week ${weekNumber}`);
+      }
+      validWeeks.set(weekNumber, result.data);
+    } else {
+      invalidWeeks.set(weekNumber, { rawWeek, issues: formatZodIssues(result.error) });
+    }
+  }
+
+  if (validWeeks.size === 0) {
+    throw new Error("AI generated curriculum doesn't contain any usable weeks. Please try regenerating the curriculum.");
+  }
+
+  const sortedWeeks = () => Array.from(validWeeks.values()).sort((a, b) => a.weekNumber - b.weekNumber);
+  const flaggedWeeks: FlaggedWeek[] = [];
+  let repairs = 0;
+
+  for (let weekNumber = 1; weekNumber <= totalWeeks; weekNumber++) {
+    if (validWeeks.has(weekNumber)) continue;
+
+    if (repairs >= MAX_WEEK_REPAIRS) {
+      flaggedWeeks.push({ weekNumber, reason: "Too many weeks needed fixing in one go" });
+      continue;
+    }
+    repairs++;
+
+    const invalid = invalidWeeks.get(weekNumber);
+    try {
+      const week = invalid
+        ? await repairer.repairWeek(invalid.rawWeek, weekNumber, invalid.issues)
+        : await repairer.planWeek({ generatedAt, weeks: sortedWeeks() }, weekNumber);
+      validWeeks.set(weekNumber, week);
+      onWeek?.(week);
+    } catch (error: any) {
+      console.error(`Couldn't salvage curriculum week ${weekNumber}:`, error.message);
+      flaggedWeeks.push({ weekNumber, reason: invalid ? "The generated week was malformed" : "The week was missing from the response" });
+    }
+  }
+
+  return {
+    generatedAt,
+    weeks: sortedWeeks(),
+    ...(flaggedWeeks.length > 0 ? { flaggedWeeks } : {}),
+  };
+}
@@ -0,0 +1,174 @@
+import type { Curriculum, CurriculumData, Family, WeekCurriculum, WeekRecap } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { format as formatDate, subDays } from "date-fns";
+import { getWeekDates, getWeeksToArchive, getWeeksToExtend } from "@shared/curriculumSchedule";
+import { getGenerationJob } from "./curriculumGeneration";
+
+const ROLLING_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// A family coming back from a long break catches up over a few runs rather than in one burst of AI calls
+const MAX_WEEKS_PER_RUN = 2;
+
+// New weeks cost AI calls, so they're only planned for subscribers and families who've used the app lately
+const ACTIVITY_WINDOW_DAYS = 21;
+
+export type CurriculumWeekGenerator = (
+  family: Family,
+  curriculum: CurriculumData,
+  weekNumber: number
+) => Promise<{ data: WeekCurriculum; provider: string }>;
+
+// Summarise what the family actually did during a week: ticked-off activities and journal entries
+export async function buildWeekRecap(
+  storage: IStorage,
+  familyId: string,
+  curriculum: CurriculumData,
+  weekNumber: number
+): Promise<WeekRecap> {
+  const { startDate, endDate } = getWeekDates(curriculum.generatedAt, weekNumber);
+  const start = formatDate(startDate, "yyyy-MM-dd");
+  const end = formatDate(endDate, "yyyy-MM-dd");
+
+  const completions = await storage.getDailyCompletions(familyId, startDate, endDate);
+  const journalEntries = (await storage.getJournalEntries(familyId))
+    .filter((entry) => entry.entryDate >= start && entry.entryDate <= end);
+
+  return {
+    daysWithActivity: completions.filter((c) => c.activitiesCompleted > 0).length,
+    activitiesCompleted: completions.reduce((sum, c) => sum + c.activitiesCompleted, 0),
+    journalEntries: journalEntries.length,
+    highlights: journalEntries.slice(0, 5).map((entry) => {
+      const summary = (entry.aiAnalysis as { summary?: string } | null)?.summary;
+      return summary || entry.content.slice(0, 200);
+    }),
+  };
+}
+
+// Subscribed, or ticked off an activity or wrote in the journal within the activity window
+export async function isFamilyActive(storage: IStorage, familyId: string, today: Date = new Date()): Promise<boolean> {
+  const subscription = await storage.getSubscription(familyId);
+  if (subscription?.status === "active") {
+    return true;
+  }
+
+  const since = subDays(today, ACTIVITY_WINDOW_DAYS);
+  const completions = await storage.getDailyCompletions(familyId, since, today);
+  if (completions.some((c) => c.activitiesCompleted > 0)) {
+    return true;
+  }
+  const journal = await storage.searchJournalEntries(familyId, { from: formatDate(since, "yyyy-MM-dd"), limit: 1 });
+  return journal.entries.length > 0;
+}
+
+// Archive finished weeks and top the plan back up to a full window ahead of the current week.
+// New weeks are saved as a new version of the curriculum, archiving alone updates the current one;
+// returns null when nothing needed doing.
+export async function rollCurriculum(
+  storage: IStorage,
+  curriculum: Curriculum,
+  generateWeek: CurriculumWeekGenerator,
+  today: Date = new Date()
+): Promise<Curriculum | null> {
+  let curriculumData = curriculum.curriculumData as CurriculumData;
+  const weeksToArchive = getWeeksToArchive(curriculumData, today);
+  const weeksToExtend = getWeeksToExtend(curriculumData, today).slice(0, MAX_WEEKS_PER_RUN);
+  if (weeksToArchive.length === 0 && weeksToExtend.length === 0) {
+    return null;
+  }
+
+  // A full generation in progress will replace this version anyway
+  if (getGenerationJob(curriculum.familyId)?.status === "running") {
+    return null;
+  }
+
+  const family = await storage.getFamilyById(curriculum.familyId);
+  if (!family || !(await isFamilyActive(storage, family.id, today))) {
+    return null;
+  }
+
+  const archivedAt = today.toISOString();
+  const recaps = new Map<number, WeekRecap>();
+  for (const week of weeksToArchive) {
+    recaps.set(week.weekNumber, await buildWeekRecap(storage, family.id, curriculumData, week.weekNumber));
+  }
+  curriculumData = {
+    ...curriculumData,
+    weeks: curriculumData.weeks.map((week) =>
+      recaps.has(week.weekNumber) ? { ...week, archivedAt, recap: recaps.get(week.weekNumber) } : week
+    ),
+  };
+
+  // One at a time so each new week builds on the one before it
+  let weeksAdded = 0;
+  let provider = curriculum.provider;
+  for (const weekNumber of weeksToExtend) {
+    try {
+      const generated = await generateWeek(family, curriculumData, weekNumber);
+      // A flagged gap that gets filled is no longer a gap
+      const remainingFlaggedWeeks = (curriculumData.flaggedWeeks || []).filter((week) => week.weekNumber !== weekNumber);
+      curriculumData = {
+        ...curriculumData,
+        weeks: [...curriculumData.weeks, generated.data],
+        flaggedWeeks: remainingFlaggedWeeks.length > 0 ? remainingFlaggedWeeks : undefined,
+      };
+      provider = generated.provider;
+      weeksAdded++;
+    } catch (error) {
+      console.error(`Generating week ${weekNumber} failed for family ${family.id}:`, error);
+      break;
+    }
+  }
+
+  if (weeksToArchive.length === 0 && weeksAdded === 0) {
+    return null;
+  }
+
+  // The AI calls take a while; if the family regenerated (or started to), restored or imported a template
+  // meanwhile, their new version wins and this run is dropped
+  const active = await storage.getActiveCurriculum(family.id);
+  if (active?.id !== curriculum.id || getGenerationJob(family.id)?.status === "running") {
+    console.log(`Curriculum ${curriculum.id} was replaced while rolling, skipping`);
+    return null;
+  }
+
+  // Archiving only adds recaps to weeks that are already there, so it doesn't need a version of its own
+  if (weeksAdded === 0) {
+    return await storage.updateCurriculum(curriculum.id, { curriculumData });
+  }
+
+  // Keep the original start date so week dates don't shift between versions
+  return await storage.replaceActiveCurriculum({
+    familyId: family.id,
+    generatedAt: curriculum.generatedAt,
+    curriculumData,
+    trigger: "rolling",
+    provider,
+  });
+}
+
+export function startCurriculumRollingJob(
+  storage: IStorage,
+  generateWeek: CurriculumWeekGenerator,
+  onRolled?: (curriculum: Curriculum) => Promise<void> | void
+): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const curricula = await storage.getAllActiveCurricula();
+      for (const curriculum of curricula) {
+        try {
+          const rolled = await rollCurriculum(storage, curriculum, generateWeek);
+          if (rolled) {
+            await onRolled?.(rolled);
+          }
+        } catch (error) {
+          console.error(`Curriculum rolling failed for curriculum ${curriculum.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Curriculum rolling job failed:", error);
+    }
+  };
+
+  setTimeout(run, 2 * 60 * 1000);
+  return setInterval(run, ROLLING_INTERVAL_MS);
+}
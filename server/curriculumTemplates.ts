@@ -0,0 +1,80 @@
+import {
+  templateAgeBands,
+  type CurriculumTemplateData,
+  type TemplateAgeBand,
+  type TemplateWeek,
+  type WeekCurriculum,
+} from "@shared/schema";
+
+// Templates are shared between families, so nothing in them may identify the children they were planned for
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Swap children's names for "your child" in every string of a JSON value.
+// Word boundaries are checked against Unicode letters and digits, since \b only knows ASCII and misses names like "Zoë".
+function scrubNames<T>(value: T, names: string[]): T {
+  const patterns = Array.from(new Set(names))
+    .filter(name => name.trim().length > 0)
+    .map(name => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name.trim())}(?![\\p{L}\\p{N}])`, "giu"));
+  if (patterns.length === 0) {
+    return value;
+  }
+  return JSON.parse(JSON.stringify(value), (_key, field) =>
+    typeof field === "string" ? patterns.reduce((text, pattern) => text.replace(pattern, "your child"), field) : field
+  );
+}
+
+// Weeks are renumbered from 1 so a template reads the same wherever it came from in the rolling plan.
+// Names the weeks were planned under are scrubbed along with childNames, in case a child was renamed or removed.
+export function buildTemplateData(weeks: WeekCurriculum[], childNames: string[]): CurriculumTemplateData {
+  const templateWeeks: TemplateWeek[] = [...weeks]
+    .sort((a, b) => a.weekNumber - b.weekNumber)
+    .map((week, idx) => ({
+      weekNumber: idx + 1,
+      familyTheme: week.familyTheme,
+      familyActivities: week.familyActivities,
+      resources: week.resources,
+      childPlans: week.children.map(child => ({
+        age: child.age,
+        deepDives: child.deepDives,
+        dailyPlan: child.dailyPlan,
+      })),
+    }));
+  const plannedNames = weeks.flatMap(week => week.children.map(child => child.name));
+  return { weeks: scrubNames(templateWeeks, [...childNames, ...plannedNames]) };
+}
+
+function getAgeBand(age: number): TemplateAgeBand {
+  if (age <= 4) return "0-4";
+  if (age <= 8) return "5-8";
+  if (age <= 12) return "9-12";
+  return "13-18";
+}
+
+export function getTemplateAgeBands(templateData: CurriculumTemplateData): TemplateAgeBand[] {
+  const bands = new Set(templateData.weeks.flatMap(week => week.childPlans.map(plan => getAgeBand(plan.age))));
+  return templateAgeBands.filter(band => bands.has(band));
+}
+
+export function getTemplateThemes(templateData: CurriculumTemplateData): string[] {
+  return Array.from(new Set(templateData.weeks.map(week => week.familyTheme)));
+}
+
+// Condense a template week for an adaptation prompt - the confidence-boosting examples get written afresh
+export function summarizeTemplateWeekForPrompt(week: TemplateWeek): string {
+  const days = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"] as const;
+  const planLines = week.childPlans.map(plan => {
+    const dayLines = days.map(day => {
+      const activities = plan.dailyPlan[day].map(activity => typeof activity === "string" ? activity : activity.activity);
+      return `      ${day}: ${activities.join("; ") || "-"}`;
+    });
+    return `  - Planned for a child aged ${plan.age}: deep dives ${plan.deepDives.join(", ")}
+${dayLines.join("\n")}
+      Weekend: ${plan.dailyPlan.Weekend}`;
+  });
+  return `- Template week ${week.weekNumber}: "${week.familyTheme}" (family activities: ${week.familyActivities.join(", ") || "none"})
+${planLines.join("\n")}
+  Resources: ${week.resources.map(resource => resource.title).join(", ") || "none"}`;
+}
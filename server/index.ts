@@ -1,5 +1,5 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
+import { registerRoutes, startBackgroundJobs } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -77,5 +77,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startBackgroundJobs();
   });
 })();
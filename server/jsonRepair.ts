@@ -0,0 +1,107 @@
+// Best-effort repair of JSON from AI responses: code fences, leading chatter, trailing commas,
+// and output cut off part-way (max_tokens) are all common.
+
+function stripCodeFences(text: string): string {
+  let cleaned = text.trim();
+  if (cleaned.startsWith("```json")) {
+    cleaned = cleaned.slice(7);
+  }
+  if (cleaned.startsWith("```")) {
+    cleaned = cleaned.slice(3);
+  }
+  if (cleaned.endsWith("```")) {
+    cleaned = cleaned.slice(0, -3);
+  }
+  return cleaned.trim();
+}
+
+// Drop commas that sit directly before a closing bracket, ignoring anything inside strings
+function removeTrailingCommas(text: string): string {
+  let result = "";
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ",") {
+      const next = text.slice(i + 1).trimStart()[0];
+      if (next === "}" || next === "]") {
+        continue;
+      }
+    }
+    result += char;
+  }
+  return result;
+}
+
+// Cut truncated JSON back to the last complete value and close whatever is still open
+function closeTruncatedJson(text: string): string {
+  const containers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeEnd = 0;
+  let safeContainers: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      containers.push(char);
+      safeEnd = i + 1;
+      safeContainers = [...containers];
+    } else if (char === "}" || char === "]") {
+      containers.pop();
+      safeEnd = i + 1;
+      safeContainers = [...containers];
+      if (containers.length === 0) {
+        // Anything after the root value is chatter
+        return text.slice(0, i + 1);
+      }
+    } else if (char === ",") {
+      // Everything before a comma is a complete member or element
+      safeEnd = i;
+      safeContainers = [...containers];
+    }
+  }
+
+  const closers = safeContainers.reverse().map(container => container === "{" ? "}" : "]").join("");
+  return text.slice(0, safeEnd) + closers;
+}
+
+// Returns the parsed value and whether it needed repairing; throws if the text can't be salvaged
+export function parseJsonWithRepair(text: string): { value: unknown; repaired: boolean } {
+  const cleaned = stripCodeFences(text);
+  try {
+    return { value: JSON.parse(cleaned), repaired: false };
+  } catch (parseError) {
+    const start = cleaned.search(/[{[]/);
+    if (start === -1) {
+      throw parseError;
+    }
+    const repaired = removeTrailingCommas(closeTruncatedJson(cleaned.slice(start)));
+    return { value: JSON.parse(repaired), repaired: true };
+  }
+}
@@ -0,0 +1,64 @@
+import type { MeasuredNarration, Narration, NarrationGrowth } from "@shared/schema";
+
+// Narrations are compared over time for two things: how much the child says, and how wide
+// their vocabulary is. Counts are on plain word forms - no stemming - so "frog" and "frogs"
+// are two words, which is good enough to show growth without a dictionary.
+const LONG_WORD_LENGTH = 7;
+const GROWTH_SAMPLE_SIZE = 3; // Narrations averaged at each end when comparing early and recent
+
+// Lower-case words, keeping inner apostrophes and hyphens ("didn't", "caterpillar-like")
+export function tokenizeNarration(text: string): string[] {
+  return (text.toLowerCase().replace(/[‘’]/g, "'").match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) || []);
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+// Measure each narration against everything the child said before it. Expects the child's
+// narrations oldest first, as getNarrationsByChild returns them.
+export function measureNarrations(narrations: Narration[]): MeasuredNarration[] {
+  const vocabulary = new Set<string>();
+  return narrations.map((narration, index) => {
+    const words = tokenizeNarration(narration.transcript);
+    const unique = new Set(words);
+    let newWordCount = 0;
+    unique.forEach((word) => {
+      if (!vocabulary.has(word)) {
+        newWordCount++;
+        vocabulary.add(word);
+      }
+    });
+
+    return {
+      ...narration,
+      metrics: {
+        wordCount: words.length,
+        uniqueWordCount: unique.size,
+        // Every word is new in the first narration, which says nothing about growth
+        newWordCount: index === 0 ? 0 : newWordCount,
+        longWordCount: Array.from(unique).filter((word) => word.replace(/['-]/g, "").length >= LONG_WORD_LENGTH).length,
+        wordsPerMinute: narration.audioDuration && narration.audioDuration > 0
+          ? Math.round(words.length / (narration.audioDuration / 60))
+          : null,
+      },
+    };
+  });
+}
+
+export function summarizeNarrationGrowth(measured: MeasuredNarration[]): NarrationGrowth {
+  // The two ends never overlap, so with only a few narrations it's first against last
+  const sampleSize = Math.max(1, Math.min(GROWTH_SAMPLE_SIZE, Math.floor(measured.length / 2)));
+  const early = measured.slice(0, sampleSize);
+  const recent = measured.slice(-sampleSize);
+  const vocabulary = new Set(measured.flatMap((narration) => tokenizeNarration(narration.transcript)));
+  return {
+    narrationCount: measured.length,
+    vocabularySize: vocabulary.size,
+    earlyAverageWords: average(early.map((n) => n.metrics.wordCount)),
+    recentAverageWords: average(recent.map((n) => n.metrics.wordCount)),
+    earlyAverageUniqueWords: average(early.map((n) => n.metrics.uniqueWordCount)),
+    recentAverageUniqueWords: average(recent.map((n) => n.metrics.uniqueWordCount)),
+  };
+}
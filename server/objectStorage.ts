@@ -38,6 +38,14 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
+export class ObjectTooLargeError extends Error {
+  constructor(size: number, maxBytes: number) {
+    super(`Object is ${size} bytes, over the ${maxBytes} byte limit`);
+    this.name = "ObjectTooLargeError";
+    Object.setPrototypeOf(this, ObjectTooLargeError.prototype);
+  }
+}
+
 // The object storage service is used to interact with the object storage service.
 export class ObjectStorageService {
   constructor() {}
@@ -221,6 +229,43 @@ export class ObjectStorageService {
     return normalizedPath;
   }
 
+  // Makes a fresh upload private to the user who uploaded it and returns its object path.
+  // Returns null when the object already belongs to someone else.
+  async claimObjectEntity(rawPath: string, userId: string): Promise<string | null> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+    const existingPolicy = await getObjectAclPolicy(objectFile);
+    if (existingPolicy && existingPolicy.owner !== userId) {
+      return null;
+    }
+    await setObjectAclPolicy(objectFile, { owner: userId, visibility: "private" });
+    return normalizedPath;
+  }
+
+  // Reads a whole object entity into memory, e.g. so a recording can be transcribed.
+  // Uploads are unbounded, so the size is checked before anything is downloaded.
+  async readObjectEntity(objectPath: string, maxBytes: number): Promise<{ data: Buffer; contentType: string }> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    const [metadata] = await objectFile.getMetadata();
+    const size = Number(metadata.size);
+    if (!Number.isFinite(size) || size > maxBytes) {
+      throw new ObjectTooLargeError(size, maxBytes);
+    }
+    const [data] = await objectFile.download();
+    return { data, contentType: metadata.contentType || "application/octet-stream" };
+  }
+
+  // Deletes the object entity behind an upload URL or object path. URLs outside our bucket are left alone.
+  async deleteObject(rawPath: string): Promise<void> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    if (!normalizedPath.startsWith("/objects/")) {
+      return;
+    }
+
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+    await objectFile.delete();
+  }
+
   // Checks if the user can access the object entity.
   async canAccessObjectEntity({
     userId,
@@ -0,0 +1,379 @@
+import type { InsertStateRequirement, StateRequirement, ChildPortfolioYear, PortfolioEntry, JournalEntry, Narration } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { addDays, format as formatDate, parseISO, startOfWeek } from "date-fns";
+
+export interface RequiredSubject {
+  subject: string;
+  hoursPerYear: number;
+}
+
+export interface SubjectProgress {
+  subject: string;
+  requiredHours: number;
+  loggedHours: number;
+  met: boolean;
+}
+
+export interface PortfolioSummary {
+  year: ChildPortfolioYear;
+  stateRequirement: StateRequirement | null;
+  weekCount: number;
+  totalHours: number;
+  attendanceDays: number;
+  minimumHoursPerYear: number | null;
+  minimumDaysPerYear: number | null;
+  hoursMet: boolean;
+  daysMet: boolean;
+  subjects: SubjectProgress[];
+  otherSubjectHours: Record<string, number>;
+}
+
+// Starting set of jurisdictions for our co-op families. Families can add more via the API.
+// An hoursPerYear of 0 means the subject must be covered but the law sets no hour minimum.
+export const DEFAULT_STATE_REQUIREMENTS: InsertStateRequirement[] = [
+  {
+    stateCode: "NSW",
+    stateName: "New South Wales",
+    countryCode: "AU",
+    minimumDaysPerYear: null,
+    minimumHoursPerYear: null,
+    requiredSubjects: [
+      { subject: "English", hoursPerYear: 0 },
+      { subject: "Mathematics", hoursPerYear: 0 },
+      { subject: "Science and Technology", hoursPerYear: 0 },
+      { subject: "History", hoursPerYear: 0 },
+      { subject: "Geography", hoursPerYear: 0 },
+      { subject: "Creative Arts", hoursPerYear: 0 },
+      { subject: "PDHPE", hoursPerYear: 0 },
+    ],
+    portfolioRequired: true,
+    affidavitText: "I certify that the educational program recorded in this portfolio was delivered at home in accordance with the NESA syllabuses and the conditions of registration for home schooling.",
+    additionalNotes: "Registration with NESA is required. An Authorised Person reviews the educational program and records of progress at each registration visit.",
+  },
+  {
+    stateCode: "TX",
+    stateName: "Texas",
+    countryCode: "US",
+    minimumDaysPerYear: null,
+    minimumHoursPerYear: null,
+    requiredSubjects: [
+      { subject: "Reading", hoursPerYear: 0 },
+      { subject: "Spelling", hoursPerYear: 0 },
+      { subject: "Grammar", hoursPerYear: 0 },
+      { subject: "Mathematics", hoursPerYear: 0 },
+      { subject: "Good Citizenship", hoursPerYear: 0 },
+    ],
+    portfolioRequired: false,
+    affidavitText: "I certify that my child was taught in a bona fide manner from a written curriculum covering reading, spelling, grammar, mathematics and good citizenship.",
+    additionalNotes: "Homeschools operate as private schools. No attendance minimum or state reporting, but keeping records is strongly recommended.",
+  },
+];
+
+// Seed the lookup table on first use so there is always something to attach
+export async function ensureDefaultStateRequirements(storage: IStorage): Promise<void> {
+  const existing = await storage.getStateRequirements();
+  const existingCodes = new Set(existing.map((r) => r.stateCode));
+
+  for (const requirement of DEFAULT_STATE_REQUIREMENTS) {
+    if (!existingCodes.has(requirement.stateCode)) {
+      await storage.createStateRequirement(requirement);
+    }
+  }
+}
+
+// Merge state-required subjects with the family's custom subjects (custom wins on name clash)
+export function getRequiredSubjects(year: ChildPortfolioYear, requirement: StateRequirement | null): RequiredSubject[] {
+  const merged = new Map<string, RequiredSubject>();
+  const stateSubjects = (requirement?.requiredSubjects as RequiredSubject[] | null) || [];
+  const customSubjects = (year.customSubjects as RequiredSubject[] | null) || [];
+
+  for (const item of [...stateSubjects, ...customSubjects]) {
+    if (!item?.subject) continue;
+    merged.set(item.subject.toLowerCase(), { subject: item.subject, hoursPerYear: Number(item.hoursPerYear) || 0 });
+  }
+
+  return Array.from(merged.values());
+}
+
+export function summarizePortfolioYear(
+  year: ChildPortfolioYear,
+  requirement: StateRequirement | null,
+  entries: PortfolioEntry[]
+): PortfolioSummary {
+  const subjectTotals = new Map<string, { subject: string; hours: number }>();
+  let attendanceDays = 0;
+
+  for (const entry of entries) {
+    attendanceDays += entry.attendanceDays || 0;
+    const hours = (entry.subjectHours as Record<string, number>) || {};
+    for (const [subject, value] of Object.entries(hours)) {
+      const key = subject.toLowerCase();
+      const current = subjectTotals.get(key) || { subject, hours: 0 };
+      current.hours += Number(value) || 0;
+      subjectTotals.set(key, current);
+    }
+  }
+
+  const totalHours = Array.from(subjectTotals.values()).reduce((sum, s) => sum + s.hours, 0);
+
+  const subjects: SubjectProgress[] = getRequiredSubjects(year, requirement).map((required) => {
+    const loggedHours = subjectTotals.get(required.subject.toLowerCase())?.hours || 0;
+    return {
+      subject: required.subject,
+      requiredHours: required.hoursPerYear,
+      loggedHours: Math.round(loggedHours * 10) / 10,
+      // Coverage-only subjects are met as soon as any time is logged
+      met: required.hoursPerYear > 0 ? loggedHours >= required.hoursPerYear : loggedHours > 0,
+    };
+  });
+
+  const requiredKeys = new Set(subjects.map((s) => s.subject.toLowerCase()));
+  const otherSubjectHours: Record<string, number> = {};
+  for (const [key, value] of Array.from(subjectTotals.entries())) {
+    if (!requiredKeys.has(key)) {
+      otherSubjectHours[value.subject] = Math.round(value.hours * 10) / 10;
+    }
+  }
+
+  const minimumHoursPerYear = requirement?.minimumHoursPerYear ?? null;
+  const minimumDaysPerYear = requirement?.minimumDaysPerYear ?? null;
+
+  return {
+    year,
+    stateRequirement: requirement,
+    weekCount: entries.length,
+    totalHours: Math.round(totalHours * 10) / 10,
+    attendanceDays,
+    minimumHoursPerYear,
+    minimumDaysPerYear,
+    hoursMet: minimumHoursPerYear ? totalHours >= minimumHoursPerYear : true,
+    daysMet: minimumDaysPerYear ? attendanceDays >= minimumDaysPerYear : true,
+    subjects,
+    otherSubjectHours,
+  };
+}
+
+export interface JournalWeek {
+  weekStartDate: string;
+  weekEndDate: string;
+  subjectHours: Record<string, number>;
+  attendanceDays: number;
+  linkedJournalIds: string[];
+}
+
+export interface PortfolioRebuildResult {
+  portfolioYearId: string;
+  weeksWritten: number;
+  weeksCleared: number;
+  journalEntriesLinked: number;
+}
+
+// "2026" is a calendar school year (AU/NZ); "2025-2026" or "2025/26" runs July to June (US/UK)
+export function getAcademicYearRange(academicYear: string): { start: string; end: string } | null {
+  const split = academicYear.trim().match(/^(\d{4})\s*[-/]\s*(\d{2}|\d{4})$/);
+  if (split) {
+    const startYear = parseInt(split[1], 10);
+    return { start: `${startYear}-07-01`, end: `${startYear + 1}-06-30` };
+  }
+
+  const calendar = academicYear.trim().match(/^(\d{4})$/);
+  if (calendar) {
+    return { start: `${calendar[1]}-01-01`, end: `${calendar[1]}-12-31` };
+  }
+
+  return null;
+}
+
+// Group journal entries into Monday-start weeks. Minutes are split evenly across an entry's
+// subject tags; entries without minutes still count towards attendance.
+export function groupJournalEntriesByWeek(entries: JournalEntry[]): JournalWeek[] {
+  const weeks = new Map<string, { week: JournalWeek; dates: Set<string>; minutes: Record<string, number> }>();
+
+  for (const entry of entries) {
+    const weekStart = startOfWeek(parseISO(entry.entryDate), { weekStartsOn: 1 });
+    const weekStartDate = formatDate(weekStart, "yyyy-MM-dd");
+
+    let bucket = weeks.get(weekStartDate);
+    if (!bucket) {
+      bucket = {
+        week: {
+          weekStartDate,
+          weekEndDate: formatDate(addDays(weekStart, 6), "yyyy-MM-dd"),
+          subjectHours: {},
+          attendanceDays: 0,
+          linkedJournalIds: [],
+        },
+        dates: new Set(),
+        minutes: {},
+      };
+      weeks.set(weekStartDate, bucket);
+    }
+
+    bucket.dates.add(entry.entryDate);
+    bucket.week.linkedJournalIds.push(entry.id);
+
+    const subjects = (entry.subjects || []).filter((s) => s.trim());
+    if (entry.elapsedMinutes && subjects.length > 0) {
+      const share = entry.elapsedMinutes / subjects.length;
+      for (const subject of subjects) {
+        bucket.minutes[subject] = (bucket.minutes[subject] || 0) + share;
+      }
+    }
+  }
+
+  return Array.from(weeks.values())
+    .map(({ week, dates, minutes }) => {
+      week.attendanceDays = dates.size;
+      for (const [subject, total] of Object.entries(minutes)) {
+        week.subjectHours[subject] = Math.round((total / 60) * 100) / 100;
+      }
+      return week;
+    })
+    .sort((a, b) => a.weekStartDate.localeCompare(b.weekStartDate));
+}
+
+// Rewrite the journal-derived fields (hours, attendance, links) of every week in the academic year.
+// Narrations, mastery notes and highlight photos are left alone so parent edits survive a rebuild.
+export async function rebuildPortfolioYear(storage: IStorage, year: ChildPortfolioYear): Promise<PortfolioRebuildResult> {
+  const range = getAcademicYearRange(year.academicYear);
+  if (!range) {
+    throw new Error(`Unrecognised academic year "${year.academicYear}" - use "2026" or "2025-2026"`);
+  }
+
+  const journalEntries = (await storage.getJournalEntriesByChild(year.childId))
+    .filter((entry) => entry.entryDate >= range.start && entry.entryDate <= range.end);
+  const weeks = groupJournalEntriesByWeek(journalEntries);
+  const rebuiltWeeks = new Set(weeks.map((w) => w.weekStartDate));
+
+  let weeksWritten = 0;
+  for (const week of weeks) {
+    const existing = await storage.getPortfolioEntryByWeek(year.childId, week.weekStartDate);
+    if (existing && existing.portfolioYearId !== year.id) {
+      // Week already belongs to another academic year for this child
+      continue;
+    }
+
+    if (existing) {
+      await storage.updatePortfolioEntry(existing.id, {
+        subjectHours: week.subjectHours,
+        attendanceDays: week.attendanceDays,
+        linkedJournalIds: week.linkedJournalIds,
+      });
+    } else {
+      await storage.createPortfolioEntry({
+        portfolioYearId: year.id,
+        childId: year.childId,
+        familyId: year.familyId,
+        ...week,
+      });
+    }
+    weeksWritten++;
+  }
+
+  // Weeks that were built from journals which have since been deleted
+  let weeksCleared = 0;
+  for (const entry of await storage.getPortfolioEntries(year.id)) {
+    if (!rebuiltWeeks.has(entry.weekStartDate) && (entry.linkedJournalIds || []).length > 0) {
+      await storage.updatePortfolioEntry(entry.id, { subjectHours: {}, attendanceDays: 0, linkedJournalIds: [] });
+      weeksCleared++;
+    }
+  }
+
+  return {
+    portfolioYearId: year.id,
+    weeksWritten,
+    weeksCleared,
+    journalEntriesLinked: journalEntries.length,
+  };
+}
+
+// The child's portfolio year whose date range contains the given day
+export async function findPortfolioYearForDate(storage: IStorage, childId: string, date: string): Promise<ChildPortfolioYear | null> {
+  const years = await storage.getPortfolioYears(childId);
+  return years.find((year) => {
+    const range = getAcademicYearRange(year.academicYear);
+    return !!range && date >= range.start && date <= range.end;
+  }) || null;
+}
+
+// A narration as it reads in the portfolio. It's rebuilt from the narration itself, so the same
+// sample can be found again when the transcript is corrected or the narration is taken out.
+export function formatNarrationSample(narration: Narration): string {
+  return `${narration.transcript.trim()} - narrated from ${narration.reading} (${formatDate(parseISO(narration.narrationDate), "EEE d MMM")})`;
+}
+
+async function getPortfolioEntryForDate(storage: IStorage, childId: string, date: string): Promise<PortfolioEntry | null> {
+  const weekStartDate = formatDate(startOfWeek(parseISO(date), { weekStartsOn: 1 }), "yyyy-MM-dd");
+  return storage.getPortfolioEntryByWeek(childId, weekStartDate);
+}
+
+// Put a narration's sample into (or take it out of) the weekly portfolio entry for its date.
+// Pass the narration as it was before an edit so its old sample is replaced rather than duplicated.
+export async function syncNarrationSample(storage: IStorage, narration: Narration, previous?: Narration): Promise<void> {
+  const before = previous || narration;
+  const oldSample = formatNarrationSample(before);
+  const oldEntry = await getPortfolioEntryForDate(storage, before.childId, before.narrationDate);
+  if (oldEntry && (oldEntry.narrationSamples || []).includes(oldSample)) {
+    await storage.updatePortfolioEntry(oldEntry.id, {
+      narrationSamples: (oldEntry.narrationSamples || []).filter((sample) => sample !== oldSample),
+    });
+  }
+
+  // A recording still being transcribed has no words for the portfolio yet
+  if (!narration.includeInPortfolio || narration.transcriptionStatus !== "done") {
+    return;
+  }
+
+  const sample = formatNarrationSample(narration);
+  const entry = await getPortfolioEntryForDate(storage, narration.childId, narration.narrationDate);
+  if (entry) {
+    if (!(entry.narrationSamples || []).includes(sample)) {
+      await storage.updatePortfolioEntry(entry.id, { narrationSamples: [...(entry.narrationSamples || []), sample] });
+    }
+    return;
+  }
+
+  // No journal entries that week yet - start the week so the sample has somewhere to live
+  const year = await findPortfolioYearForDate(storage, narration.childId, narration.narrationDate);
+  if (!year) {
+    throw new Error(`No portfolio year covers ${narration.narrationDate}`);
+  }
+  const weekStart = startOfWeek(parseISO(narration.narrationDate), { weekStartsOn: 1 });
+  await storage.createPortfolioEntry({
+    portfolioYearId: year.id,
+    childId: year.childId,
+    familyId: year.familyId,
+    weekStartDate: formatDate(weekStart, "yyyy-MM-dd"),
+    weekEndDate: formatDate(addDays(weekStart, 6), "yyyy-MM-dd"),
+    subjectHours: {},
+    attendanceDays: 0,
+    narrationSamples: [sample],
+  });
+}
+
+const AGGREGATION_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// Background job: keep every current academic year in sync with the journal
+export function startPortfolioAggregationJob(storage: IStorage): NodeJS.Timeout {
+  const run = async () => {
+    const today = formatDate(new Date(), "yyyy-MM-dd");
+    try {
+      const years = await storage.getAllPortfolioYears();
+      for (const year of years) {
+        const range = getAcademicYearRange(year.academicYear);
+        if (!range || today < range.start || today > range.end) continue;
+
+        try {
+          await rebuildPortfolioYear(storage, year);
+        } catch (error) {
+          console.error(`Portfolio aggregation failed for year ${year.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Portfolio aggregation job failed:", error);
+    }
+  };
+
+  setTimeout(run, 60 * 1000);
+  return setInterval(run, AGGREGATION_INTERVAL_MS);
+}
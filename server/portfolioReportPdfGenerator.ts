@@ -0,0 +1,272 @@
+import PDFDocument from "pdfkit";
+import { format as formatDate, parseISO } from "date-fns";
+import type { Child, Family, ChildPortfolioYear, PortfolioEntry } from "@shared/schema";
+import type { PortfolioSummary } from "./portfolio";
+
+export interface AnnualReportData {
+  child: Child;
+  family: Family;
+  year: ChildPortfolioYear;
+  summary: PortfolioSummary;
+  entries: PortfolioEntry[];
+  coverPhoto: Buffer | null;
+  highlightPhotos: Array<{ weekStartDate: string; image: Buffer }>;
+}
+
+const DEFAULT_AFFIDAVIT =
+  "I certify that the information in this report is a true and accurate record of the home education provided during this academic year.";
+
+// guardianSignature is stored as a base64 image, with or without a data URL prefix
+function decodeSignature(signature: string | null): Buffer | null {
+  if (!signature) return null;
+  const base64 = signature.includes(",") ? signature.split(",")[1] : signature;
+  try {
+    const buffer = Buffer.from(base64, "base64");
+    return buffer.length > 0 ? buffer : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatWeek(entry: PortfolioEntry): string {
+  return `${formatDate(parseISO(entry.weekStartDate), 'd MMM')} – ${formatDate(parseISO(entry.weekEndDate), 'd MMM yyyy')}`;
+}
+
+function totalEntryHours(entry: PortfolioEntry): number {
+  const hours = (entry.subjectHours as Record<string, number>) || {};
+  return Object.values(hours).reduce((sum, value) => sum + (Number(value) || 0), 0);
+}
+
+// Annual home education report for state registration (NSW/VIC Authorised Person visits, US portfolio reviews)
+export function generateAnnualReport(doc: InstanceType<typeof PDFDocument>, data: AnnualReportData) {
+  const { child, family, year, summary, entries, coverPhoto, highlightPhotos } = data;
+  const requirement = summary.stateRequirement;
+  const leftCol = 72;
+  const contentWidth = doc.page.width - 144;
+  let yPos = 72;
+
+  const ensureSpace = (needed: number) => {
+    if (yPos + needed > doc.page.height - 72) {
+      doc.addPage();
+      yPos = 72;
+    }
+  };
+
+  const sectionHeading = (title: string) => {
+    ensureSpace(50);
+    doc.fontSize(12).font('Helvetica-Bold').text(title, leftCol, yPos);
+    yPos += 18;
+    doc.moveTo(leftCol, yPos).lineTo(doc.page.width - 72, yPos).stroke();
+    yPos += 12;
+  };
+
+  // Cover Page
+  doc.fontSize(22).font('Helvetica-Bold').text('HOME EDUCATION ANNUAL REPORT', leftCol, 110, { width: contentWidth, align: 'center' });
+  doc.moveDown(0.5);
+  doc.fontSize(16).font('Helvetica').text(child.name, { width: contentWidth, align: 'center' });
+  doc.moveDown(0.3);
+  doc.fontSize(12).text(`Academic Year ${year.academicYear}`, { width: contentWidth, align: 'center' });
+  if (requirement) {
+    doc.moveDown(0.3);
+    doc.fontSize(10).font('Helvetica-Oblique').text(`${requirement.stateName}, ${requirement.countryCode}`, { width: contentWidth, align: 'center' });
+  }
+  yPos = doc.y + 30;
+
+  if (coverPhoto) {
+    try {
+      const photoSize = 260;
+      doc.image(coverPhoto, (doc.page.width - photoSize) / 2, yPos, { fit: [photoSize, photoSize], align: 'center', valign: 'center' });
+      yPos += photoSize + 30;
+    } catch (error) {
+      console.error("Annual report cover photo could not be embedded:", error);
+    }
+  }
+
+  doc.fontSize(10).font('Helvetica-Bold').text('Home Educator:', leftCol + 80, yPos);
+  doc.font('Helvetica').text(`${family.familyName} Home Education`, leftCol + 190, yPos);
+  yPos += 18;
+  doc.font('Helvetica-Bold').text('Date of Birth:', leftCol + 80, yPos);
+  doc.font('Helvetica').text(child.birthdate ? formatDate(new Date(child.birthdate), 'd MMMM yyyy') : 'Not specified', leftCol + 190, yPos);
+  yPos += 18;
+  doc.font('Helvetica-Bold').text('Address:', leftCol + 80, yPos);
+  doc.font('Helvetica').text(family.address || 'Not specified', leftCol + 190, yPos, { width: 200 });
+  yPos += 36;
+  doc.font('Helvetica-Bold').text('Report Prepared:', leftCol + 80, yPos);
+  doc.font('Helvetica').text(formatDate(new Date(), 'd MMMM yyyy'), leftCol + 190, yPos);
+
+  // Summary of Learning
+  doc.addPage();
+  yPos = 72;
+  sectionHeading('SUMMARY OF LEARNING');
+
+  doc.fontSize(10).font('Helvetica-Bold').text('Weeks Recorded:', leftCol, yPos);
+  doc.font('Helvetica').text(`${summary.weekCount}`, leftCol + 160, yPos);
+  yPos += 18;
+
+  doc.font('Helvetica-Bold').text('Total Learning Hours:', leftCol, yPos);
+  doc.font('Helvetica').text(
+    summary.minimumHoursPerYear ? `${summary.totalHours} of ${summary.minimumHoursPerYear} required` : `${summary.totalHours}`,
+    leftCol + 160, yPos
+  );
+  yPos += 18;
+
+  doc.font('Helvetica-Bold').text('Attendance Days:', leftCol, yPos);
+  doc.font('Helvetica').text(
+    summary.minimumDaysPerYear ? `${summary.attendanceDays} of ${summary.minimumDaysPerYear} required` : `${summary.attendanceDays}`,
+    leftCol + 160, yPos
+  );
+  yPos += 30;
+
+  // Subject hours against the state's required subjects
+  if (summary.subjects.length > 0) {
+    doc.fontSize(11).font('Helvetica-Bold').text('Required Subjects', leftCol, yPos);
+    yPos += 20;
+
+    doc.fontSize(9).font('Helvetica-Bold');
+    doc.text('Subject', leftCol, yPos);
+    doc.text('Required', leftCol + 240, yPos);
+    doc.text('Logged', leftCol + 320, yPos);
+    doc.text('Status', leftCol + 390, yPos);
+    yPos += 14;
+    doc.moveTo(leftCol, yPos).lineTo(doc.page.width - 72, yPos).lineWidth(0.5).stroke();
+    yPos += 6;
+
+    summary.subjects.forEach(subject => {
+      ensureSpace(18);
+      doc.fontSize(9).font('Helvetica').text(subject.subject, leftCol, yPos, { width: 230 });
+      doc.text(subject.requiredHours > 0 ? `${subject.requiredHours} h` : 'Covered', leftCol + 240, yPos);
+      doc.text(`${subject.loggedHours} h`, leftCol + 320, yPos);
+      doc.font(subject.met ? 'Helvetica-Bold' : 'Helvetica-Oblique').text(subject.met ? 'Met' : 'In progress', leftCol + 390, yPos);
+      yPos += 16;
+    });
+    doc.lineWidth(1);
+    yPos += 14;
+  }
+
+  const otherSubjects = Object.entries(summary.otherSubjectHours);
+  if (otherSubjects.length > 0) {
+    ensureSpace(40);
+    doc.fontSize(11).font('Helvetica-Bold').text('Additional Subjects', leftCol, yPos);
+    yPos += 20;
+    otherSubjects.forEach(([subject, hours]) => {
+      ensureSpace(16);
+      doc.fontSize(9).font('Helvetica').text(subject, leftCol, yPos);
+      doc.text(`${hours} h`, leftCol + 320, yPos);
+      yPos += 15;
+    });
+    yPos += 14;
+  }
+
+  // Weekly Record
+  if (entries.length > 0) {
+    sectionHeading('WEEKLY RECORD');
+
+    doc.fontSize(9).font('Helvetica-Bold');
+    doc.text('Week', leftCol, yPos);
+    doc.text('Days', leftCol + 200, yPos);
+    doc.text('Hours', leftCol + 250, yPos);
+    doc.text('Subjects', leftCol + 310, yPos);
+    yPos += 18;
+
+    entries.forEach(entry => {
+      const subjects = Object.keys((entry.subjectHours as Record<string, number>) || {}).join(', ') || '—';
+      const rowHeight = Math.max(14, doc.heightOfString(subjects, { width: contentWidth - 310 }));
+      ensureSpace(rowHeight + 4);
+      doc.fontSize(9).font('Helvetica').text(formatWeek(entry), leftCol, yPos);
+      doc.text(`${entry.attendanceDays}`, leftCol + 200, yPos);
+      doc.text(totalEntryHours(entry).toFixed(1), leftCol + 250, yPos);
+      doc.text(subjects, leftCol + 310, yPos, { width: contentWidth - 310 });
+      yPos += rowHeight + 4;
+    });
+    yPos += 14;
+  }
+
+  // Narration Samples and Mastery Notes
+  const narratedWeeks = entries.filter(e => (e.narrationSamples || []).length > 0 || e.masteryNotes);
+  if (narratedWeeks.length > 0) {
+    sectionHeading('WORK SAMPLES & NARRATIONS');
+
+    narratedWeeks.forEach(entry => {
+      ensureSpace(40);
+      doc.fontSize(10).font('Helvetica-Bold').text(`Week of ${formatWeek(entry)}`, leftCol, yPos);
+      yPos += 16;
+
+      (entry.narrationSamples || []).forEach(narration => {
+        const height = doc.fontSize(9).font('Helvetica-Oblique').heightOfString(`"${narration}"`, { width: contentWidth - 20 });
+        ensureSpace(height + 10);
+        doc.text(`"${narration}"`, leftCol + 20, yPos, { width: contentWidth - 20 });
+        yPos += height + 8;
+      });
+
+      if (entry.masteryNotes) {
+        const notes = `Progress: ${entry.masteryNotes}`;
+        const height = doc.fontSize(9).font('Helvetica').heightOfString(notes, { width: contentWidth - 20 });
+        ensureSpace(height + 10);
+        doc.text(notes, leftCol + 20, yPos, { width: contentWidth - 20 });
+        yPos += height + 8;
+      }
+      yPos += 8;
+    });
+  }
+
+  // Highlight Photos - two per row
+  if (highlightPhotos.length > 0) {
+    sectionHeading('LEARNING HIGHLIGHTS');
+
+    const photoWidth = (contentWidth - 20) / 2;
+    const photoHeight = 170;
+    let column = 0;
+
+    highlightPhotos.forEach(photo => {
+      if (column === 0) ensureSpace(photoHeight + 24);
+      const x = leftCol + column * (photoWidth + 20);
+      try {
+        doc.image(photo.image, x, yPos, { fit: [photoWidth, photoHeight], align: 'center', valign: 'center' });
+        doc.fontSize(8).font('Helvetica-Oblique').text(
+          `Week of ${formatDate(parseISO(photo.weekStartDate), 'd MMM yyyy')}`,
+          x, yPos + photoHeight + 4, { width: photoWidth, align: 'center' }
+        );
+      } catch (error) {
+        console.error("Annual report highlight photo could not be embedded:", error);
+      }
+      column = (column + 1) % 2;
+      if (column === 0) yPos += photoHeight + 24;
+    });
+    if (column !== 0) yPos += photoHeight + 24;
+  }
+
+  // Declaration
+  const affidavit = requirement?.affidavitText || DEFAULT_AFFIDAVIT;
+  const affidavitHeight = doc.fontSize(10).font('Helvetica').heightOfString(affidavit, { width: contentWidth });
+  doc.addPage();
+  yPos = 72;
+  sectionHeading('DECLARATION');
+
+  doc.fontSize(10).font('Helvetica').text(affidavit, leftCol, yPos, { width: contentWidth });
+  yPos += affidavitHeight + 20;
+
+  if (requirement?.additionalNotes) {
+    const notesHeight = doc.fontSize(8).font('Helvetica-Oblique').heightOfString(requirement.additionalNotes, { width: contentWidth });
+    doc.text(requirement.additionalNotes, leftCol, yPos, { width: contentWidth });
+    yPos += notesHeight + 30;
+  }
+
+  const signature = decodeSignature(year.guardianSignature);
+  if (signature) {
+    try {
+      doc.image(signature, leftCol + 20, yPos, { fit: [200, 60] });
+    } catch (error) {
+      console.error("Guardian signature could not be embedded:", error);
+    }
+  }
+  yPos += 65;
+
+  doc.fontSize(10).font('Helvetica').text('_______________________________', leftCol, yPos);
+  doc.text('_______________________________', leftCol + 260, yPos);
+  yPos += 15;
+  doc.fontSize(8).text('Parent/Guardian Signature', leftCol + 40, yPos);
+  doc.text('Date', leftCol + 340, yPos);
+  if (year.signatureDate) {
+    doc.fontSize(10).text(formatDate(parseISO(year.signatureDate), 'd MMMM yyyy'), leftCol + 280, yPos - 30);
+  }
+}
@@ -1,42 +1,43 @@
 import { Router, type Request, type Response, type Express } from "express";
-import { storage } from "./storage";
-import { insertFamilySchema, insertChildSchema, insertJournalEntrySchema, insertTranscriptCourseSchema, insertCreditMappingSchema, type CurriculumData, type WeekCurriculum, curriculumDataSchema } from "@shared/schema";
+import { storage, type JournalEntryCursor } from "./storage";
+import { insertFamilySchema, insertChildSchema, insertJournalEntrySchema, insertTranscriptCourseSchema, insertCreditMappingSchema, insertStateRequirementSchema, insertChildPortfolioYearSchema, insertPortfolioEntrySchema, type CurriculumData, type WeekCurriculum, type Family, type ActivityFeedback, type EmergingInterestSignal, type TranscriptCourse, type Child, type CreditMapping, type JournalEntry, type CurriculumTrigger, type Curriculum, type CurriculumTemplateData, type TemplateWeek, curriculumDataSchema, weekCurriculumSchema, curriculumTemplateDataSchema, templateAgeBands } from "@shared/schema";
 import { z } from "zod";
-import OpenAI from "openai";
 import { setupAuth, isAuthenticated } from "./supabaseAuth";
 import { createServer } from "http";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { CollaborationService } from "./websocket";
+import { ObjectPermission } from "./objectAcl";
+import { buildSkillsMap } from "./skillsMap";
+import { isSpeechToTextConfigured, MAX_RECORDING_BYTES, transcribeAudio, type Transcription } from "./speechToText";
+import { CollaborationService, type CurriculumProgress } from "./websocket";
 import PDFDocument from "pdfkit";
-import { addDays, parseISO, format as formatDate } from "date-fns";
-import { getStandardConfig, getProgressLabel } from "@shared/standardsConfig";
-import { generateUSTranscript, generateUKTranscript, generateIBTranscript, generateANZTranscript, generateEUTranscript, generateClassicalTranscript } from "./transcriptPdfGenerators";
+import { parseISO, subDays, format as formatDate } from "date-fns";
+import { getStandardConfig, getProgressLabel, customStandardSchema } from "@shared/standardsConfig";
+import { evaluateGraduationRequirements } from "@shared/graduationRequirements";
+import { generateUSTranscript, generateUKTranscript, generateIBTranscript, generateANZTranscript, generateEUTranscript, generateClassicalTranscript, generateCourseBooklet } from "./transcriptPdfGenerators";
+import { ensureDefaultStateRequirements, summarizePortfolioYear, getAcademicYearRange, rebuildPortfolioYear, startPortfolioAggregationJob, findPortfolioYearForDate, syncNarrationSample } from "./portfolio";
+import { measureNarrations, summarizeNarrationGrowth } from "./narrations";
+import { generateAnnualReport } from "./portfolioReportPdfGenerator";
+import { getActivityTitle, getCreditMappingKey, getLinkedCredits, proposeCreditMappings, recalculateCourseCredits } from "./creditMapping";
+import { startCurriculumRollingJob } from "./curriculumRolling";
+import { completeAiTask, isAiConfigured, type AiTask } from "./aiProviders";
+import { beginGenerationJob, createWeekStreamParser, formatZodIssues, getGenerationJob, recordGeneratedWeek, salvageCurriculum, type CurriculumGenerationJob } from "./curriculumGeneration";
+import { parseJsonWithRepair } from "./jsonRepair";
+import { buildTemplateData, getTemplateAgeBands, getTemplateThemes, summarizeTemplateWeekForPrompt } from "./curriculumTemplates";
+import { formatSeasonalContext, getInitialPlanningWindow, getLocaleDefaults, getSeasonalContext, type PlanningWindow } from "./seasonalContext";
+import { getCurrentWeekNumber, getWeekDates, ROLLING_WINDOW_WEEKS } from "@shared/curriculumSchedule";
+import { diffCurricula } from "@shared/curriculumDiff";
+import { buildTranscriptSnapshot, generateVerificationCode, getVerificationStatus, getVerifyUrl, isSameTranscript, normalizeVerificationCode, signTranscriptSnapshot, stampVerification, type TranscriptSnapshot } from "./transcriptVerification";
 
 const router = Router();
 
 // Validate required API keys at startup
-if (!process.env.XAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-  console.error("FATAL: Neither XAI_API_KEY nor ANTHROPIC_API_KEY is set. Curriculum generation will fail.");
+if (!isAiConfigured("curriculum")) {
+  console.error("FATAL: No AI provider configured for curriculum generation. Set XAI_API_KEY or ANTHROPIC_API_KEY (or AI_PROVIDER=fixture for local development).");
 }
 if (!process.env.GOOGLE_MAPS_API_KEY) {
   console.error("FATAL: GOOGLE_MAPS_API_KEY is not set. Geocoding and opportunities search will fail.");
 }
 
-// Initialize xAI client (primary) - OpenAI-compatible API
-const xaiClient = process.env.XAI_API_KEY ? new OpenAI({
-  baseURL: "https://api.x.ai/v1",
-  apiKey: process.env.XAI_API_KEY,
-}) : null;
-
-// Initialize Anthropic client (fallback)
-const anthropicClient = process.env.ANTHROPIC_API_KEY ? new OpenAI({
-  baseURL: "https://api.anthropic.com/v1",
-  apiKey: process.env.ANTHROPIC_API_KEY,
-  defaultHeaders: {
-    "anthropic-version": "2023-06-01",
-  },
-}) : null;
-
 // Google Maps API key
 const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
 
@@ -225,24 +226,109 @@ function calculateDriveTime(lat1: number, lon1: number, lat2: number, lon2: numb
 }
 
 // Helper function to generate curriculum with Claude
-async function generateCurriculum(
+interface CurriculumPromptContext {
+  systemPrompt: string;
+  familyContext: string;
+  weekRequirements: string;
+  weekExample: string;
+}
+
+// What a child has actually responded to lately - recent reactions and interest signals not yet woven into a week
+interface ChildInterestContext {
+  childId: string;
+  feedback: ActivityFeedback[];
+  signals: EmergingInterestSignal[];
+}
+
+const FEEDBACK_LOOKBACK_DAYS = 28;
+const MIN_SIGNAL_PRIORITY = 50;
+const MAX_SIGNALS_PER_CHILD = 5;
+
+async function loadInterestContext(children: any[]): Promise<ChildInterestContext[]> {
+  const endDate = new Date();
+  const startDate = subDays(endDate, FEEDBACK_LOOKBACK_DAYS);
+
+  return Promise.all(children.map(async child => {
+    const feedback = await storage.getActivityFeedbackByChild(child.id, startDate, endDate);
+    const signals = (await storage.getEmergingInterests(child.id))
+      .filter(signal => !signal.scheduled && signal.priorityScore >= MIN_SIGNAL_PRIORITY)
+      .sort((a, b) => b.priorityScore - a.priorityScore)
+      .slice(0, MAX_SIGNALS_PER_CHILD);
+    return { childId: child.id, feedback, signals };
+  }));
+}
+
+// Per-child pedagogy overrides, only when the family has switched them on. Children with no
+// override (or an empty one) are left out and follow the family approach.
+async function loadChildApproaches(family: Family, children: any[]): Promise<Map<string, string[]>> {
+  if (!family.usePerChildApproaches || children.length === 0) {
+    return new Map();
+  }
+  const overrides = await storage.getChildApproaches(children.map(child => child.id));
+  return new Map(overrides
+    .filter(override => override.approaches.length > 0)
+    .map(override => [override.childId, override.approaches] as [string, string[]]));
+}
+
+function describeRecentFeedback(feedback: ActivityFeedback[]): string | null {
+  if (feedback.length === 0) return null;
+
+  const count = (reaction: string) => feedback.filter(f => f.reaction === reaction).length;
+  const notes = (reaction: string) => feedback
+    .filter(f => f.reaction === reaction && f.notes)
+    .slice(0, 3)
+    .map(f => `"${f.notes}"`);
+  const topObsession = Math.max(0, ...feedback.map(f => f.obsessionScore || 0));
+
+  const parts = [`${count("loved")} loved, ${count("okay")} okay, ${count("not_today")} not today`];
+  if (notes("loved").length > 0) parts.push(`loved: ${notes("loved").join(", ")}`);
+  if (notes("not_today").length > 0) parts.push(`not today: ${notes("not_today").join(", ")}`);
+  if (topObsession > 0) parts.push(`highest obsession score ${topObsession}`);
+  return parts.join("; ");
+}
+
+// Keep only links to signals we actually offered for that child
+function applyInterestSignalLinks(weeks: WeekCurriculum[], interestContext: ChildInterestContext[]): WeekCurriculum[] {
+  return weeks.map(week => ({
+    ...week,
+    children: week.children.map(child => {
+      if (!child.inspiredBy) return child;
+      const offered = interestContext.find(c => c.childId === child.childId)?.signals || [];
+      const inspiredBy = child.inspiredBy.filter(link =>
+        offered.some(signal => signal.id === link.signalId) && child.deepDives.includes(link.deepDive)
+      );
+      return { ...child, inspiredBy };
+    }),
+  }));
+}
+
+// Called once the weeks are saved, so a failed generation leaves its signals free for the next attempt
+async function markInterestSignalsScheduled(weeks: WeekCurriculum[]): Promise<void> {
+  const signalIds = new Set(weeks.flatMap(week => week.children.flatMap(child => (child.inspiredBy || []).map(link => link.signalId))));
+  for (const signalId of Array.from(signalIds)) {
+    await storage.updateEmergingInterest(signalId, { scheduled: true });
+  }
+}
+
+function getAgeInYears(birthdate: string | Date, today: Date = new Date()): number {
+  return Math.floor((today.getTime() - new Date(birthdate).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+}
+
+// Shared by full and single-week generation so both prompts describe the family the same way
+function buildCurriculumPromptContext(
   family: any,
   children: any[],
   localOpps: any[],
-  familyApproaches?: string[] | null
-): Promise<CurriculumData> {
+  familyApproaches: string[] | null | undefined,
+  interestContext: ChildInterestContext[],
+  childApproaches: Map<string, string[]>,
+  planningWindow: PlanningWindow
+): CurriculumPromptContext {
   const today = new Date();
-  const seasonMap: Record<string, string> = {
-    US: today.getMonth() >= 2 && today.getMonth() <= 4 ? "Spring" : today.getMonth() >= 5 && today.getMonth() <= 7 ? "Summer" : today.getMonth() >= 8 && today.getMonth() <= 10 ? "Fall" : "Winter",
-    AU: today.getMonth() >= 8 && today.getMonth() <= 10 ? "Spring" : today.getMonth() >= 11 || today.getMonth() <= 1 ? "Summer" : today.getMonth() >= 2 && today.getMonth() <= 4 ? "Fall" : "Winter",
-    NZ: today.getMonth() >= 8 && today.getMonth() <= 10 ? "Spring" : today.getMonth() >= 11 || today.getMonth() <= 1 ? "Summer" : today.getMonth() >= 2 && today.getMonth() <= 4 ? "Fall" : "Winter",
-  };
-
-  const season = seasonMap[family.country] || "Spring";
+  const seasonalContext = formatSeasonalContext(getSeasonalContext(family, planningWindow));
 
   const childrenInfo = children.map(child => {
-    const birthDate = new Date(child.birthdate);
-    const age = Math.floor((today.getTime() - birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+    const age = getAgeInYears(child.birthdate, today);
     
     // Collect learning needs profiles
     const learningNeeds: string[] = [];
@@ -274,12 +360,17 @@ async function generateCurriculum(
       learningNeeds.push(`Perfectionism - needs growth mindset language, "good enough" practice, low-stakes attempts`);
     }
     
+    const childInterests = interestContext.find(c => c.childId === child.id);
+
     return {
       name: child.name,
       age,
+      approaches: childApproaches.get(child.id) || null,
       interests: child.interests || [],
       learningStyle: child.learningStyle || "Mixed",
       learningNeeds: learningNeeds.length > 0 ? learningNeeds : null,
+      recentFeedback: describeRecentFeedback(childInterests?.feedback || []),
+      emergingInterests: childInterests?.signals || [],
     };
   });
   
@@ -320,18 +411,31 @@ async function generateCurriculum(
     "steam": { 
       name: "STEAM/STEM", 
       emphasis: "PRIORITIZE hands-on science experiments, engineering challenges, technology integration (coding, robotics), arts integration, and mathematical thinking. Keep it inquiry-driven, not worksheet-driven." 
+    },
+    "classical": { 
+      name: "Classical", 
+      emphasis: "PRIORITIZE the trivium stage that fits the child's age (grammar: memory work, chants, copywork; logic: Socratic discussion, argument, cause and effect; rhetoric: essays, debate, original analysis), great books, chronological history, and Latin roots." 
+    },
+    "eclectic": { 
+      name: "Eclectic", 
+      emphasis: "Mix and match methods pragmatically - pick whichever approach best suits each subject and child, and keep what's working." 
     }
   };
 
-  // Handle multiple learning approaches
-  const selectedApproaches = (familyApproaches && familyApproaches.length > 0) 
-    ? familyApproaches.map(approach => approachMap[approach] || approachMap["perfect-blend"])
-    : [approachMap["perfect-blend"]];
+  // Handle multiple learning approaches; indent lines up continuation lines under their bullet
+  const describeApproaches = (approaches: string[] | null | undefined, indent: string) => {
+    const selectedApproaches = (approaches && approaches.length > 0) 
+      ? approaches.map(approach => approachMap[approach] || approachMap["perfect-blend"])
+      : [approachMap["perfect-blend"]];
+
+    return selectedApproaches.length === 1
+      ? `${selectedApproaches[0].name}\n${indent}→ ${selectedApproaches[0].emphasis}`
+      : `Blended Approach (${selectedApproaches.map(a => a.name).join(", ")})\n${indent}→ Blend these approaches seamlessly:\n${selectedApproaches.map(a => `${indent}  • ${a.name}: ${a.emphasis}`).join("\n")}`;
+  };
 
   // Build approach description for the prompt
-  const approachDescription = selectedApproaches.length === 1
-    ? `${selectedApproaches[0].name}\n  → ${selectedApproaches[0].emphasis}`
-    : `Blended Approach (${selectedApproaches.map(a => a.name).join(", ")})\n  → Blend these approaches seamlessly:\n${selectedApproaches.map(a => `    • ${a.name}: ${a.emphasis}`).join("\n")}`;
+  const approachDescription = describeApproaches(familyApproaches, "  ");
+  const hasChildApproaches = childrenInfo.some(child => child.approaches);
 
   const opportunitiesInfo = localOpps.slice(0, 20).map(opp => ({
     name: opp.name,
@@ -381,30 +485,37 @@ When generating the 3 Confidence-Boosting Examples, explicitly draw from the ped
 
 CRITICAL: Return ONLY valid JSON. No markdown, no code blocks, no explanations.`;
 
-  const userPrompt = `Generate a personalized 12-week rolling curriculum for the ${family.familyName}.
-
-FAMILY CONTEXT:
+  const familyContext = `FAMILY CONTEXT:
 - Location: ${family.city}, ${family.state}, ${family.country}
-- Season: ${season}
+${seasonalContext}
 - Travel Radius: ${family.travelRadiusMinutes} minutes
 - Flex for High Interest: ${family.flexForHighInterest ? "Yes" : "No"}
-- Learning Approach: ${approachDescription}
+- Learning Approach: ${approachDescription}${hasChildApproaches ? "\n  (Family default - children with their own learning approach below follow theirs instead)" : ""}
 
 CHILDREN:
 ${childrenInfo.map(child => {
   let childDesc = `- ${child.name} (age ${child.age}): Interests: ${child.interests.join(", ")}; Learning style: ${child.learningStyle}`;
+  if (child.approaches) {
+    childDesc += `\n  Own Learning Approach: ${describeApproaches(child.approaches, "    ")}`;
+  }
   if (child.learningNeeds) {
     childDesc += `\n  Learning Needs: ${child.learningNeeds.join("; ")}`;
   }
+  if (child.recentFeedback) {
+    childDesc += `\n  Recent Reactions (last ${FEEDBACK_LOOKBACK_DAYS} days): ${child.recentFeedback}`;
+  }
+  if (child.emergingInterests.length > 0) {
+    childDesc += `\n  Emerging Interests (not yet planned):\n${child.emergingInterests.map(signal =>
+      `    • [${signal.id}] ${signal.title}${signal.description ? ` - ${signal.description}` : ""} (priority ${signal.priorityScore})`
+    ).join("\n")}`;
+  }
   return childDesc;
 }).join("\n")}
 
 LOCAL OPPORTUNITIES (sample):
-${opportunitiesInfo.slice(0, 10).map(opp => `- ${opp.name} at ${opp.address}`).join("\n")}
+${opportunitiesInfo.slice(0, 10).map(opp => `- ${opp.name} at ${opp.address}`).join("\n")}`;
 
-REQUIREMENTS:
-1. Create exactly 12 weeks of curriculum
-2. Each week has a family theme that links all children
+  const weekRequirements = `2. Each week has a family theme that links all children
 3. For each child, provide:
    - 2-3 "deep dives" (high-interest topics to explore deeply)
    - Daily plan (Monday-Friday with specific activities, Weekend summary)
@@ -428,12 +539,15 @@ REQUIREMENTS:
    - LOW-COST under $15 (3-4): Thriftbooks, BookOutlet, Etsy printables, TeachersPayTeachers  
    - RECYCLED/HOUSEHOLD/NATURE (3-4): DIY projects using cardboard, bottles, leaves, kitchen items, household objects
    PRIORITIZE recycled/household resources - huge selling point! Keep descriptions concise.
-
-Return JSON in this EXACT structure (no markdown, no code blocks):
-{
-  "generatedAt": "2025-11-19T08:00:00Z",
-  "weeks": [
-    {
+6. ${family.flexForHighInterest
+  ? "FLEX FOR HIGH INTEREST is on: when a child has loved reactions, high obsession scores or emerging interests, give those topics extra deep-dive time, even if it displaces other planned topics for that child"
+  : "FLEX FOR HIGH INTEREST is off: keep each child's planned balance of topics, weaving strong interests into existing activities rather than replacing them"}
+   - Ease off activity styles a child keeps marking "not today"
+7. When a deep dive takes up one of a child's Emerging Interests, record it in that child's "inspiredBy" as { "signalId": "<the id in square brackets>", "deepDive": "<the exact deep dive text>" }. Use [] when none apply.
+8. LOCAL CONTEXT: fit every week to its season where the family lives (not the opposite hemisphere's), lighten days that fall on public holidays and lean into them as learning, and treat school holidays as a chance for outings with friends. Write with the spelling, units and currency above.${hasChildApproaches ? `
+9. OWN LEARNING APPROACHES: a child with their own learning approach gets daily plans, deep dives and confidence-boosting examples styled in that approach (e.g. a Montessori child's plan looks nothing like a Classical child's). Siblings still share the week's family theme and family activities.` : ""}`;
+
+  const weekExample = `    {
       "weekNumber": 1,
       "familyTheme": "Discovering Our Local Ecosystem",
       "familyActivities": ["Nature walk", "Bird watching", "Stream study"],
@@ -492,7 +606,8 @@ Return JSON in this EXACT structure (no markdown, no code blocks):
             "Nature Observation": "Developing",
             "Scientific Drawing": "Exposure",
             "Ecosystem Understanding": "Strong"
-          }
+          },
+          "inspiredBy": []
         }
       ],
       "resources": [
@@ -536,123 +651,395 @@ Return JSON in this EXACT structure (no markdown, no code blocks):
           "category": "low-cost"
         }
       ]
-    }
-  ]
-}`;
+    }`;
+
+  return { systemPrompt, familyContext, weekRequirements, weekExample };
+}
+
+// A generated curriculum (or week) along with the AI model that produced it
+interface CurriculumGeneration<T> {
+  data: T;
+  provider: string;
+}
 
-  // Try xAI Grok-4 first, then fall back to Anthropic Claude
-  let completion;
-  let usedProvider = "unknown";
+// Run a curriculum prompt through the task's AI providers. Returns the parsed (unvalidated) JSON body.
+// createTextHandler streams each provider attempt's output, so callers can act on partial weeks.
+async function requestCurriculumJson(
+  task: AiTask,
+  systemPrompt: string,
+  userPrompt: string,
+  createTextHandler?: () => (text: string) => void
+): Promise<CurriculumGeneration<unknown>> {
+  const { text: responseText, provider: usedProvider } = await completeAiTask(task, {
+    maxTokens: 8000,
+    temperature: 0.7,
+    messages: [
+      {
+        role: "system",
+        content: systemPrompt,
+      },
+      {
+        role: "user",
+        content: userPrompt,
+      },
+    ],
+    json: true,
+    createTextHandler,
+  });
+  console.log(`Curriculum generated successfully using ${usedProvider}`);
   
+  // Parse JSON, repairing code fences, trailing commas and truncated output
+  let parsedData;
   try {
-    if (xaiClient) {
-      console.log("Using xAI Grok-4 for curriculum generation...");
-      completion = await xaiClient.chat.completions.create({
-        model: "grok-4",
-        max_tokens: 8000,
-        temperature: 0.7,
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
-      });
-      usedProvider = "xAI Grok-4";
-    } else if (anthropicClient) {
-      console.log("Using Anthropic Claude 3.5 Sonnet for curriculum generation...");
-      completion = await anthropicClient.chat.completions.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 8000,
-        temperature: 0.7,
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
-      });
-      usedProvider = "Anthropic Claude 3.5 Sonnet";
-    } else {
-      throw new Error("No AI provider configured. Please set XAI_API_KEY or ANTHROPIC_API_KEY.");
+    const { value, repaired } = parseJsonWithRepair(responseText);
+    if (repaired) {
+      console.warn(`Repaired malformed JSON from ${usedProvider}`);
     }
-    console.log(`Curriculum generated successfully using ${usedProvider}`);
-  } catch (primaryError: any) {
-    console.error(`Primary AI provider (${usedProvider}) failed:`, primaryError.message);
-    
-    // Try fallback if primary failed
-    if (xaiClient && anthropicClient && usedProvider === "xAI Grok-4") {
-      console.log("Falling back to Anthropic Claude 3.5 Sonnet...");
-      try {
-        completion = await anthropicClient.chat.completions.create({
-          model: "claude-3-5-sonnet-20241022",
-          max_tokens: 8000,
-          temperature: 0.7,
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt,
-            },
-            {
-              role: "user",
-              content: userPrompt,
-            },
-          ],
-        });
-        usedProvider = "Anthropic Claude 3.5 Sonnet (fallback)";
-        console.log("Fallback to Anthropic successful");
-      } catch (fallbackError: any) {
-        console.error("Fallback to Anthropic also failed:", fallbackError.message);
-        throw primaryError; // Throw original error
-      }
+    parsedData = value;
+  } catch (parseError: any) {
+    console.error("Failed to parse AI curriculum response:", parseError.message);
+    console.error("Response text:", responseText.substring(0, 500));
+    throw new Error("AI generated invalid JSON. Please try regenerating the curriculum.");
+  }
+
+  return { data: parsedData, provider: usedProvider };
+}
+
+async function generateCurriculum(
+  family: any,
+  children: any[],
+  localOpps: any[],
+  familyApproaches?: string[] | null,
+  onWeek?: (week: WeekCurriculum) => void,
+  template?: CurriculumTemplateData
+): Promise<CurriculumGeneration<CurriculumData>> {
+  const interestContext = await loadInterestContext(children);
+  const childApproaches = await loadChildApproaches(family, children);
+  const planningWindow = getInitialPlanningWindow(family, ROLLING_WINDOW_WEEKS);
+  const promptContext = buildCurriculumPromptContext(family, children, localOpps, familyApproaches, interestContext, childApproaches, planningWindow);
+  const { systemPrompt, familyContext, weekRequirements, weekExample } = promptContext;
+
+  const templateWeeks = template?.weeks.slice(0, ROLLING_WINDOW_WEEKS) || [];
+  const userPrompt = `${template
+    ? `Adapt the curriculum template below into a personalized 12-week rolling curriculum for the ${family.familyName}.`
+    : `Generate a personalized 12-week rolling curriculum for the ${family.familyName}.`}
+
+${familyContext}
+${template ? `
+TEMPLATE TO ADAPT (shared by another family - keep its themes, in order, and the spirit of its activities, but fit every plan to these children's ages, learning needs and approaches${templateWeeks.length < ROLLING_WINDOW_WEEKS ? `. It has ${templateWeeks.length} weeks, so carry on after it with new weeks in the same spirit` : ""}):
+${templateWeeks.map(summarizeTemplateWeekForPrompt).join("\n")}
+` : ""}
+REQUIREMENTS:
+1. Create exactly 12 weeks of curriculum
+${weekRequirements}
+
+Return JSON in this EXACT structure (no markdown, no code blocks):
+{
+  "generatedAt": "2025-11-19T08:00:00Z",
+  "weeks": [
+${weekExample}
+  ]
+}`;
+
+  // Hand each week over as soon as it has streamed in and validates on its own
+  const createWeekParser = onWeek ? () => createWeekStreamParser((rawWeek) => {
+    const weekResult = weekCurriculumSchema.safeParse(rawWeek);
+    if (weekResult.success) {
+      onWeek(weekResult.data);
     } else {
-      throw primaryError;
+      console.warn("Streamed curriculum week failed validation, it will be repaired once the response is complete");
     }
+  }).push : undefined;
+
+  const { data: parsedData, provider } = await requestCurriculumJson("curriculum", systemPrompt, userPrompt, createWeekParser);
+
+  // Validate with Zod schema; if that fails, keep the good weeks and repair the rest
+  const validationResult = curriculumDataSchema.safeParse(parsedData);
+  let curriculumData: CurriculumData;
+
+  if (validationResult.success) {
+    curriculumData = validationResult.data;
+  } else {
+    console.error("Curriculum validation failed, salvaging valid weeks:", formatZodIssues(validationResult.error).slice(0, 10));
+    curriculumData = await salvageCurriculum(parsedData, ROLLING_WINDOW_WEEKS, {
+      repairWeek: (rawWeek, weekNumber, issues) => repairCurriculumWeek(promptContext, rawWeek, weekNumber, issues),
+      planWeek: async (partialCurriculum, weekNumber) =>
+        (await generateCurriculumWeek(family, children, localOpps, familyApproaches, partialCurriculum, weekNumber, templateWeeks.find(week => week.weekNumber === weekNumber))).data,
+    }, onWeek);
   }
 
-  const responseText = completion.choices[0]?.message?.content || "";
-  
-  // Remove markdown code blocks if present
-  let cleanedResponse = responseText.trim();
-  if (cleanedResponse.startsWith("```json")) {
-    cleanedResponse = cleanedResponse.slice(7);
+  // Week dates are anchored to generatedAt, so the server stamps it - never the model's guess
+  const weeks = applyInterestSignalLinks(curriculumData.weeks, interestContext);
+  return { data: { ...curriculumData, generatedAt: new Date().toISOString(), weeks }, provider };
+}
+
+// Ask the model to fix one week that failed validation, quoting the validation errors back to it
+async function repairCurriculumWeek(
+  promptContext: CurriculumPromptContext,
+  rawWeek: unknown,
+  weekNumber: number,
+  issues: string[]
+): Promise<WeekCurriculum> {
+  const userPrompt = `Week ${weekNumber} of a generated curriculum failed validation. Fix it so it matches the required structure, keeping its theme and activities wherever they are usable.
+
+${promptContext.familyContext}
+
+VALIDATION ERRORS:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+WEEK AS GENERATED:
+${JSON.stringify(rawWeek, null, 2)}
+
+REQUIREMENTS:
+1. Return exactly ONE week of curriculum, with "weekNumber": ${weekNumber}
+${promptContext.weekRequirements}
+
+Return a single week object in this EXACT structure (no markdown, no code blocks):
+${promptContext.weekExample}`;
+
+  const { data: parsedData } = await requestCurriculumJson("curriculumWeek", promptContext.systemPrompt, userPrompt);
+
+  const validationResult = weekCurriculumSchema.safeParse(parsedData);
+  if (!validationResult.success) {
+    throw new Error(`Repaired week still doesn't match expected structure: ${formatZodIssues(validationResult.error).join("; ")}`);
   }
-  if (cleanedResponse.startsWith("```")) {
-    cleanedResponse = cleanedResponse.slice(3);
+  return { ...validationResult.data, weekNumber };
+}
+
+// Condense a neighbouring week so a regenerated week can continue its threads without repeating it
+function summarizeWeekForPrompt(week: WeekCurriculum): string {
+  const childLines = week.children.map(child => {
+    const mastery = Object.entries(child.masteryUpdates).map(([skill, level]) => `${skill}: ${level}`).join(", ");
+    return `  - ${child.name}: deep dives ${child.deepDives.join(", ")}${mastery ? `; mastery ${mastery}` : ""}`;
+  });
+  return `- Week ${week.weekNumber}: "${week.familyTheme}" (family activities: ${week.familyActivities.join(", ") || "none"})
+${childLines.join("\n")}`;
+}
+
+function summarizeWeekRecapForPrompt(week: WeekCurriculum): string {
+  const recap = week.recap!;
+  const highlights = recap.highlights.length > 0 ? ` Highlights: ${recap.highlights.join(" | ")}` : "";
+  return `- Week ${week.weekNumber} ("${week.familyTheme}"): ${recap.activitiesCompleted} activities ticked off over ${recap.daysWithActivity} days, ${recap.journalEntries} journal entries.${highlights}`;
+}
+
+// Regenerate one week of an existing curriculum, or plan the next one when the rolling job extends it.
+// Uses the weeks either side, and recaps of recently finished weeks, as context. With a template week,
+// the new week adapts it instead of starting from scratch.
+async function generateCurriculumWeek(
+  family: any,
+  children: any[],
+  localOpps: any[],
+  familyApproaches: string[] | null | undefined,
+  curriculum: CurriculumData,
+  weekNumber: number,
+  templateWeek?: TemplateWeek
+): Promise<CurriculumGeneration<WeekCurriculum>> {
+  const interestContext = await loadInterestContext(children);
+  const childApproaches = await loadChildApproaches(family, children);
+  const planningWindow = { startDate: getWeekDates(curriculum.generatedAt, weekNumber).startDate, firstWeek: weekNumber, weekCount: 1 };
+  const promptContext = buildCurriculumPromptContext(family, children, localOpps, familyApproaches, interestContext, childApproaches, planningWindow);
+  const { systemPrompt, familyContext, weekRequirements, weekExample } = promptContext;
+
+  const currentWeek = curriculum.weeks.find(w => w.weekNumber === weekNumber);
+  const adjacentWeeks = curriculum.weeks.filter(w => w.weekNumber === weekNumber - 1 || w.weekNumber === weekNumber + 1);
+  const recentRecaps = curriculum.weeks.filter(w => w.recap && w.weekNumber < weekNumber).slice(-3);
+
+  const userPrompt = `${templateWeek
+    ? `Adapt the template week below into week ${weekNumber} of the ${family.familyName}'s rolling curriculum. Every other week stays as it is.`
+    : currentWeek
+    ? `Regenerate week ${weekNumber} of the ${family.familyName}'s rolling curriculum. Every other week stays as it is.`
+    : `Plan week ${weekNumber} of the ${family.familyName}'s rolling curriculum, continuing on from the weeks already planned.`}
+
+${familyContext}
+
+SURROUNDING WEEKS (build on the week before, lead into the week after, and don't repeat their themes):
+${adjacentWeeks.map(summarizeWeekForPrompt).join("\n") || "- None"}
+${recentRecaps.length > 0 ? `\nWHAT ACTUALLY HAPPENED IN RECENT WEEKS (lean into what the children engaged with; gently revisit what didn't get done):\n${recentRecaps.map(summarizeWeekRecapForPrompt).join("\n")}\n` : ""}${templateWeek
+  ? `\nTEMPLATE WEEK TO ADAPT (shared by another family - keep its theme and the spirit of its activities, but fit them to these children's ages, learning needs and approaches):\n${summarizeTemplateWeekForPrompt(templateWeek)}\n`
+  : currentWeek ? `\nThe family wants something different from the current week ${weekNumber} ("${currentWeek.familyTheme}"). Choose a new theme and fresh activities.\n` : ""}
+REQUIREMENTS:
+1. Create exactly ONE week of curriculum, with "weekNumber": ${weekNumber}
+${weekRequirements}
+
+Return a single week object in this EXACT structure (no markdown, no code blocks):
+${weekExample}`;
+
+  const { data: parsedData, provider } = await requestCurriculumJson("curriculumWeek", systemPrompt, userPrompt);
+
+  // Validate with Zod schema, giving the model one chance to fix what it got wrong
+  const validationResult = weekCurriculumSchema.safeParse(parsedData);
+  let generatedWeek: WeekCurriculum;
+
+  if (validationResult.success) {
+    generatedWeek = validationResult.data;
+  } else {
+    const issues = formatZodIssues(validationResult.error);
+    console.error("Week validation failed, asking for a repair:", issues.slice(0, 10));
+    generatedWeek = await repairCurriculumWeek(promptContext, parsedData, weekNumber, issues);
   }
-  if (cleanedResponse.endsWith("```")) {
-    cleanedResponse = cleanedResponse.slice(0, -3);
+
+  // The slot being filled is authoritative, whatever number the model put on it
+  const [week] = applyInterestSignalLinks([{ ...generatedWeek, weekNumber }], interestContext);
+  return { data: week, provider };
+}
+
+// Used by the rolling job, which only has the family to go on
+async function generateNextCurriculumWeek(family: Family, curriculum: CurriculumData, weekNumber: number): Promise<CurriculumGeneration<WeekCurriculum>> {
+  const children = await storage.getChildren(family.id);
+  const opportunities = await storage.getOpportunities(family.id);
+  const familyApproach = await storage.getFamilyApproach(family.id);
+  return generateCurriculumWeek(family, children, opportunities, familyApproach?.approaches, curriculum, weekNumber);
+}
+
+// Map an AI provider failure onto the status code and message shown to the family
+function describeCurriculumGenerationError(error: any): { status: number; message: string; code: string } {
+  // Check for OpenRouter credit exhaustion (402 Payment Required)
+  if (error.status === 402 || error.message?.includes("credit") || error.message?.includes("max_tokens")) {
+    return {
+      status: 402,
+      message: "Curriculum generation requires additional OpenRouter credits. Please contact support or add credits at openrouter.ai",
+      code: "INSUFFICIENT_CREDITS",
+    };
   }
-  cleanedResponse = cleanedResponse.trim();
 
-  // Parse JSON
-  let parsedData;
-  try {
-    parsedData = JSON.parse(cleanedResponse);
-  } catch (parseError: any) {
-    console.error("Failed to parse AI curriculum response:", parseError.message);
-    console.error("Response text:", cleanedResponse.substring(0, 500));
-    throw new Error("AI generated invalid JSON. Please try regenerating the curriculum.");
+  // Check for other API authentication issues
+  if (error.status === 401 || error.message?.includes("API key")) {
+    return {
+      status: 502,
+      message: "AI service configuration error. Please contact support.",
+      code: "API_CONFIG_ERROR",
+    };
   }
 
-  // Validate with Zod schema
-  const validationResult = curriculumDataSchema.safeParse(parsedData);
-  
-  if (!validationResult.success) {
-    console.error("Curriculum validation failed:", validationResult.error.format());
-    console.error("Parsed data structure:", JSON.stringify(parsedData, null, 2).substring(0, 1000));
-    throw new Error(`AI generated curriculum doesn't match expected structure: ${validationResult.error.message}`);
+  // Generic error for other cases
+  return {
+    status: 502,
+    message: error.message || "Failed to generate curriculum",
+    code: "GENERATION_ERROR",
+  };
+}
+
+// Generate a full curriculum in the background, pushing each week to the family's dashboards as it streams in.
+// Returns null if the family already has a generation running.
+function startCurriculumGeneration(
+  family: Family,
+  children: Child[],
+  opportunities: any[],
+  familyApproaches: string[] | null | undefined,
+  trigger: CurriculumTrigger,
+  template?: CurriculumTemplateData
+): CurriculumGenerationJob | null {
+  const job = beginGenerationJob(family.id, trigger, ROLLING_WINDOW_WEEKS);
+  if (!job) {
+    return null;
   }
 
-  return validationResult.data;
+  const broadcast = (progress: CurriculumProgress) => {
+    getCollaborationService()?.broadcastCurriculumProgress(family.id, progress);
+  };
+  broadcast({ status: "started", totalWeeks: job.totalWeeks });
+
+  const run = async () => {
+    try {
+      const { data: curriculumData, provider } = await generateCurriculum(family, children, opportunities, familyApproaches, (week) => {
+        recordGeneratedWeek(job, week);
+        broadcast({ status: "week", totalWeeks: job.totalWeeks, weekNumber: week.weekNumber, week });
+      }, template);
+
+      // Old curricula remain as earlier versions
+      const newCurriculum = await storage.replaceActiveCurriculum({
+        familyId: family.id,
+        generatedAt: new Date(),
+        curriculumData,
+        trigger,
+        provider,
+      });
+      await markInterestSignalsScheduled(curriculumData.weeks);
+
+      job.status = "completed";
+      job.curriculumId = newCurriculum.id;
+      broadcast({ status: "completed", totalWeeks: job.totalWeeks, curriculumId: newCurriculum.id });
+    } catch (error: any) {
+      console.error(`Curriculum generation failed for family ${family.id}:`, error);
+      const { message, code } = describeCurriculumGenerationError(error);
+      job.status = "failed";
+      job.error = { message, code };
+      broadcast({ status: "failed", totalWeeks: job.totalWeeks, error: job.error });
+    }
+  };
+
+  run();
+  return job;
+}
+
+// Journal subject tags are free text ("Reading", "Maths"); map them onto transcript subject buckets
+const COURSE_SUBJECT_ALIASES: Record<string, string[]> = {
+  english: ["english", "reading", "writing", "literature", "language arts", "grammar", "spelling", "poetry"],
+  math: ["math", "maths", "mathematics", "algebra", "geometry", "statistics"],
+  science: ["science", "biology", "chemistry", "physics", "nature study", "earth science"],
+  history: ["history", "social studies", "geography", "civics", "humanities"],
+};
+
+function journalMatchesCourseSubject(journalSubjects: string[] | null, courseSubject: string): boolean {
+  const aliases = COURSE_SUBJECT_ALIASES[courseSubject.toLowerCase()] || [courseSubject.toLowerCase()];
+  return (journalSubjects || []).some(tag => aliases.includes(tag.trim().toLowerCase()));
+}
+
+// Draft a college-board style course description from accepted credits and subject-tagged journal entries
+async function draftCourseDescription(
+  course: TranscriptCourse,
+  child: Child,
+  mappings: CreditMapping[],
+  journalEntries: JournalEntry[]
+): Promise<string> {
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
+  const progressLabels = getProgressLabel(child.educationStandard, child.standardMetadata);
+
+  const activityLines = mappings
+    .map(m => `- Week ${m.weekNumber}: ${m.activityTitle} (${m.creditAmount} ${progressLabels.creditUnit})`)
+    .join("\n");
+  const journalLines = journalEntries
+    .slice(0, 15)
+    .map(e => {
+      const summary = (e.aiAnalysis as { summary?: string } | null)?.summary || e.content.slice(0, 300);
+      return `- ${e.entryDate}: ${summary}`;
+    })
+    .join("\n");
+
+  const systemPrompt = `You write course descriptions for home-educated students' official transcripts.
+The student follows the ${standardConfig.name} framework (${standardConfig.creditLabel}; subject areas: ${standardConfig.subjects.join(", ")}).
+Write in the formal, third-person register admissions officers expect: 80-120 words, one paragraph, no headings or bullet points.
+Describe the scope of study, key topics and texts, the methods used (projects, field work, labs, narration, etc.) and how learning was assessed.
+Only describe work supported by the evidence provided. Respond with the description text only.`;
+
+  const userPrompt = `Course: ${course.courseTitle}
+Subject: ${course.subject}
+Level: ${course.gradeLevel}
+Credits: ${course.credits} ${progressLabels.creditUnit}
+${course.startDate ? `Dates: ${course.startDate} to ${course.endDate || "present"}` : ""}
+
+Completed curriculum activities credited to this course:
+${activityLines || "- None recorded yet"}
+
+Journal entries tagged with this subject:
+${journalLines || "- None recorded yet"}
+
+${course.courseDescription ? `Current description (improve on it, keep anything still accurate):\n${course.courseDescription}` : ""}`;
+
+  const completion = await completeAiTask("courseDescription", {
+    maxTokens: 600,
+    temperature: 0.5,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+  });
+
+  const description = completion.text.trim();
+  if (!description) {
+    throw new Error("AI returned an empty course description. Please try again.");
+  }
+  return description;
 }
 
 // Auth route to get current user
@@ -670,7 +1057,7 @@ router.get("/api/auth/user", isAuthenticated, async (req: any, res: Response) =>
 // Onboarding endpoint
 router.post("/api/onboarding", isAuthenticated, async (req: Request, res: Response) => {
   try {
-    const { familyName, country, address, travelRadiusMinutes, flexForHighInterest, learningApproaches, usePerChildApproaches, children: childrenData } = req.body;
+    const { familyName, country, address, timezone, travelRadiusMinutes, flexForHighInterest, learningApproaches, usePerChildApproaches, children: childrenData } = req.body;
 
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -690,6 +1077,8 @@ router.post("/api/onboarding", isAuthenticated, async (req: Request, res: Respon
       userId: req.user.id,
       familyName,
       country,
+      ...getLocaleDefaults(country),
+      timezone: timezone || null,
       address,
       city: geoData.city,
       state: geoData.state,
@@ -734,6 +1123,9 @@ router.post("/api/onboarding", isAuthenticated, async (req: Request, res: Respon
         anxietyIntensity: childData.anxietyIntensity ?? 0,
         isPerfectionist: childData.isPerfectionist ?? false,
       });
+      if (usePerChildApproaches && Array.isArray(childData.approaches) && childData.approaches.length > 0) {
+        await storage.upsertChildApproach({ childId: child.id, approaches: childData.approaches });
+      }
       createdChildren.push(child);
     }
 
@@ -766,38 +1158,13 @@ router.post("/api/onboarding", isAuthenticated, async (req: Request, res: Respon
       }
     }
 
-    // Generate initial curriculum
+    // Generate initial curriculum in the background - the dashboard shows weeks as they stream in
     let curriculumGenerationMessage = null;
-    try {
-      if (!process.env.XAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-        throw new Error("No AI provider configured. Please set XAI_API_KEY or ANTHROPIC_API_KEY environment variable.");
-      }
-      
-      const curriculumData = await generateCurriculum(family, createdChildren, opportunities, learningApproaches);
-
-      await storage.createCurriculum({
-        familyId: family.id,
-        generatedAt: new Date(),
-        curriculumData,
-        isActive: true,
-      });
-    } catch (aiError: any) {
-      console.error("Curriculum generation error:", aiError);
-      
-      // Check for specific error types and set user-friendly messages
-      if (aiError.message?.includes("credit") || aiError.message?.includes("afford") || aiError.status === 402) {
-        curriculumGenerationMessage = "Curriculum generation temporarily unavailable. You can generate your curriculum later from Settings.";
-        console.error("OpenRouter credits exhausted. User can regenerate later.");
-      } else if (aiError.message?.includes("API key") || aiError.status === 401) {
-        curriculumGenerationMessage = "Curriculum generation configuration error. Please contact support.";
-        console.error("OpenRouter API key error.");
-      } else {
-        curriculumGenerationMessage = "Curriculum generation failed. You can regenerate from Settings.";
-        console.error("Unknown curriculum generation error:", aiError.message);
-      }
-      
-      // Continue with onboarding completion despite curriculum generation failure
-      console.warn("Curriculum generation failed, but onboarding will complete. User can regenerate later.");
+    if (!isAiConfigured("curriculum")) {
+      curriculumGenerationMessage = "Curriculum generation configuration error. Please contact support.";
+      console.error("No AI provider configured. Please set XAI_API_KEY or ANTHROPIC_API_KEY environment variable.");
+    } else {
+      startCurriculumGeneration(family, createdChildren, opportunities, learningApproaches, "onboarding");
     }
 
     res.json({ 
@@ -888,6 +1255,7 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
       familyName: z.string().min(1),
       country: z.string(),
       address: z.string(),
+      timezone: z.string().optional(),
       lat: z.number().optional(),
       lng: z.number().optional(),
       travelRadiusMinutes: z.number().min(5).max(120),
@@ -918,12 +1286,13 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
           isPerfectionist: z.boolean().optional(),
           isHighSchoolMode: z.boolean().optional(),
           educationStandard: z.enum(["us", "canada", "uk", "australia-nz", "ib", "eu", "classical", "custom"]).optional(),
+          approaches: z.array(z.string()).optional(),
         })
       ).min(1),
     });
 
     const validatedData = settingsSchema.parse(req.body);
-    const { familyName, country, address, lat, lng, travelRadiusMinutes, flexForHighInterest, learningApproaches, usePerChildApproaches, children } = validatedData;
+    const { familyName, country, address, timezone, lat, lng, travelRadiusMinutes, flexForHighInterest, learningApproaches, usePerChildApproaches, children } = validatedData;
 
     // Geocode address if lat/lng not provided
     let coordinates = { lat, lng };
@@ -940,6 +1309,8 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
         userId: req.user.id,
         familyName,
         country,
+        ...getLocaleDefaults(country),
+        timezone: timezone || null,
         address,
         latitude: coordinates.lat,
         longitude: coordinates.lng,
@@ -948,10 +1319,12 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
         usePerChildApproaches,
       });
     } else {
-      // Update existing family data
+      // Update existing family data; spelling and units follow a change of country
       await storage.updateFamily(req.user.id, {
         familyName,
         country,
+        ...(country !== family.country ? getLocaleDefaults(country) : {}),
+        ...(timezone && (!family.timezone || country !== family.country) ? { timezone } : {}),
         address,
         latitude: coordinates.lat,
         longitude: coordinates.lng,
@@ -971,6 +1344,7 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
     const existingChildren = await storage.getChildren(family.id);
     const existingChildIds = new Set(existingChildren.map(c => c.id));
     const keptChildIds = new Set<string>();
+    const savedChildIds: string[] = []; // In the same order as the submitted children
 
     // Update existing children and create new ones
     for (const childData of children) {
@@ -998,6 +1372,7 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
           isPerfectionist: childData.isPerfectionist ?? false,
         });
         keptChildIds.add(childData.id);
+        savedChildIds.push(childData.id);
       } else {
         // Create new child (no ID or ID not found)
         const newChild = await storage.createChild({
@@ -1023,6 +1398,16 @@ router.put("/api/family/settings", isAuthenticated, async (req: Request, res: Re
           isPerfectionist: childData.isPerfectionist ?? false,
         });
         keptChildIds.add(newChild.id);
+        savedChildIds.push(newChild.id);
+      }
+    }
+
+    // Per-child approach overrides - kept when the toggle is off so switching back restores them
+    if (usePerChildApproaches) {
+      for (const [index, childData] of Array.from(children.entries())) {
+        if (childData.approaches) {
+          await storage.upsertChildApproach({ childId: savedChildIds[index], approaches: childData.approaches });
+        }
       }
     }
 
@@ -1253,6 +1638,16 @@ router.delete("/api/family/photos-journals", isAuthenticated, async (req: Reques
       }
     }
 
+    for (const narration of await storage.getNarrations(family.id)) {
+      if (narration.audioUrl) {
+        try {
+          await objectStorage.deleteObject(narration.audioUrl);
+        } catch (err) {
+          console.error("Error deleting narration audio from storage:", err);
+        }
+      }
+    }
+
     // Delete database records
     await storage.deleteAllPhotosAndJournals(family.id);
 
@@ -1294,6 +1689,16 @@ router.delete("/api/family/account", isAuthenticated, async (req: Request, res:
       }
     }
     
+    for (const narration of allData.narrations) {
+      if (narration.audioUrl) {
+        try {
+          await objectStorage.deleteObject(narration.audioUrl);
+        } catch (err) {
+          console.error("Error deleting narration audio from storage:", err);
+        }
+      }
+    }
+    
     for (const feedback of allData.activityFeedback) {
       if (feedback.photoUrls && feedback.photoUrls.length > 0) {
         for (const photoUrl of feedback.photoUrls) {
@@ -1338,6 +1743,88 @@ router.get("/api/children", isAuthenticated, async (req: Request, res: Response)
   }
 });
 
+// Get per-child learning approach overrides
+router.get("/api/children/approaches", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const children = await storage.getChildren(family.id);
+    const approaches = await storage.getChildApproaches(children.map(child => child.id));
+    res.json(approaches);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Save a family-built custom education standard for a child
+router.put("/api/children/:childId/custom-standard", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(req.params.childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const validationResult = customStandardSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid custom standard data", details: validationResult.error.errors });
+    }
+
+    // Keep any other standard-specific metadata alongside the custom framework
+    const existingMetadata = (child.standardMetadata as Record<string, unknown> | null) || {};
+    const updated = await storage.updateChild(child.id, {
+      educationStandard: "custom",
+      standardMetadata: { ...existingMetadata, customStandard: validationResult.data },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Progress - Skills map for a child, built from journal analyses and weekly mastery updates
+router.get("/api/children/:childId/skills", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(req.params.childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const [entries, curriculum] = await Promise.all([
+      storage.getJournalEntriesByChild(child.id),
+      storage.getActiveCurriculum(family.id),
+    ]);
+    res.json(buildSkillsMap(child, entries, (curriculum?.curriculumData as CurriculumData | undefined) || null));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // High School Mode - Get transcript courses for a child
 router.get("/api/transcript/courses", isAuthenticated, async (req: Request, res: Response) => {
   try {
@@ -1375,8 +1862,8 @@ router.post("/api/transcript/courses", isAuthenticated, async (req: Request, res
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Validate request body
-    const validationResult = insertTranscriptCourseSchema.safeParse(req.body);
+    // Validate request body; the manual base is derived from credits, never set directly
+    const validationResult = insertTranscriptCourseSchema.omit({ baseCredits: true }).safeParse(req.body);
     if (!validationResult.success) {
       return res.status(400).json({ error: "Invalid course data", details: validationResult.error.errors });
     }
@@ -1394,7 +1881,8 @@ router.post("/api/transcript/courses", isAuthenticated, async (req: Request, res
       return res.status(403).json({ error: "Access denied" });
     }
 
-    const course = await storage.createTranscriptCourse(courseData);
+    // Credits typed in when the course is created are its manual base
+    const course = await storage.createTranscriptCourse({ ...courseData, baseCredits: courseData.credits ?? 0 });
     res.json(course);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -1409,7 +1897,7 @@ router.patch("/api/transcript/courses/:courseId", isAuthenticated, async (req: R
     }
 
     // Validate request body (partial update)
-    const validationResult = insertTranscriptCourseSchema.partial().safeParse(req.body);
+    const validationResult = insertTranscriptCourseSchema.omit({ baseCredits: true }).partial().safeParse(req.body);
     if (!validationResult.success) {
       return res.status(400).json({ error: "Invalid course data", details: validationResult.error.errors });
     }
@@ -1430,6 +1918,15 @@ router.patch("/api/transcript/courses/:courseId", isAuthenticated, async (req: R
       return res.status(403).json({ error: "Access denied" });
     }
 
+    // The parent edits the total; whatever the linked mappings don't cover becomes the manual base
+    if (updateData.credits !== undefined) {
+      const linkedCredits = await getLinkedCredits(storage, course);
+      const baseCredits = Math.max(0, Math.round((updateData.credits - linkedCredits) * 100) / 100);
+      await storage.updateTranscriptCourse(courseId, { ...updateData, baseCredits });
+      await recalculateCourseCredits(storage, courseId);
+      return res.json(await storage.getTranscriptCourse(courseId));
+    }
+
     const updated = await storage.updateTranscriptCourse(courseId, updateData);
     res.json(updated);
   } catch (error: any) {
@@ -1466,15 +1963,378 @@ router.delete("/api/transcript/courses/:courseId", isAuthenticated, async (req:
   }
 });
 
-// High School Mode - Download official transcript PDF
-router.get("/api/transcript/download/:childId", isAuthenticated, async (req: Request, res: Response) => {
+// High School Mode - Draft a course description with AI (returned for review, not saved)
+router.post("/api/transcript/courses/:courseId/draft-description", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const { childId } = req.params;
-    const child = await storage.getChildById(childId);
+    const { courseId } = req.params;
+    const course = await storage.getTranscriptCourse(courseId);
+    if (!course) {
+      return res.status(404).json({ error: "Course not found" });
+    }
+
+    // Verify course belongs to user's family
+    const child = await storage.getChildById(course.childId);
+    const family = await storage.getFamily(req.user.id);
+    if (!child || !family || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const mappings = (await storage.getCreditMappings(child.id)).filter(m => m.courseId === course.id);
+    const journalEntries = (await storage.getJournalEntriesByChild(child.id)).filter(entry =>
+      journalMatchesCourseSubject(entry.subjects, course.subject) &&
+      (!course.startDate || entry.entryDate >= course.startDate) &&
+      (!course.endDate || entry.entryDate <= course.endDate)
+    );
+
+    const description = await draftCourseDescription(course, child, mappings, journalEntries);
+    res.json({
+      description,
+      sources: { creditMappings: mappings.length, journalEntries: journalEntries.length },
+    });
+  } catch (error: any) {
+    console.error("Course description draft error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Get accepted credit mappings for a child
+router.get("/api/transcript/credit-mappings", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const childId = req.query.childId as string;
+    if (!childId) {
+      return res.status(400).json({ error: "Child ID is required" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const mappings = await storage.getCreditMappings(childId);
+    res.json(mappings);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Propose credit mappings from completed curriculum activities
+router.get("/api/transcript/credit-mappings/proposals", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const childId = req.query.childId as string;
+    if (!childId) {
+      return res.status(400).json({ error: "Child ID is required" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (!child.isHighSchoolMode) {
+      return res.status(400).json({ error: "High School Mode is not enabled for this child" });
+    }
+
+    const curriculum = await storage.getActiveCurriculum(family.id);
+    if (!curriculum) {
+      return res.json([]);
+    }
+
+    const completions = await storage.getDailyCompletions(family.id, new Date(curriculum.generatedAt || new Date()), new Date());
+    const existingMappings = await storage.getCreditMappings(childId);
+    const courses = await storage.getTranscriptCourses(childId);
+    const versions = await storage.getAllCurricula(family.id);
+
+    res.json(proposeCreditMappings(childId, curriculum, completions, existingMappings, courses, versions));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Accept a credit mapping (rolls up into the linked course)
+router.post("/api/transcript/credit-mappings", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = insertCreditMappingSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid credit mapping data", details: validationResult.error.errors });
+    }
+
+    const mappingData = validationResult.data;
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(mappingData.childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (mappingData.courseId) {
+      const course = await storage.getTranscriptCourse(mappingData.courseId);
+      if (!course || course.childId !== child.id) {
+        return res.status(400).json({ error: "Course not found for this child" });
+      }
+    }
+
+    // Accepting the same week and subject twice would count its credits twice
+    const versions = await storage.getAllCurricula(family.id);
+    if (mappingData.curriculumId && !versions.some(version => version.id === mappingData.curriculumId)) {
+      return res.status(400).json({ error: "Curriculum not found for this family" });
+    }
+    const mappingKey = getCreditMappingKey(mappingData, versions);
+    const existingMappings = await storage.getCreditMappings(child.id);
+    if (existingMappings.some(existing => getCreditMappingKey(existing, versions) === mappingKey)) {
+      return res.status(409).json({ error: "This week and subject already has a credit mapping" });
+    }
+
+    const mapping = await storage.createCreditMapping(mappingData);
+    await recalculateCourseCredits(storage, mapping.courseId);
+    res.json(mapping);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Edit a credit mapping amount or linked course
+router.patch("/api/transcript/credit-mappings/:mappingId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = insertCreditMappingSchema
+      .pick({ creditAmount: true, courseId: true, subject: true, activityTitle: true })
+      .partial()
+      .safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid credit mapping data", details: validationResult.error.errors });
+    }
+
+    const { mappingId } = req.params;
+    const mapping = await storage.getCreditMapping(mappingId);
+    if (!mapping) {
+      return res.status(404).json({ error: "Credit mapping not found" });
+    }
+
+    const child = await storage.getChildById(mapping.childId);
+    const family = await storage.getFamily(req.user.id);
+    if (!child || !family || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const updateData = validationResult.data;
+    if (updateData.courseId) {
+      const course = await storage.getTranscriptCourse(updateData.courseId);
+      if (!course || course.childId !== child.id) {
+        return res.status(400).json({ error: "Course not found for this child" });
+      }
+    }
+
+    if (updateData.subject && updateData.subject.toLowerCase() !== mapping.subject.toLowerCase()) {
+      const versions = await storage.getAllCurricula(family.id);
+      const mappingKey = getCreditMappingKey({ ...mapping, subject: updateData.subject }, versions);
+      const otherMappings = (await storage.getCreditMappings(child.id)).filter(existing => existing.id !== mapping.id);
+      if (otherMappings.some(existing => getCreditMappingKey(existing, versions) === mappingKey)) {
+        return res.status(409).json({ error: "This week and subject already has a credit mapping" });
+      }
+    }
+
+    // Any manual change to the amount marks the mapping as parent-edited
+    const isEdited = mapping.isEdited ||
+      (updateData.creditAmount !== undefined && updateData.creditAmount !== mapping.creditAmount);
+
+    const updated = await storage.updateCreditMapping(mappingId, { ...updateData, isEdited });
+    await recalculateCourseCredits(storage, mapping.courseId);
+    if (updated.courseId !== mapping.courseId) {
+      await recalculateCourseCredits(storage, updated.courseId);
+    }
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Remove a credit mapping
+router.delete("/api/transcript/credit-mappings/:mappingId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { mappingId } = req.params;
+    const mapping = await storage.getCreditMapping(mappingId);
+    if (!mapping) {
+      return res.status(404).json({ error: "Credit mapping not found" });
+    }
+
+    const child = await storage.getChildById(mapping.childId);
+    const family = await storage.getFamily(req.user.id);
+    if (!child || !family || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    await storage.deleteCreditMapping(mappingId);
+    await recalculateCourseCredits(storage, mapping.courseId);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Compare transcript courses against the standard's graduation requirements
+router.get("/api/transcript/graduation-requirements", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const childId = req.query.childId as string;
+    if (!childId) {
+      return res.status(400).json({ error: "Child ID is required" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const courses = await storage.getTranscriptCourses(childId);
+    const progress = evaluateGraduationRequirements(child.educationStandard, courses, {
+      standardMetadata: child.standardMetadata,
+      birthdate: child.birthdate,
+    });
+    res.json(progress);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - List issued transcripts and their verification codes
+router.get("/api/transcript/verifications", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const childId = req.query.childId as string;
+    if (!childId) {
+      return res.status(400).json({ error: "Child ID is required" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const verifications = await storage.getTranscriptVerifications(childId);
+    res.json(verifications.map(({ snapshot, ...verification }) => ({
+      ...verification,
+      courseCount: (snapshot as TranscriptSnapshot).courses.length,
+    })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Revoke an issued transcript's verification code
+router.post("/api/transcript/verifications/:verificationId/revoke", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const verification = await storage.getTranscriptVerification(req.params.verificationId);
+    if (!verification || verification.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (verification.revokedAt) {
+      return res.json(verification);
+    }
+
+    const revoked = await storage.revokeTranscriptVerification(verification.id);
+    res.json(revoked);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Transcript Verification - Public lookup for admissions officers (no login required)
+router.get("/api/transcript/verify/:code", async (req: Request, res: Response) => {
+  try {
+    const verification = await storage.getTranscriptVerificationByCode(normalizeVerificationCode(req.params.code));
+    if (!verification) {
+      return res.status(404).json({ error: "No transcript was issued with this verification code" });
+    }
+
+    const status = getVerificationStatus(verification);
+    const snapshot = verification.snapshot as TranscriptSnapshot;
+
+    // Revoked transcripts only confirm that the code existed; course data is withheld
+    res.json({
+      status,
+      verificationCode: verification.verificationCode,
+      contentHash: verification.contentHash,
+      issuedAt: verification.issuedAt,
+      revokedAt: verification.revokedAt,
+      transcript: status === "valid" ? snapshot : null,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// High School Mode - Download official transcript PDF
+router.get("/api/transcript/download/:childId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { childId } = req.params;
+    const child = await storage.getChildById(childId);
     
     if (!child) {
       return res.status(404).json({ error: "Child not found" });
@@ -1547,10 +2407,26 @@ router.get("/api/transcript/download/:childId", isAuthenticated, async (req: Req
       console.warn(`Transcript completeness warnings for ${child.name}:`, warnings);
     }
 
-    // Create PDF
+    // Record what is being issued so admissions officers can verify it later. Downloading the
+    // same transcript again reuses its record rather than issuing another code.
+    const snapshot = buildTranscriptSnapshot(child, family, courses, new Date());
+    const previous = (await storage.getTranscriptVerifications(child.id)).find(v =>
+      getVerificationStatus(v) === "valid" && isSameTranscript(v.snapshot as TranscriptSnapshot, snapshot)
+    );
+    const verification = previous || await storage.createTranscriptVerification({
+      childId: child.id,
+      familyId: family.id,
+      verificationCode: generateVerificationCode(),
+      contentHash: signTranscriptSnapshot(snapshot),
+      snapshot,
+    });
+    const verifyUrl = getVerifyUrl(verification.verificationCode);
+
+    // Create PDF (pages are buffered so the verification footer can be stamped on each one)
     const doc = new PDFDocument({ 
       size: 'LETTER',
-      margins: { top: 72, bottom: 72, left: 72, right: 72 }
+      margins: { top: 72, bottom: 72, left: 72, right: 72 },
+      bufferPages: true,
     });
 
     // Set response headers
@@ -1564,32 +2440,32 @@ router.get("/api/transcript/download/:childId", isAuthenticated, async (req: Req
     // Prepare transcript data
     const transcriptData = { child, family, courses };
 
-    // Route to correct PDF generator based on education standard (standard already declared above for validation)
-    switch (standard) {
+    // Route to correct PDF generator based on the standard's transcript layout
+    // (a family-built custom standard picks its own layout in standardMetadata)
+    switch (getStandardConfig(standard, child.standardMetadata).transcriptFormat) {
       case 'uk':
         generateUKTranscript(doc, transcriptData);
         break;
       case 'ib':
         generateIBTranscript(doc, transcriptData);
         break;
-      case 'australia-nz':
+      case 'anz':
         generateANZTranscript(doc, transcriptData);
         break;
       case 'eu':
         generateEUTranscript(doc, transcriptData);
         break;
-      case 'classical':
+      case 'narrative':
         generateClassicalTranscript(doc, transcriptData);
         break;
       case 'us':
-      case 'canada':
-      case 'custom':
       default:
-        // US/Canada/Custom use the same traditional transcript format
+        // US/Canada (and unconfigured custom) use the traditional transcript format
         generateUSTranscript(doc, transcriptData);
         break;
     }
 
+    stampVerification(doc, verification, verifyUrl);
     doc.end();
   } catch (error: any) {
     console.error("Transcript PDF generation error:", error);
@@ -1597,8 +2473,8 @@ router.get("/api/transcript/download/:childId", isAuthenticated, async (req: Req
   }
 });
 
-// Get active curriculum
-router.get("/api/curriculum", isAuthenticated, async (req: Request, res: Response) => {
+// High School Mode - Download course-description booklet with school profile PDF
+router.get("/api/transcript/booklet/:childId", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -1609,9 +2485,527 @@ router.get("/api/curriculum", isAuthenticated, async (req: Request, res: Respons
       return res.status(404).json({ error: "Family not found" });
     }
 
-    const curriculum = await storage.getActiveCurriculum(family.id);
-    if (!curriculum) {
-      return res.status(404).json({ error: "No active curriculum found" });
+    const child = await storage.getChildById(req.params.childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const courses = await storage.getTranscriptCourses(child.id);
+    if (courses.length === 0) {
+      return res.status(404).json({ error: "No courses found for this student. Add courses before exporting course descriptions." });
+    }
+
+    const [familyApproach, user] = await Promise.all([
+      storage.getFamilyApproach(family.id),
+      storage.getUser(req.user.id),
+    ]);
+    const administratorName = [user?.firstName, user?.lastName].filter(Boolean).join(" ") || null;
+
+    const doc = new PDFDocument({
+      size: family.country === 'US' ? 'LETTER' : 'A4',
+      margins: { top: 72, bottom: 72, left: 72, right: 72 }
+    });
+
+    const childName = child.name.replace(/[^a-z0-9]/gi, '_');
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="Course-Descriptions-${childName}.pdf"`);
+    doc.pipe(res);
+
+    generateCourseBooklet(doc, {
+      child,
+      family,
+      courses,
+      approaches: familyApproach?.approaches || [],
+      administratorName,
+      contactEmail: user?.email || null,
+    });
+
+    doc.end();
+  } catch (error: any) {
+    console.error("Course booklet PDF generation error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - List state requirements (seeded with defaults on first use)
+router.get("/api/portfolio/state-requirements", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    await ensureDefaultStateRequirements(storage);
+
+    const countryCode = req.query.countryCode as string | undefined;
+    const requirements = await storage.getStateRequirements(countryCode);
+    res.json(requirements);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// State requirements are shared by every family, so only the user ids in ADMIN_USER_IDS can add them
+function isAdminUser(userId: string): boolean {
+  return (process.env.ADMIN_USER_IDS || "").split(",").map(id => id.trim()).includes(userId);
+}
+
+// Compliance Portfolio - Add a state requirement (admins only)
+router.post("/api/portfolio/state-requirements", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (!isAdminUser(req.user.id)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const validationResult = insertStateRequirementSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid state requirement data", details: validationResult.error.errors });
+    }
+
+    const existing = await storage.getStateRequirements();
+    if (existing.some(r => r.stateCode === validationResult.data.stateCode)) {
+      return res.status(409).json({ error: `Requirements for ${validationResult.data.stateCode} already exist` });
+    }
+
+    const requirement = await storage.createStateRequirement(validationResult.data);
+    res.json(requirement);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Get academic years for a child
+router.get("/api/portfolio/years", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const childId = req.query.childId as string;
+    if (!childId) {
+      return res.status(400).json({ error: "Child ID is required" });
+    }
+
+    // Verify child belongs to user's family
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const years = await storage.getPortfolioYears(childId);
+    res.json(years);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Create academic year
+router.post("/api/portfolio/years", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = insertChildPortfolioYearSchema.omit({ familyId: true }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid portfolio year data", details: validationResult.error.errors });
+    }
+
+    const yearData = validationResult.data;
+
+    // Verify child belongs to user's family
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(yearData.childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (yearData.stateRequirementId && !(await storage.getStateRequirement(yearData.stateRequirementId))) {
+      return res.status(400).json({ error: "State requirement not found" });
+    }
+
+    const existing = await storage.getPortfolioYears(yearData.childId);
+    if (existing.some((y) => y.academicYear === yearData.academicYear)) {
+      return res.status(409).json({ error: `A portfolio for ${yearData.academicYear} already exists for this child` });
+    }
+
+    const year = await storage.createPortfolioYear({ ...yearData, familyId: family.id });
+    res.json(year);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Update academic year
+router.patch("/api/portfolio/years/:yearId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = insertChildPortfolioYearSchema
+      .omit({ familyId: true, childId: true })
+      .partial()
+      .safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid portfolio year data", details: validationResult.error.errors });
+    }
+
+    const { yearId } = req.params;
+    const year = await storage.getPortfolioYear(yearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    // Verify year belongs to user's family
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const updateData = validationResult.data;
+    if (updateData.stateRequirementId && !(await storage.getStateRequirement(updateData.stateRequirementId))) {
+      return res.status(400).json({ error: "State requirement not found" });
+    }
+
+    const updated = await storage.updatePortfolioYear(yearId, updateData);
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Delete academic year (cascades to weekly entries)
+router.delete("/api/portfolio/years/:yearId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { yearId } = req.params;
+    const year = await storage.getPortfolioYear(yearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    await storage.deletePortfolioYear(yearId);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Roll up weekly hours and attendance against the attached requirement
+router.get("/api/portfolio/years/:yearId/summary", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { yearId } = req.params;
+    const year = await storage.getPortfolioYear(yearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const requirement = year.stateRequirementId
+      ? await storage.getStateRequirement(year.stateRequirementId)
+      : null;
+    const entries = await storage.getPortfolioEntries(yearId);
+
+    res.json(summarizePortfolioYear(year, requirement, entries));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Rebuild weekly hours, attendance and journal links from the journal
+router.post("/api/portfolio/years/:yearId/rebuild", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { yearId } = req.params;
+    const year = await storage.getPortfolioYear(yearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (!getAcademicYearRange(year.academicYear)) {
+      return res.status(400).json({ error: `Unrecognised academic year "${year.academicYear}" - use "2026" or "2025-2026"` });
+    }
+
+    const result = await rebuildPortfolioYear(storage, year);
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Load an uploaded photo for embedding in a PDF (returns null if it can't be fetched)
+// Photo URLs are user-editable, so only our own objects that the user can read are embedded -
+// never arbitrary URLs, which could point the server at internal addresses
+async function loadPdfImage(objectStorage: ObjectStorageService, photoPath: string, userId: string): Promise<Buffer | null> {
+  try {
+    const objectPath = objectStorage.normalizeObjectEntityPath(photoPath);
+    if (!objectPath.startsWith("/objects/")) {
+      return null;
+    }
+    const file = await objectStorage.getObjectEntityFile(objectPath);
+    const canAccess = await objectStorage.canAccessObjectEntity({
+      userId,
+      objectFile: file,
+      requestedPermission: ObjectPermission.READ,
+    });
+    if (!canAccess) {
+      return null;
+    }
+    const [contents] = await file.download();
+    return contents;
+  } catch (error) {
+    console.error(`Could not load photo ${photoPath} for PDF:`, error);
+    return null;
+  }
+}
+
+const MAX_REPORT_HIGHLIGHT_PHOTOS = 12;
+
+// Compliance Portfolio - Download annual home education report PDF
+router.get("/api/portfolio/years/:yearId/report", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { yearId } = req.params;
+    const year = await storage.getPortfolioYear(yearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const child = await storage.getChildById(year.childId);
+    if (!child) {
+      return res.status(404).json({ error: "Child not found" });
+    }
+
+    const requirement = year.stateRequirementId
+      ? await storage.getStateRequirement(year.stateRequirementId)
+      : null;
+    const entries = await storage.getPortfolioEntries(yearId);
+    const summary = summarizePortfolioYear(year, requirement, entries);
+
+    // Fetch images before streaming so a slow bucket doesn't stall a half-written PDF
+    const objectStorage = new ObjectStorageService();
+    const coverPhoto = year.coverPhotoUrl ? await loadPdfImage(objectStorage, year.coverPhotoUrl, req.user.id) : null;
+    const highlightPhotos: Array<{ weekStartDate: string; image: Buffer }> = [];
+    for (const entry of entries) {
+      for (const photoUrl of entry.highlightPhotoUrls || []) {
+        if (highlightPhotos.length >= MAX_REPORT_HIGHLIGHT_PHOTOS) break;
+        const image = await loadPdfImage(objectStorage, photoUrl, req.user.id);
+        if (image) {
+          highlightPhotos.push({ weekStartDate: entry.weekStartDate, image });
+        }
+      }
+    }
+
+    const doc = new PDFDocument({
+      size: family.country === 'US' ? 'LETTER' : 'A4',
+      margins: { top: 72, bottom: 72, left: 72, right: 72 }
+    });
+
+    const childName = child.name.replace(/[^a-z0-9]/gi, '_');
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="Annual-Report-${childName}-${year.academicYear}.pdf"`);
+
+    doc.pipe(res);
+    generateAnnualReport(doc, { child, family, year, summary, entries, coverPhoto, highlightPhotos });
+    doc.end();
+  } catch (error: any) {
+    console.error("Annual report PDF generation error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Get weekly entries for an academic year
+router.get("/api/portfolio/entries", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const portfolioYearId = req.query.portfolioYearId as string;
+    if (!portfolioYearId) {
+      return res.status(400).json({ error: "Portfolio year ID is required" });
+    }
+
+    const year = await storage.getPortfolioYear(portfolioYearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const entries = await storage.getPortfolioEntries(portfolioYearId);
+    res.json(entries);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Create weekly entry
+router.post("/api/portfolio/entries", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Child and family are taken from the portfolio year, not the request body
+    const validationResult = insertPortfolioEntrySchema
+      .omit({ childId: true, familyId: true })
+      .safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid portfolio entry data", details: validationResult.error.errors });
+    }
+
+    const entryData = validationResult.data;
+    const year = await storage.getPortfolioYear(entryData.portfolioYearId);
+    if (!year) {
+      return res.status(404).json({ error: "Portfolio year not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || year.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (await storage.getPortfolioEntryByWeek(year.childId, entryData.weekStartDate)) {
+      return res.status(409).json({ error: "This week already has a portfolio entry" });
+    }
+
+    const entry = await storage.createPortfolioEntry({
+      ...entryData,
+      childId: year.childId,
+      familyId: year.familyId,
+    });
+    res.json(entry);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Update weekly entry
+router.patch("/api/portfolio/entries/:entryId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = insertPortfolioEntrySchema
+      .omit({ childId: true, familyId: true, portfolioYearId: true })
+      .partial()
+      .safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid portfolio entry data", details: validationResult.error.errors });
+    }
+
+    const { entryId } = req.params;
+    const entry = await storage.getPortfolioEntry(entryId);
+    if (!entry) {
+      return res.status(404).json({ error: "Portfolio entry not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || entry.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const { weekStartDate } = validationResult.data;
+    if (weekStartDate && weekStartDate !== entry.weekStartDate && await storage.getPortfolioEntryByWeek(entry.childId, weekStartDate)) {
+      return res.status(409).json({ error: "This week already has a portfolio entry" });
+    }
+
+    const updated = await storage.updatePortfolioEntry(entryId, validationResult.data);
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compliance Portfolio - Delete weekly entry
+router.delete("/api/portfolio/entries/:entryId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { entryId } = req.params;
+    const entry = await storage.getPortfolioEntry(entryId);
+    if (!entry) {
+      return res.status(404).json({ error: "Portfolio entry not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || entry.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    await storage.deletePortfolioEntry(entryId);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get active curriculum
+router.get("/api/curriculum", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const curriculum = await storage.getActiveCurriculum(family.id);
+    if (!curriculum) {
+      return res.status(404).json({ error: "No active curriculum found" });
     }
 
     res.json(curriculum);
@@ -1620,14 +3014,162 @@ router.get("/api/curriculum", isAuthenticated, async (req: Request, res: Respons
   }
 });
 
-// Regenerate specific week
+// Curriculum History - List every saved version, newest first (without the full curriculum data)
+router.get("/api/curriculum/history", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const curricula = await storage.getAllCurricula(family.id);
+    res.json(curricula.map(({ curriculumData, ...version }) => ({
+      ...version,
+      weekCount: (curriculumData as CurriculumData).weeks?.length || 0,
+    })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum History - Compare two versions (defaults to comparing against the active one)
+router.get("/api/curriculum/history/diff", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { from, to } = req.query;
+    if (!from) {
+      return res.status(400).json({ error: "from is required" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const fromVersion = await storage.getCurriculum(from as string);
+    const toVersion = to ? await storage.getCurriculum(to as string) : await storage.getActiveCurriculum(family.id);
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: "Curriculum version not found" });
+    }
+    if (fromVersion.familyId !== family.id || toVersion.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    res.json({
+      fromId: fromVersion.id,
+      toId: toVersion.id,
+      ...diffCurricula(fromVersion.curriculumData as CurriculumData, toVersion.curriculumData as CurriculumData),
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum History - Make an earlier version the active one again; the current version stays in history
+router.post("/api/curriculum/history/:curriculumId/restore", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const version = await storage.getCurriculum(req.params.curriculumId);
+    if (!version) {
+      return res.status(404).json({ error: "Curriculum version not found" });
+    }
+    if (version.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    if (getGenerationJob(family.id)?.status === "running") {
+      return res.status(409).json({ error: "A new curriculum is still being generated" });
+    }
+
+    const restored = await storage.activateCurriculum(family.id, version.id);
+    await markInterestSignalsScheduled((restored.curriculumData as CurriculumData).weeks);
+
+    const collabService = getCollaborationService();
+    if (collabService) {
+      collabService.broadcastCurriculumGenerated(family.id);
+    }
+
+    res.json(restored);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Splice a new week into a copy of the active curriculum, filling the gap if it was flagged, and save it as the new version.
+// Returns null if another version became active while the week was being generated.
+async function saveCurriculumWeek(
+  familyId: string,
+  activeCurriculum: Curriculum,
+  newWeek: WeekCurriculum,
+  trigger: CurriculumTrigger,
+  provider: string
+): Promise<Curriculum | null> {
+  // The AI call takes a while; saving over a roll, restore or import that landed meanwhile would lose its changes
+  const current = await storage.getActiveCurriculum(familyId);
+  if (current?.id !== activeCurriculum.id) {
+    return null;
+  }
+
+  const existingData = activeCurriculum.curriculumData as CurriculumData;
+  const { weekNumber } = newWeek;
+  const existingWeek = existingData.weeks.find(week => week.weekNumber === weekNumber);
+  const remainingFlaggedWeeks = (existingData.flaggedWeeks || []).filter(week => week.weekNumber !== weekNumber);
+  const curriculumData: CurriculumData = {
+    ...existingData,
+    weeks: existingWeek
+      ? existingData.weeks.map(week => week.weekNumber === weekNumber ? newWeek : week)
+      : [...existingData.weeks, newWeek].sort((a, b) => a.weekNumber - b.weekNumber),
+    flaggedWeeks: remainingFlaggedWeeks.length > 0 ? remainingFlaggedWeeks : undefined,
+  };
+
+  // Save new curriculum; old ones remain as earlier versions. Keep the original start date so week dates don't shift
+  const newCurriculum = await storage.replaceActiveCurriculum({
+    familyId,
+    generatedAt: activeCurriculum.generatedAt,
+    curriculumData,
+    trigger,
+    provider,
+  });
+  await markInterestSignalsScheduled([newWeek]);
+
+  // Broadcast curriculum update to other connected users
+  const collabService = getCollaborationService();
+  if (collabService) {
+    collabService.broadcastCurriculumGenerated(familyId);
+  }
+
+  return newCurriculum;
+}
+
+// Regenerate curriculum - a single week when weekNumber is given, otherwise a fresh 12 weeks
 router.post("/api/curriculum/regenerate", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const { weekNumber } = req.body;
+    const validationResult = z.object({
+      weekNumber: z.number().int().min(1).optional(),
+      trigger: z.enum(["manual", "settings"]).optional(),
+    }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid regenerate data", details: validationResult.error });
+    }
+    const { weekNumber, trigger = "manual" } = validationResult.data;
 
     const family = await storage.getFamily(req.user.id);
     if (!family) {
@@ -1638,51 +3180,318 @@ router.post("/api/curriculum/regenerate", isAuthenticated, async (req: Request,
     const opportunities = await storage.getOpportunities(family.id);
     const familyApproach = await storage.getFamilyApproach(family.id);
 
-    // Generate new curriculum
-    const curriculumData = await generateCurriculum(family, children, opportunities, familyApproach?.approaches);
+    // A full regenerate streams in the background; progress arrives over the websocket
+    if (!weekNumber) {
+      const job = startCurriculumGeneration(family, children, opportunities, familyApproach?.approaches, trigger)
+        || getGenerationJob(family.id);
+      return res.status(202).json(job);
+    }
+
+    if (getGenerationJob(family.id)?.status === "running") {
+      return res.status(409).json({ error: "A new curriculum is still being generated" });
+    }
+
+    const activeCurriculum = await storage.getActiveCurriculum(family.id);
+    if (!activeCurriculum) {
+      return res.status(404).json({ error: "No active curriculum found" });
+    }
+
+    const existingData = activeCurriculum.curriculumData as CurriculumData;
+    const existingWeek = existingData.weeks.find(week => week.weekNumber === weekNumber);
+    const isFlaggedWeek = (existingData.flaggedWeeks || []).some(week => week.weekNumber === weekNumber);
+    if (!existingWeek && !isFlaggedWeek) {
+      return res.status(404).json({ error: "Week not found" });
+    }
+    if (existingWeek?.archivedAt) {
+      return res.status(400).json({ error: "Finished weeks are kept as a record and can't be regenerated" });
+    }
+
+    const { data: newWeek, provider } = await generateCurriculumWeek(family, children, opportunities, familyApproach?.approaches, existingData, weekNumber);
+    const newCurriculum = await saveCurriculumWeek(family.id, activeCurriculum, newWeek, "week", provider);
+    if (!newCurriculum) {
+      return res.status(409).json({ error: "Your curriculum changed while this week was being planned. Please try again." });
+    }
+
+    res.json(newCurriculum);
+  } catch (error: any) {
+    console.error("Regenerate error:", error);
+    const { status, message, code } = describeCurriculumGenerationError(error);
+    res.status(status).json({ error: message, code });
+  }
+});
+
+// Curriculum Templates - Save a week, or the whole active curriculum, as a template with child details stripped
+router.post("/api/curriculum/templates", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = z.object({
+      name: z.string().min(1).max(255),
+      description: z.string().optional(),
+      weekNumber: z.number().int().min(1).optional(), // Omit to save the whole curriculum
+      approaches: z.array(z.string()).optional(),
+    }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid template data", details: validationResult.error });
+    }
+    const { name, description, weekNumber, approaches } = validationResult.data;
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const activeCurriculum = await storage.getActiveCurriculum(family.id);
+    if (!activeCurriculum) {
+      return res.status(404).json({ error: "No active curriculum found" });
+    }
+
+    const curriculumData = activeCurriculum.curriculumData as CurriculumData;
+    const weeks = weekNumber
+      ? curriculumData.weeks.filter(week => week.weekNumber === weekNumber)
+      : curriculumData.weeks;
+    if (weeks.length === 0) {
+      return res.status(404).json({ error: "Week not found" });
+    }
 
-    // Deactivate old curricula
-    await storage.deactivateAllCurricula(family.id);
+    // Every week's names are scrubbed, not just the saved weeks' - a deep dive can mention a sibling planned elsewhere
+    const children = await storage.getChildren(family.id);
+    const childNames = [...children.map(child => child.name), ...curriculumData.weeks.flatMap(week => week.children.map(child => child.name))];
+    const templateData = buildTemplateData(weeks, childNames);
+    const familyApproach = await storage.getFamilyApproach(family.id);
 
-    // Save new curriculum
-    const newCurriculum = await storage.createCurriculum({
+    const template = await storage.createCurriculumTemplate({
       familyId: family.id,
-      generatedAt: new Date(),
-      curriculumData,
-      isActive: true,
+      name,
+      description: description || null,
+      kind: weekNumber ? "week" : "curriculum",
+      templateData,
+      approaches: approaches || familyApproach?.approaches || [],
+      ageBands: getTemplateAgeBands(templateData),
+      themes: getTemplateThemes(templateData),
+      isPublished: false,
     });
 
-    // Broadcast curriculum update to other connected users
-    const collabService = getCollaborationService();
-    if (collabService) {
-      collabService.broadcastCurriculumGenerated(family.id);
+    res.json(template);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum Templates - The family's own templates
+router.get("/api/curriculum/templates", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const templates = await storage.getCurriculumTemplates(family.id);
+    res.json(templates);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum Templates - Shared library, filterable by approach, age band and theme
+router.get("/api/curriculum/templates/library", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = z.object({
+      approach: z.string().optional(),
+      ageBand: z.enum(templateAgeBands).optional(),
+      theme: z.string().optional(),
+    }).safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid library filters", details: validationResult.error });
+    }
+
+    const templates = await storage.getPublishedCurriculumTemplates(validationResult.data);
+
+    // Authors stay anonymous to other families
+    const family = await storage.getFamily(req.user.id);
+    res.json(templates.map(({ familyId, ...template }) => ({ ...template, isOwn: familyId === family?.id })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum Templates - Rename, retag, or publish to / withdraw from the shared library
+router.patch("/api/curriculum/templates/:templateId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = z.object({
+      name: z.string().min(1).max(255).optional(),
+      description: z.string().nullable().optional(),
+      approaches: z.array(z.string()).optional(),
+      isPublished: z.boolean().optional(),
+    }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid template data", details: validationResult.error });
+    }
+    const { isPublished, ...updates } = validationResult.data;
+
+    const template = await storage.getCurriculumTemplate(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || template.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const updated = await storage.updateCurriculumTemplate(template.id, {
+      ...updates,
+      ...(isPublished !== undefined && isPublished !== template.isPublished
+        ? { isPublished, publishedAt: isPublished ? new Date() : null }
+        : {}),
+    });
+    res.json(updated);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum Templates - Delete a template (families who imported it keep their adapted weeks)
+router.delete("/api/curriculum/templates/:templateId", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const template = await storage.getCurriculumTemplate(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family || template.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    await storage.deleteCurriculumTemplate(template.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Curriculum Templates - Import a template, adapted by the AI to this family's children.
+// A week template replaces the given week; a curriculum template generates a fresh 12 weeks in the background.
+router.post("/api/curriculum/templates/:templateId/import", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const validationResult = z.object({
+      weekNumber: z.number().int().min(1).optional(),
+    }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid import data", details: validationResult.error });
+    }
+    const { weekNumber } = validationResult.data;
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    // Unpublished templates are only visible to their authors
+    const template = await storage.getCurriculumTemplate(req.params.templateId);
+    if (!template || (!template.isPublished && template.familyId !== family.id)) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    const templateResult = curriculumTemplateDataSchema.safeParse(template.templateData);
+    if (!templateResult.success) {
+      return res.status(422).json({ error: "Template data is invalid", details: templateResult.error });
+    }
+    const templateData = templateResult.data;
+
+    if (template.kind === "week" && !weekNumber) {
+      return res.status(400).json({ error: "Choose which week the template should replace" });
+    }
+    if (getGenerationJob(family.id)?.status === "running") {
+      return res.status(409).json({ error: "A new curriculum is still being generated" });
+    }
+
+    const children = await storage.getChildren(family.id);
+    const opportunities = await storage.getOpportunities(family.id);
+    const familyApproach = await storage.getFamilyApproach(family.id);
+
+    if (template.kind === "curriculum") {
+      const job = startCurriculumGeneration(family, children, opportunities, familyApproach?.approaches, "template", templateData);
+      if (!job) {
+        return res.status(409).json({ error: "A new curriculum is still being generated" });
+      }
+      if (template.familyId !== family.id) {
+        await storage.incrementTemplateImportCount(template.id);
+      }
+      return res.status(202).json(job);
+    }
+
+    const activeCurriculum = await storage.getActiveCurriculum(family.id);
+    if (!activeCurriculum) {
+      return res.status(404).json({ error: "No active curriculum found" });
+    }
+
+    const existingData = activeCurriculum.curriculumData as CurriculumData;
+    const existingWeek = existingData.weeks.find(week => week.weekNumber === weekNumber);
+    const isFlaggedWeek = (existingData.flaggedWeeks || []).some(week => week.weekNumber === weekNumber);
+    if (!existingWeek && !isFlaggedWeek) {
+      return res.status(404).json({ error: "Week not found" });
+    }
+    if (existingWeek?.archivedAt) {
+      return res.status(400).json({ error: "Finished weeks are kept as a record and can't be replaced" });
+    }
+
+    const { data: newWeek, provider } = await generateCurriculumWeek(family, children, opportunities, familyApproach?.approaches, existingData, weekNumber!, templateData.weeks[0]);
+    const newCurriculum = await saveCurriculumWeek(family.id, activeCurriculum, newWeek, "template", provider);
+    if (!newCurriculum) {
+      return res.status(409).json({ error: "Your curriculum changed while this week was being planned. Please try again." });
+    }
+
+    if (template.familyId !== family.id) {
+      await storage.incrementTemplateImportCount(template.id);
+    }
+
+    res.json(newCurriculum);
+  } catch (error: any) {
+    console.error("Template import error:", error);
+    const { status, message, code } = describeCurriculumGenerationError(error);
+    res.status(status).json({ error: message, code });
+  }
+});
+
+// Curriculum Generation - Status of the family's background generation, including the weeks streamed so far
+router.get("/api/curriculum/generation", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
     }
 
-    res.json(newCurriculum);
-  } catch (error: any) {
-    console.error("Regenerate error:", error);
-    
-    // Check for OpenRouter credit exhaustion (402 Payment Required)
-    if (error.status === 402 || error.message?.includes("credit") || error.message?.includes("max_tokens")) {
-      return res.status(402).json({ 
-        message: "Curriculum generation requires additional OpenRouter credits. Please contact support or add credits at openrouter.ai",
-        code: "INSUFFICIENT_CREDITS"
-      });
-    }
-    
-    // Check for other API authentication issues
-    if (error.status === 401 || error.message?.includes("API key")) {
-      return res.status(502).json({ 
-        message: "AI service configuration error. Please contact support.",
-        code: "API_CONFIG_ERROR"
-      });
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
     }
-    
-    // Generic error for other cases
-    res.status(502).json({ 
-      message: error.message || "Failed to generate curriculum",
-      code: "GENERATION_ERROR"
-    });
+
+    res.json(getGenerationJob(family.id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
   }
 });
 
@@ -1713,9 +3522,7 @@ router.get("/api/curriculum/download-week", isAuthenticated, async (req: Request
     const children = await storage.getChildren(family.id);
     
     // Fetch events for this week (14-day window)
-    const startDate = parseISO(curriculum.curriculumData.generatedAt);
-    const weekStart = addDays(startDate, (weekNumber - 1) * 7);
-    const weekEnd = addDays(startDate, (weekNumber - 1) * 7 + 6);
+    const { startDate: weekStart, endDate: weekEnd } = getWeekDates(curriculum.curriculumData.generatedAt, weekNumber);
     const events = await storage.getUpcomingEventsForWeek(family.id, weekStart, weekEnd);
 
     // Create PDF
@@ -2055,79 +3862,594 @@ router.get("/api/curriculum/download-week", isAuthenticated, async (req: Request
         yPos += 20;
       }
 
-      // Drawing/sketch box at bottom
-      doc.rect(50, doc.page.height - 130, doc.page.width - 100, 80)
-         .lineWidth(1)
-         .stroke(sageGreen);
-      
-      doc.fillColor('#999999')
-         .fontSize(9)
-         .font('Helvetica-Oblique')
-         .text('Sketch or doodle space', 60, doc.page.height - 120);
+      // Drawing/sketch box at bottom
+      doc.rect(50, doc.page.height - 130, doc.page.width - 100, 80)
+         .lineWidth(1)
+         .stroke(sageGreen);
+      
+      doc.fillColor('#999999')
+         .fontSize(9)
+         .font('Helvetica-Oblique')
+         .text('Sketch or doodle space', 60, doc.page.height - 120);
+    }
+
+    // === NARRATION PROMPTS PAGE ===
+    doc.addPage();
+    
+    doc.rect(0, 0, doc.page.width, 40).fill(sageGreen);
+    doc.fillColor('white')
+       .fontSize(18)
+       .font('Helvetica-Bold')
+       .text('Narration & Discussion Prompts', 50, 12);
+
+    yPos = 70;
+
+    const narrationPrompts = [
+      "Tell me about something interesting you learned today...",
+      "What was your favourite part of this activity?",
+      "If you could teach someone else about this, what would you say?",
+      "What questions do you still have?",
+      "How does this connect to something you already know?",
+      "What would you like to explore more deeply?",
+      "Describe what you made/discovered in your own words...",
+      "What surprised you today?"
+    ];
+
+    for (const prompt of narrationPrompts) {
+      if (yPos > 700) {
+        doc.addPage();
+        yPos = 60;
+      }
+
+      doc.fillColor(sageGreen)
+         .fontSize(12)
+         .font('Helvetica-Bold')
+         .text('❓', 50, yPos);
+
+      doc.fillColor('#333333')
+         .fontSize(11)
+         .font('Helvetica')
+         .text(prompt, 70, yPos, { width: doc.page.width - 120 });
+      
+      yPos += 25;
+
+      // Lines for response
+      for (let i = 0; i < 3; i++) {
+        doc.moveTo(70, yPos)
+           .lineTo(doc.page.width - 50, yPos)
+           .stroke('#DDDDDD');
+        yPos += 18;
+      }
+
+      yPos += 10;
+    }
+
+    // Finalize PDF
+    doc.end();
+
+  } catch (error: any) {
+    console.error("PDF generation error:", error);
+    res.status(500).json({ error: error.message || "Failed to generate PDF" });
+  }
+});
+
+// Journal endpoints
+const journalEntryInputSchema = z.object({
+  childId: z.string().min(1),
+  entryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date"),
+  content: z.string().trim().min(1),
+  photoUrls: z.array(z.string()).optional(),
+  // Subject tags and minutes feed the weekly compliance portfolio
+  subjects: z.array(z.string().trim().min(1)).optional(),
+  elapsedMinutes: z.number().int().min(0).nullable().optional(),
+});
+
+// Journal photos must be uploads the user can write to. Returns their object paths, or null if any isn't.
+async function resolveOwnedPhotoPaths(objectStorage: ObjectStorageService, photoUrls: string[], userId: string): Promise<string[] | null> {
+  const objectPaths: string[] = [];
+  for (const photoUrl of photoUrls) {
+    const objectPath = objectStorage.normalizeObjectEntityPath(photoUrl);
+    if (!objectPath.startsWith("/objects/")) {
+      return null;
+    }
+    try {
+      const objectFile = await objectStorage.getObjectEntityFile(objectPath);
+      const canWrite = await objectStorage.canAccessObjectEntity({
+        userId,
+        objectFile,
+        requestedPermission: ObjectPermission.WRITE,
+      });
+      if (!canWrite) {
+        return null;
+      }
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+    objectPaths.push(objectPath);
+  }
+  return objectPaths;
+}
+
+// Best-effort cleanup after an entry is gone; anything the user can't write to is left alone
+async function deleteOwnedJournalMedia(objectStorage: ObjectStorageService, urls: string[], userId: string): Promise<void> {
+  for (const url of urls) {
+    try {
+      const objectPath = objectStorage.normalizeObjectEntityPath(url);
+      if (!objectPath.startsWith("/objects/")) {
+        continue;
+      }
+      const objectFile = await objectStorage.getObjectEntityFile(objectPath);
+      const canWrite = await objectStorage.canAccessObjectEntity({
+        userId,
+        objectFile,
+        requestedPermission: ObjectPermission.WRITE,
+      });
+      if (canWrite) {
+        await objectFile.delete();
+      }
+    } catch (err) {
+      console.error("Error deleting journal media from storage:", err);
+    }
+  }
+}
+
+router.post("/api/journal", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const validationResult = journalEntryInputSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid journal entry", details: validationResult.error.errors });
+    }
+    const { childId, entryDate, content, photoUrls, subjects, elapsedMinutes } = validationResult.data;
+
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const photoPaths = await resolveOwnedPhotoPaths(new ObjectStorageService(), photoUrls || [], req.user.id);
+    if (!photoPaths) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const entry = await storage.createJournalEntry({
+      childId,
+      familyId: family.id,
+      entryDate,
+      content,
+      photoUrls: photoPaths,
+      subjects: subjects || [],
+      elapsedMinutes: elapsedMinutes ?? null,
+    });
+
+    res.json(entry);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const voiceJournalChildAnalysisSchema = z.object({
+  childNumber: z.coerce.number().int().min(1),
+  excerpt: z.string().default(""),
+  summary: z.string().default(""),
+  interests: z.array(z.string()).default([]),
+  skills: z.array(z.string()).default([]),
+  subjects: z.array(z.string().trim().min(1)).default([]),
+  enthusiasm: z.string().default("medium"),
+  notes: z.string().default(""),
+  emergingInterests: z.array(z.object({
+    title: z.string().trim().min(1).max(255),
+    description: z.string().optional(),
+  })).default([]),
+});
+type VoiceJournalChildAnalysis = z.infer<typeof voiceJournalChildAnalysisSchema>;
+
+const voiceJournalSplitSchema = z.object({
+  children: z.array(voiceJournalChildAnalysisSchema),
+});
+
+// Generate AI follow-up questions to deepen reflection
+async function generateJournalFollowUpQuestions(analysis: { summary: string; interests: string[]; skills: string[] }): Promise<string[]> {
+  const followUpPrompt = `Based on this learning journal entry, generate 2-3 thoughtful follow-up questions that would help the mum reflect more deeply and provide additional context. The questions should be warm, encouraging, and help uncover more details about the child's learning experience.
+
+Journal summary: ${analysis.summary}
+Interests detected: ${analysis.interests.join(', ') || 'None'}
+Skills shown: ${analysis.skills.join(', ') || 'None'}
+
+Generate questions that are:
+- Warm and conversational (addressing "you" as the mum)
+- Specific to the content mentioned
+- Designed to reveal more about the child's engagement, understanding, or next steps
+- Helpful for future curriculum planning
+
+Respond with ONLY a JSON array of 2-3 question strings, like: ["Question 1?", "Question 2?", "Question 3?"]`;
+
+  const questionsCompletion = await completeAiTask("followUpQuestions", {
+    messages: [{ role: "user", content: followUpPrompt }],
+    temperature: 0.7,
+    maxTokens: 200,
+    json: true,
+  });
+
+  let followUpQuestions: string[] = [];
+  try {
+    const questionsResponse = JSON.parse(questionsCompletion.text || '{"questions":[]}');
+    followUpQuestions = questionsResponse.questions || questionsResponse;
+    // Ensure it's an array
+    if (!Array.isArray(followUpQuestions)) {
+      followUpQuestions = Object.values(questionsResponse).filter((v): v is string => typeof v === 'string');
+    }
+  } catch (e) {
+    console.error('Failed to parse follow-up questions:', e);
+    followUpQuestions = [
+      "What seemed to spark the most excitement or curiosity?",
+      "Were there any moments of struggle or breakthrough?",
+    ];
+  }
+
+  return followUpQuestions;
+}
+
+interface VoiceJournalInput {
+  summary: string; // The parent's written summary, if they wrote one
+  audioPath: string | null;
+  duration?: number;
+  childId?: string;
+}
+
+// A parent often narrates about several children at once, so the analysis splits the
+// entry into one journal entry per child. Picking a child up front skips the split.
+async function saveVoiceJournalEntries(family: Family, candidates: Child[], input: VoiceJournalInput, spoken: Transcription | null) {
+  const spokenText = spoken?.text || "";
+  // Everything the AI reads about this entry: the written summary, the spoken transcript, or both
+  const transcript = input.summary && spokenText
+    ? `Parent's summary: ${input.summary}\n\nRecording transcript: ${spokenText}`
+    : input.summary || spokenText;
+
+  const curriculum = await storage.getActiveCurriculum(family.id);
+  const curriculumData = curriculum?.curriculumData as CurriculumData | undefined;
+  const currentWeek = curriculumData?.weeks.find(week => week.weekNumber === getCurrentWeekNumber(curriculumData.generatedAt));
+
+  const systemPrompt = `You are an educational AI assistant that analyzes voice journal entries from home education families to extract interest signals and learning patterns.
+
+Current family context:
+${input.childId ? `- This entry is only about: ${candidates[0].name} (age ${getAgeInYears(candidates[0].birthdate)})` : "- The entry may be about one, several or all of the children"}
+- Children:
+${candidates.map((c, i) => `  ${i + 1}. ${c.name} (age ${getAgeInYears(c.birthdate)}) - subject names for their records: ${getStandardConfig(c.educationStandard, c.standardMetadata).subjects.join(", ")}`).join('\n')}
+- Current curriculum theme: ${currentWeek?.familyTheme || 'Not available'}
+
+Your task is to work out which children the entry talks about, and for each of them:
+1. Pull out the parts of the transcript about that child, in the parent's own words (shared moments go to every child who took part)
+2. Summarize what that child did in 2-3 sentences
+3. Identify any new interests, topics, or learning directions
+4. Detect enthusiasm or engagement patterns
+5. Tag the subjects covered, using that child's subject names where they fit
+6. Extract specific skills or concepts demonstrated
+7. Note sudden new passions worth following up as emerging interests (only genuinely new sparks, not routine work)
+
+Leave out children the entry doesn't mention. If you can't tell who it is about, use child 1.
+
+Respond in JSON format:
+{
+  "children": [
+    {
+      "childNumber": 1,
+      "excerpt": "The parts of the transcript about this child",
+      "summary": "Brief summary of what this child did",
+      "interests": ["interest1", "interest2"],
+      "skills": ["skill1", "skill2"],
+      "subjects": ["Science"],
+      "enthusiasm": "high|medium|low",
+      "notes": "Any additional observations about learning progress or engagement",
+      "emergingInterests": [{ "title": "Short name, e.g. Volcanoes", "description": "What sparked it" }]
+    }
+  ]
+  }`;
+
+  const completion = await completeAiTask("journalAnalysis", {
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `Voice journal transcript:\n\n${transcript}` }
+    ],
+    temperature: 0.3,
+    json: true,
+  });
+
+  // Keep the first analysis per child, and fall back to the first child rather than losing the entry
+  const parsedSplit = voiceJournalSplitSchema.safeParse(parseJsonWithRepair(completion.text || '{}').value);
+  const splits = new Map<string, VoiceJournalChildAnalysis>();
+  for (const split of parsedSplit.success ? parsedSplit.data.children : []) {
+    const child = candidates[split.childNumber - 1];
+    if (child && !splits.has(child.id)) {
+      splits.set(child.id, split);
+    }
+  }
+  if (splits.size === 0) {
+    console.error('Voice journal analysis had no usable children:', parsedSplit.success ? 'empty' : formatZodIssues(parsedSplit.error));
+    splits.set(candidates[0].id, voiceJournalChildAnalysisSchema.parse({ childNumber: 1, summary: transcript.slice(0, 200) }));
+  }
+
+  const entryDate = new Date().toISOString().split('T')[0];
+  const audioDuration = input.duration || (spoken?.segments.length ? Math.round(spoken.segments[spoken.segments.length - 1].end) : null);
+  // The AI calls come first, so all the writes can go in one transaction
+  const prepared = await Promise.all(Array.from(splits.entries()).map(async ([targetChildId, split]) => {
+    const targetChild = candidates.find(c => c.id === targetChildId)!;
+    const { excerpt, emergingInterests, subjects, ...analysis } = split;
+    const followUpQuestions = await generateJournalFollowUpQuestions(analysis);
+
+    // New sparks go on the child's emerging interests, skipping ones they already have
+    const existingTitles = new Set((await storage.getEmergingInterests(targetChildId, family.id)).map(signal => signal.title.toLowerCase()));
+    const newInterests = emergingInterests.filter(interest => {
+      if (existingTitles.has(interest.title.toLowerCase())) return false;
+      existingTitles.add(interest.title.toLowerCase());
+      return true;
+    });
+
+    return { targetChild, excerpt, subjects, analysis, followUpQuestions, newInterests };
+  }));
+
+  // Each child gets their own entry; they all point at the one shared recording
+  const entries = await storage.createJournalEntriesWithInterests(
+    prepared.map(({ targetChild, excerpt, subjects, analysis, followUpQuestions }) => ({
+      childId: targetChild.id,
+      familyId: family.id,
+      entryDate,
+      content: splits.size === 1 ? input.summary || spokenText : excerpt || analysis.summary,
+      photoUrls: [],
+      audioUrl: input.audioPath,
+      audioDuration,
+      transcript: spoken ? spokenText : null,
+      transcriptSegments: spoken ? spoken.segments : null,
+      aiFollowUpQuestions: followUpQuestions,
+      aiAnalysis: analysis,
+      subjects,
+    })),
+    prepared.flatMap(({ targetChild, newInterests }) => newInterests.map(interest => ({
+      familyId: family.id,
+      childId: targetChild.id,
+      source: "voice_journal",
+      title: interest.title,
+      description: interest.description || null,
+      voiceNoteUrl: input.audioPath,
+    })))
+  );
+
+  return prepared.map(({ targetChild, analysis, followUpQuestions }, idx) => ({
+    entry: entries[idx],
+    analysis,
+    followUpQuestions,
+    childName: targetChild.name,
+  }));
+}
+
+// Transcription can take minutes, so it runs after the response. Entries saved from a written
+// summary get the transcript filled in; a recording on its own is analysed once it's transcribed.
+async function completeVoiceJournalTranscription(family: Family, candidates: Child[], input: VoiceJournalInput & { audioPath: string }, entryIds: string[]) {
+  let spoken: Transcription | null = null;
+  try {
+    const recording = await new ObjectStorageService().readObjectEntity(input.audioPath, MAX_RECORDING_BYTES);
+    spoken = await transcribeAudio({
+      audio: recording.data,
+      mimeType: recording.contentType,
+      language: family.locale.split("-")[0],
+    });
+  } catch (error: any) {
+    console.error("Voice journal transcription failed:", error);
+  }
+
+  if (entryIds.length > 0) {
+    if (!spoken) return;
+    const audioDuration = input.duration || (spoken.segments.length ? Math.round(spoken.segments[spoken.segments.length - 1].end) : null);
+    for (const entryId of entryIds) {
+      await storage.updateJournalEntry(entryId, {
+        transcript: spoken.text,
+        transcriptSegments: spoken.segments,
+        audioDuration,
+      });
+    }
+    return;
+  }
+
+  if (spoken?.text) {
+    try {
+      await saveVoiceJournalEntries(family, candidates, input, spoken);
+    } catch (error: any) {
+      // The analysis failed, but the transcript is already paid for, so save it as a plain entry
+      console.error("Voice journal analysis failed:", error);
+      const audioDuration = input.duration || (spoken.segments.length ? Math.round(spoken.segments[spoken.segments.length - 1].end) : null);
+      await storage.createJournalEntry({
+        childId: candidates[0].id,
+        familyId: family.id,
+        entryDate: new Date().toISOString().split('T')[0],
+        content: spoken.text,
+        photoUrls: [],
+        audioUrl: input.audioPath,
+        audioDuration,
+        transcript: spoken.text,
+        transcriptSegments: spoken.segments,
+        subjects: [],
+      });
+    }
+    return;
+  }
+
+  // Keep the recording rather than losing the parent's note; they can write it up from the journal
+  await storage.createJournalEntry({
+    childId: candidates[0].id,
+    familyId: family.id,
+    entryDate: new Date().toISOString().split('T')[0],
+    content: "Voice note - we couldn't transcribe this recording",
+    photoUrls: [],
+    audioUrl: input.audioPath,
+    audioDuration: input.duration ?? null,
+    subjects: [],
+  });
+}
+
+// Voice journal with background transcription and AI interest signal extraction
+router.post("/api/journal-voice", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const validationResult = z.object({
+      transcript: z.string().trim().optional(), // The parent's written summary
+      childId: z.string().min(1).optional(),
+      duration: z.number().int().min(0).optional(),
+      audioUrl: z.string().min(1).optional(),
+    }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid voice journal data", details: validationResult.error.errors });
+    }
+    const { childId, duration, audioUrl } = validationResult.data;
+    const summary = validationResult.data.transcript || "";
+    if (!summary && !audioUrl) {
+      return res.status(400).json({ error: "A recording or a written summary is required" });
+    }
+
+    // Get children for context
+    const children = await storage.getChildren(family.id);
+    if (children.length === 0) {
+      return res.status(400).json({ error: "No children found in family" });
+    }
+    if (childId && !children.some(c => c.id === childId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    let audioPath: string | null = null;
+    if (audioUrl) {
+      const objectStorage = new ObjectStorageService();
+      try {
+        audioPath = await objectStorage.claimObjectEntity(audioUrl, req.user.id);
+      } catch (error) {
+        if (error instanceof ObjectNotFoundError) {
+          return res.status(400).json({ error: "Recording not found. Please record again." });
+        }
+        throw error;
+      }
+      if (!audioPath) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+    }
+
+    // The recording is transcribed in the background, so a parent can just talk and skip the written summary
+    const transcribing = audioPath !== null && isSpeechToTextConfigured();
+    if (!summary && !transcribing) {
+      return res.status(422).json({ error: "We couldn't transcribe the recording. Please add a short written summary and save again." });
+    }
+
+    const candidates = childId ? children.filter(c => c.id === childId) : children;
+    const input: VoiceJournalInput = { summary, audioPath, duration, childId };
+    const transcribeInBackground = (entryIds: string[]) => {
+      completeVoiceJournalTranscription(family, candidates, { ...input, audioPath: audioPath! }, entryIds).catch((error) => {
+        console.error("Voice journal background processing failed:", error);
+      });
+    };
+
+    // Nothing to analyse until the recording is transcribed
+    if (!summary) {
+      transcribeInBackground([]);
+      return res.status(202).json({ entries: [], transcribing });
     }
 
-    // === NARRATION PROMPTS PAGE ===
-    doc.addPage();
-    
-    doc.rect(0, 0, doc.page.width, 40).fill(sageGreen);
-    doc.fillColor('white')
-       .fontSize(18)
-       .font('Helvetica-Bold')
-       .text('Narration & Discussion Prompts', 50, 12);
+    const results = await saveVoiceJournalEntries(family, candidates, input, null);
+    if (transcribing) {
+      transcribeInBackground(results.map(result => result.entry.id));
+    }
 
-    yPos = 70;
+    res.json({ entries: results, transcribing });
+  } catch (error: any) {
+    console.error('Voice journal error:', error);
+    res.status(500).json({ error: error.message || 'Failed to process voice journal' });
+  }
+});
 
-    const narrationPrompts = [
-      "Tell me about something interesting you learned today...",
-      "What was your favourite part of this activity?",
-      "If you could teach someone else about this, what would you say?",
-      "What questions do you still have?",
-      "How does this connect to something you already know?",
-      "What would you like to explore more deeply?",
-      "Describe what you made/discovered in your own words...",
-      "What surprised you today?"
-    ];
+router.get("/api/journal", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
 
-    for (const prompt of narrationPrompts) {
-      if (yPos > 700) {
-        doc.addPage();
-        yPos = 60;
-      }
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
 
-      doc.fillColor(sageGreen)
-         .fontSize(12)
-         .font('Helvetica-Bold')
-         .text('❓', 50, yPos);
+    const entries = await storage.getJournalEntries(family.id);
+    res.json(entries);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
-      doc.fillColor('#333333')
-         .fontSize(11)
-         .font('Helvetica')
-         .text(prompt, 70, yPos, { width: doc.page.width - 120 });
-      
-      yPos += 25;
+// Cursors come back from the client, so check they're a real date and id before they reach the query
+function decodeJournalCursor(cursor: string): JournalEntryCursor | null {
+  const [entryDate, id, ...rest] = Buffer.from(cursor, "base64url").toString().split("|");
+  if (rest.length > 0 || !id || !/^\d{4}-\d{2}-\d{2}$/.test(entryDate) || isNaN(parseISO(entryDate).getTime())) {
+    return null;
+  }
+  return { entryDate, id };
+}
 
-      // Lines for response
-      for (let i = 0; i < 3; i++) {
-        doc.moveTo(70, yPos)
-           .lineTo(doc.page.width - 50, yPos)
-           .stroke('#DDDDDD');
-        yPos += 18;
-      }
+// Journal - Filtered, searchable page of entries (newest first)
+router.get("/api/journal/entries", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
 
-      yPos += 10;
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
     }
 
-    // Finalize PDF
-    doc.end();
+    const validationResult = z.object({
+      childId: z.string().min(1).optional(),
+      subject: z.string().trim().min(1).optional(),
+      from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      q: z.string().trim().max(200).optional(),
+      cursor: z.string().transform((cursor, ctx) => {
+        const decoded = decodeJournalCursor(cursor);
+        if (!decoded) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+          return z.NEVER;
+        }
+        return decoded;
+      }).optional(),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+    }).safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid journal query", details: validationResult.error.errors });
+    }
+    const { q, ...filters } = validationResult.data;
 
+    const page = await storage.searchJournalEntries(family.id, { ...filters, search: q || undefined });
+    res.json(page);
   } catch (error: any) {
-    console.error("PDF generation error:", error);
-    res.status(500).json({ error: error.message || "Failed to generate PDF" });
+    res.status(500).json({ error: error.message });
   }
 });
 
-// Journal endpoints
-router.post("/api/journal", isAuthenticated, async (req: Request, res: Response) => {
+// Journal - Edit an entry
+router.patch("/api/journal/:entryId", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -2138,24 +4460,44 @@ router.post("/api/journal", isAuthenticated, async (req: Request, res: Response)
       return res.status(404).json({ error: "Family not found" });
     }
 
-    const { childId, entryDate, content, photoUrls } = req.body;
+    const entry = await storage.getJournalEntry(req.params.entryId);
+    if (!entry || entry.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
 
-    const entry = await storage.createJournalEntry({
-      childId,
-      familyId: family.id,
-      entryDate,
-      content,
-      photoUrls: photoUrls || [],
-    });
+    const validationResult = journalEntryInputSchema.partial().safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid journal entry", details: validationResult.error.errors });
+    }
+    const updates = validationResult.data;
 
-    res.json(entry);
+    // Moving an entry to another child is fine, as long as it's one of this family's
+    if (updates.childId && updates.childId !== entry.childId) {
+      const child = await storage.getChildById(updates.childId);
+      if (!child || child.familyId !== family.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+    }
+
+    // Photos already on the entry stay as they are; only newly attached ones are checked
+    if (updates.photoUrls) {
+      const existingPhotos = entry.photoUrls || [];
+      const addedPaths = await resolveOwnedPhotoPaths(new ObjectStorageService(), updates.photoUrls.filter(url => !existingPhotos.includes(url)), req.user.id);
+      if (!addedPaths) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      updates.photoUrls = updates.photoUrls.filter(url => existingPhotos.includes(url)).concat(addedPaths);
+    }
+
+    const updated = await storage.updateJournalEntry(entry.id, updates);
+    res.json(updated);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Voice journal with AI interest signal extraction
-router.post("/api/journal-voice", isAuthenticated, async (req: Request, res: Response) => {
+// Journal - Delete an entry and its photos and recording
+router.delete("/api/journal/:entryId", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -2166,146 +4508,238 @@ router.post("/api/journal-voice", isAuthenticated, async (req: Request, res: Res
       return res.status(404).json({ error: "Family not found" });
     }
 
-    const { transcript, childId, duration, audioUrl } = req.body;
-    if (!transcript || typeof transcript !== 'string') {
-      return res.status(400).json({ error: "Transcript or summary is required" });
+    const entry = await storage.getJournalEntry(req.params.entryId);
+    if (!entry || entry.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
     }
 
-    // Get children for context
-    const children = await storage.getChildren(family.id);
-    if (children.length === 0) {
-      return res.status(400).json({ error: "No children found in family" });
-    }
+    // A recording about several children is shared by their entries, so it stays until the last one goes
+    const sharesRecording = entry.audioUrl ? await storage.countJournalEntriesWithAudio(entry.audioUrl) > 1 : false;
 
-    // Determine which child this entry is for
-    let targetChildId = childId;
-    if (!targetChildId && children.length === 1) {
-      // If only one child, assign to them
-      targetChildId = children[0].id;
-    } else if (!targetChildId) {
-      // Multiple children - use AI to detect which child
-      const childDetectionPrompt = `Given this voice journal transcript about today's learning, which child is this about?
+    // The row goes first, so a storage failure can't leave an entry pointing at deleted media
+    await storage.deleteJournalEntry(entry.id);
+    await deleteOwnedJournalMedia(
+      new ObjectStorageService(),
+      [...(entry.photoUrls || []), ...(entry.audioUrl && !sharesRecording ? [entry.audioUrl] : [])],
+      req.user.id
+    );
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
 
-Children: ${children.map((c, i) => `${i + 1}. ${c.name} (age ${c.age})`).join(', ')}
+// Save follow-up question answers
+router.patch("/api/journal/:entryId/follow-up-answers", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
 
-Transcript: "${transcript}"
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
 
-Respond with ONLY the child's number (1, 2, 3, etc.). If you can't determine, respond with "1".`;
+    const { entryId } = req.params;
+    const { answers } = req.body;
 
-      const detectionResponse = await openai.chat.completions.create({
-        model: "anthropic/claude-3.5-sonnet",
-        messages: [{ role: "user", content: childDetectionPrompt }],
-        temperature: 0,
-        max_tokens: 10,
-      });
+    if (!Array.isArray(answers)) {
+      return res.status(400).json({ error: "Answers must be an array" });
+    }
 
-      const detectedIndex = parseInt(detectionResponse.choices[0].message.content?.trim() || "1") - 1;
-      targetChildId = children[Math.max(0, Math.min(detectedIndex, children.length - 1))].id;
+    const entry = await storage.getJournalEntry(entryId);
+    if (!entry || entry.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
     }
 
-    const curriculum = await storage.getCurriculum(family.id);
-    const targetChild = children.find(c => c.id === targetChildId);
+    await storage.updateJournalEntryFollowUpAnswers(entryId, answers);
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error saving follow-up answers:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    // Extract interest signals using Claude
-    const systemPrompt = `You are an educational AI assistant that analyzes voice journal entries from home education families to extract interest signals and learning patterns.
+// Narrations (Charlotte Mason) - a child's oral retelling of a reading from their week's daily plan
+const narrationInputSchema = z.object({
+  childId: z.string().min(1),
+  weekNumber: z.number().int().min(1),
+  day: z.enum(["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"]),
+  reading: z.string().trim().min(1),
+  narrationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date").optional(),
+  transcript: z.string().trim().optional(), // Typed by the parent, or a correction of the recording
+  audioUrl: z.string().min(1).optional(),
+  duration: z.number().int().min(0).optional(),
+  includeInPortfolio: z.boolean().optional(),
+});
 
-Current family context:
-- This entry is about: ${targetChild?.name} (age ${targetChild?.age})
-- All children: ${children.map(c => `${c.name} (age ${c.age})`).join(', ')}
-- Current curriculum theme: ${curriculum?.curriculumData ? (curriculum.curriculumData as CurriculumData).weeks[0]?.familyTheme : 'Not available'}
+const NO_PORTFOLIO_YEAR_ERROR = "Start a portfolio year that covers this date before adding narrations to it";
 
-Your task is to:
-1. Summarize the journal entry in 2-3 sentences
-2. Identify any new interests, topics, or learning directions mentioned
-3. Detect enthusiasm or engagement patterns
-4. Note any subjects or activities the child wants to explore more
-5. Extract specific skills or concepts demonstrated
+// Transcription can take minutes, so a recording without a typed narration is transcribed after the response.
+// If it fails the narration is kept, marked failed, for the parent to type up.
+async function completeNarrationTranscription(family: Family, narrationId: string, audioPath: string) {
+  let spoken: Transcription | null = null;
+  try {
+    const recording = await new ObjectStorageService().readObjectEntity(audioPath, MAX_RECORDING_BYTES);
+    spoken = await transcribeAudio({
+      audio: recording.data,
+      mimeType: recording.contentType,
+      language: family.locale.split("-")[0],
+    });
+  } catch (error: any) {
+    console.error("Narration transcription failed:", error);
+  }
 
-Respond in JSON format:
-{
-  "summary": "Brief summary of the journal entry",
-  "interests": ["interest1", "interest2"],
-  "skills": ["skill1", "skill2"],
-  "enthusiasm": "high|medium|low",
-  "notes": "Any additional observations about learning progress or engagement"
-}`;
+  // The parent may have typed the narration or deleted it in the meantime
+  const narration = await storage.getNarration(narrationId);
+  if (!narration || narration.transcriptionStatus !== "pending") return;
 
-    const completion = await openai.chat.completions.create({
-      model: "anthropic/claude-3.5-sonnet",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: `Voice journal transcript:\n\n${transcript}` }
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
-    });
+  if (!spoken?.text) {
+    await storage.updateNarration(narration.id, { transcriptionStatus: "failed" });
+    return;
+  }
+  const updated = await storage.updateNarration(narration.id, {
+    transcript: spoken.text,
+    transcriptSegments: spoken.segments.length ? spoken.segments : null,
+    transcriptionStatus: "done",
+  });
+  if (updated.includeInPortfolio) {
+    await syncNarrationSample(storage, updated, narration);
+  }
+}
 
-    const analysis = JSON.parse(completion.choices[0].message.content || '{}');
+router.post("/api/narrations", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
 
-    // Generate AI follow-up questions to deepen reflection
-    const followUpPrompt = `Based on this learning journal entry, generate 2-3 thoughtful follow-up questions that would help the mum reflect more deeply and provide additional context. The questions should be warm, encouraging, and help uncover more details about the child's learning experience.
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
 
-Journal summary: ${analysis.summary}
-Interests detected: ${analysis.interests?.join(', ') || 'None'}
-Skills shown: ${analysis.skills?.join(', ') || 'None'}
+    const validationResult = narrationInputSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid narration data", details: validationResult.error.errors });
+    }
+    const { childId, weekNumber, day, reading, audioUrl, duration } = validationResult.data;
+    const typed = validationResult.data.transcript || "";
+    if (!typed && !audioUrl) {
+      return res.status(400).json({ error: "A recording or a written narration is required" });
+    }
 
-Generate questions that are:
-- Warm and conversational (addressing "you" as the mum)
-- Specific to the content mentioned
-- Designed to reveal more about the child's engagement, understanding, or next steps
-- Helpful for future curriculum planning
+    const child = await storage.getChildById(childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
 
-Respond with ONLY a JSON array of 2-3 question strings, like: ["Question 1?", "Question 2?", "Question 3?"]`;
+    // The reading has to come from the child's plan for that day. A finished week may only be
+    // in an earlier version once the curriculum has been regenerated, so those count too.
+    const isPlannedReading = (curriculum: Curriculum) => {
+      const week = (curriculum.curriculumData as CurriculumData).weeks.find(w => w.weekNumber === weekNumber);
+      const plan = week?.children.find(c => c.childId === child.id);
+      return !!plan && plan.dailyPlan[day].some(activity => getActivityTitle(activity) === reading);
+    };
+    const activeCurriculum = await storage.getActiveCurriculum(family.id);
+    const isPlanned = (activeCurriculum && isPlannedReading(activeCurriculum))
+      || (await storage.getAllCurricula(family.id)).some(version => !version.isActive && isPlannedReading(version));
+    if (!isPlanned) {
+      return res.status(400).json({ error: `That reading isn't in ${child.name}'s plan for ${day} of week ${weekNumber}` });
+    }
 
-    const questionsCompletion = await openai.chat.completions.create({
-      model: "anthropic/claude-3.5-sonnet",
-      messages: [{ role: "user", content: followUpPrompt }],
-      temperature: 0.7,
-      max_tokens: 200,
-      response_format: { type: "json_object" },
-    });
+    const narrationDate = validationResult.data.narrationDate || formatDate(new Date(), "yyyy-MM-dd");
+    const includeInPortfolio = validationResult.data.includeInPortfolio || false;
+    if (includeInPortfolio && !(await findPortfolioYearForDate(storage, child.id, narrationDate))) {
+      return res.status(409).json({ error: NO_PORTFOLIO_YEAR_ERROR });
+    }
 
-    let followUpQuestions: string[] = [];
-    try {
-      const questionsResponse = JSON.parse(questionsCompletion.choices[0].message.content || '{"questions":[]}');
-      followUpQuestions = questionsResponse.questions || questionsResponse;
-      // Ensure it's an array
-      if (!Array.isArray(followUpQuestions)) {
-        followUpQuestions = Object.values(questionsResponse).filter((v): v is string => typeof v === 'string');
+    // A typed narration wins, so there's no need to transcribe
+    if (!typed && !isSpeechToTextConfigured()) {
+      return res.status(422).json({ error: "We can't transcribe recordings right now. Please type the narration and save again." });
+    }
+
+    let audioPath: string | null = null;
+    if (audioUrl) {
+      try {
+        audioPath = await new ObjectStorageService().claimObjectEntity(audioUrl, req.user.id);
+      } catch (error) {
+        if (error instanceof ObjectNotFoundError) {
+          return res.status(400).json({ error: "Recording not found. Please record again." });
+        }
+        throw error;
+      }
+      if (!audioPath) {
+        return res.status(403).json({ error: "Access denied" });
       }
-    } catch (e) {
-      console.error('Failed to parse follow-up questions:', e);
-      followUpQuestions = [
-        "What seemed to spark the most excitement or curiosity?",
-        "Were there any moments of struggle or breakthrough?",
-      ];
     }
 
-    const entry = await storage.createJournalEntry({
-      childId: targetChildId,
+    const transcribing = !typed && audioPath !== null;
+    const narration = await storage.createNarration({
       familyId: family.id,
-      entryDate: new Date().toISOString().split('T')[0],
-      content: transcript,
-      photoUrls: [],
-      audioUrl: audioUrl || null,
-      audioDuration: duration || null,
-      aiFollowUpQuestions: followUpQuestions,
-      aiAnalysis: analysis,
+      childId: child.id,
+      narrationDate,
+      weekNumber,
+      day,
+      reading,
+      audioUrl: audioPath,
+      audioDuration: duration ?? null,
+      transcript: typed,
+      transcriptSegments: null,
+      transcriptionStatus: transcribing ? "pending" : "done",
+      includeInPortfolio,
     });
 
-    res.json({ 
-      entry, 
-      analysis,
-      followUpQuestions,
-      childName: targetChild?.name 
+    // The portfolio sample is added once the transcript is in
+    if (transcribing) {
+      completeNarrationTranscription(family, narration.id, audioPath!).catch((error) => {
+        console.error("Narration background transcription failed:", error);
+      });
+      return res.status(202).json(narration);
+    }
+    if (includeInPortfolio) {
+      await syncNarrationSample(storage, narration);
+    }
+
+    res.json(narration);
+  } catch (error: any) {
+    console.error("Error saving narration:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Narrations for a child, newest first, each measured against the ones before it
+router.get("/api/children/:childId/narrations", isAuthenticated, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const family = await storage.getFamily(req.user.id);
+    if (!family) {
+      return res.status(404).json({ error: "Family not found" });
+    }
+
+    const child = await storage.getChildById(req.params.childId);
+    if (!child || child.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const measured = measureNarrations(await storage.getNarrationsByChild(child.id));
+    res.json({
+      narrations: [...measured].reverse(),
+      // Recordings without a transcript yet would count as empty narrations
+      growth: summarizeNarrationGrowth(measured.filter(narration => narration.transcriptionStatus === "done")),
     });
   } catch (error: any) {
-    console.error('Voice journal error:', error);
-    res.status(500).json({ error: error.message || 'Failed to process voice journal' });
+    res.status(500).json({ error: error.message });
   }
 });
 
-router.get("/api/journal", isAuthenticated, async (req: Request, res: Response) => {
+// Correct a narration's transcript, or choose whether it goes into the weekly portfolio
+router.patch("/api/narrations/:narrationId", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -2316,15 +4750,39 @@ router.get("/api/journal", isAuthenticated, async (req: Request, res: Response)
       return res.status(404).json({ error: "Family not found" });
     }
 
-    const entries = await storage.getJournalEntries(family.id);
-    res.json(entries);
+    const narration = await storage.getNarration(req.params.narrationId);
+    if (!narration || narration.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const validationResult = z.object({
+      transcript: z.string().trim().min(1).optional(),
+      includeInPortfolio: z.boolean().optional(),
+    }).safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid narration data", details: validationResult.error.errors });
+    }
+
+    if (validationResult.data.includeInPortfolio && !narration.includeInPortfolio
+      && !(await findPortfolioYearForDate(storage, narration.childId, narration.narrationDate))) {
+      return res.status(409).json({ error: NO_PORTFOLIO_YEAR_ERROR });
+    }
+
+    // A typed transcript replaces a pending or failed transcription
+    const updated = await storage.updateNarration(narration.id, {
+      ...validationResult.data,
+      ...(validationResult.data.transcript ? { transcriptionStatus: "done" } : {}),
+    });
+    if (updated.includeInPortfolio || narration.includeInPortfolio) {
+      await syncNarrationSample(storage, updated, narration);
+    }
+    res.json(updated);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Save follow-up question answers
-router.patch("/api/journal/:entryId/follow-up-answers", isAuthenticated, async (req: Request, res: Response) => {
+router.delete("/api/narrations/:narrationId", isAuthenticated, async (req: Request, res: Response) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -2335,18 +4793,22 @@ router.patch("/api/journal/:entryId/follow-up-answers", isAuthenticated, async (
       return res.status(404).json({ error: "Family not found" });
     }
 
-    const { entryId } = req.params;
-    const { answers } = req.body;
+    const narration = await storage.getNarration(req.params.narrationId);
+    if (!narration || narration.familyId !== family.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
 
-    if (!Array.isArray(answers)) {
-      return res.status(400).json({ error: "Answers must be an array" });
+    if (narration.includeInPortfolio) {
+      await syncNarrationSample(storage, { ...narration, includeInPortfolio: false });
     }
 
-    await storage.updateJournalEntryFollowUpAnswers(entryId, answers);
-    
+    // Remove the row first so a failed cleanup never leaves a narration pointing at missing audio
+    await storage.deleteNarration(narration.id);
+    if (narration.audioUrl) {
+      await deleteOwnedJournalMedia(new ObjectStorageService(), [narration.audioUrl], req.user.id);
+    }
     res.json({ success: true });
   } catch (error: any) {
-    console.error('Error saving follow-up answers:', error);
     res.status(500).json({ error: error.message });
   }
 });
@@ -2662,7 +5124,7 @@ router.get("/api/events/week/:weekNumber", isAuthenticated, async (req: Request,
     }
 
     const weekNumber = parseInt(req.params.weekNumber);
-    if (isNaN(weekNumber) || weekNumber < 1 || weekNumber > 12) {
+    if (isNaN(weekNumber) || weekNumber < 1) {
       return res.status(400).json({ error: "Invalid week number" });
     }
 
@@ -2719,7 +5181,7 @@ router.get("/api/events/week/:weekNumber", isAuthenticated, async (req: Request,
       
       if (curriculum) {
         const curriculumData = curriculum.curriculumData as any;
-        const weekTheme = curriculumData.weeks[weekNumber - 1]?.familyTheme || "education";
+        const weekTheme = curriculumData.weeks.find((w: any) => w.weekNumber === weekNumber)?.familyTheme || "education";
         console.log(`🎯 Week ${weekNumber} theme: "${weekTheme}" (fetching events for next 14 days)`);
         
         const radiusKm = (family.travelRadiusMinutes / 60) * 50; // Assume 50 km/h average speed
@@ -3266,3 +5728,16 @@ export async function registerRoutes(app: Express) {
 
   return server;
 }
+
+// Timers for the long-running server only, so importing the routes doesn't start them
+export function startBackgroundJobs(): NodeJS.Timeout[] {
+  return [
+    // Keep compliance portfolios in sync with journal entries
+    startPortfolioAggregationJob(storage),
+    // Archive finished curriculum weeks and plan new ones so the curriculum never runs out
+    startCurriculumRollingJob(storage, generateNextCurriculumWeek, async (curriculum) => {
+      await markInterestSignalsScheduled((curriculum.curriculumData as CurriculumData).weeks);
+      collaborationService?.broadcastCurriculumGenerated(curriculum.familyId);
+    }),
+  ];
+}
@@ -0,0 +1,479 @@
+import type { Family } from "@shared/schema";
+import { addDays, differenceInCalendarDays, format as formatDate, parseISO } from "date-fns";
+
+// Where and when a family is planning: season from latitude, plus the country's school calendar,
+// public holidays, spelling, units and currency. Feeds the FAMILY CONTEXT of curriculum prompts.
+
+// The stretch of curriculum being planned: week `firstWeek` starts on `startDate`
+export interface PlanningWindow {
+  startDate: Date;
+  firstWeek: number;
+  weekCount: number;
+}
+
+export type Hemisphere = "northern" | "southern";
+
+export interface SeasonalContext {
+  hemisphere: Hemisphere;
+  seasons: string;
+  localDate: string;
+  schoolCalendar: string;
+  schoolBreaks: string[];
+  publicHolidays: string[];
+  language: string;
+  units: string;
+  currency: string;
+  culture?: string;
+}
+
+// Months are 1-12 throughout, to read like a calendar
+type MonthDay = [month: number, day: number];
+
+type HolidayRule =
+  | { name: string; month: number; day: number }
+  | { name: string; easterOffset: number }
+  // nth (1-based, or -1 for the last) weekday (0 = Sunday) of the month, counting from fromDay
+  | { name: string; month: number; weekday: number; nth: number; fromDay?: number };
+
+interface SchoolBreak {
+  name: string;
+  from: MonthDay;
+  to: MonthDay;
+}
+
+interface CountryProfile {
+  locale: string;
+  measurementSystem: "metric" | "imperial";
+  currency: string;
+  schoolYear: string;
+  // Approximate - exact dates vary by state, district or school
+  schoolBreaks: SchoolBreak[];
+  holidays: HolidayRule[];
+  culture?: string;
+}
+
+const COMMON_HOLIDAYS = {
+  newYear: { name: "New Year's Day", month: 1, day: 1 },
+  goodFriday: { name: "Good Friday", easterOffset: -2 },
+  easterMonday: { name: "Easter Monday", easterOffset: 1 },
+  christmas: { name: "Christmas Day", month: 12, day: 25 },
+  boxingDay: { name: "Boxing Day", month: 12, day: 26 },
+} satisfies Record<string, HolidayRule>;
+
+const COUNTRY_PROFILES: Record<string, CountryProfile> = {
+  US: {
+    locale: "en-US",
+    measurementSystem: "imperial",
+    currency: "USD ($)",
+    schoolYear: "Late August/early September to late May/June (dates vary by district)",
+    schoolBreaks: [
+      { name: "Thanksgiving break", from: [11, 24], to: [11, 30] },
+      { name: "Winter break", from: [12, 20], to: [1, 3] },
+      { name: "Spring break", from: [3, 14], to: [3, 22] },
+      { name: "Summer vacation", from: [6, 10], to: [8, 25] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      { name: "Martin Luther King Jr. Day", month: 1, weekday: 1, nth: 3 },
+      { name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+      { name: "Memorial Day", month: 5, weekday: 1, nth: -1 },
+      { name: "Juneteenth", month: 6, day: 19 },
+      { name: "Independence Day", month: 7, day: 4 },
+      { name: "Labor Day", month: 9, weekday: 1, nth: 1 },
+      { name: "Veterans Day", month: 11, day: 11 },
+      { name: "Thanksgiving", month: 11, weekday: 4, nth: 4 },
+      COMMON_HOLIDAYS.christmas,
+    ],
+    culture: "Draw on local and state history, Native American nations of the area, and community traditions such as Halloween and Thanksgiving",
+  },
+  CA: {
+    locale: "en-CA",
+    measurementSystem: "metric",
+    currency: "CAD ($)",
+    schoolYear: "Early September to late June (dates vary by province)",
+    schoolBreaks: [
+      { name: "Winter break", from: [12, 21], to: [1, 5] },
+      { name: "March break", from: [3, 14], to: [3, 22] },
+      { name: "Summer holidays", from: [6, 28], to: [9, 2] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      { name: "Family Day (most provinces)", month: 2, weekday: 1, nth: 3 },
+      COMMON_HOLIDAYS.goodFriday,
+      { name: "Victoria Day", month: 5, weekday: 1, nth: 1, fromDay: 18 },
+      { name: "Canada Day", month: 7, day: 1 },
+      { name: "Civic Holiday (most provinces)", month: 8, weekday: 1, nth: 1 },
+      { name: "Labour Day", month: 9, weekday: 1, nth: 1 },
+      { name: "National Day for Truth and Reconciliation", month: 9, day: 30 },
+      { name: "Thanksgiving", month: 10, weekday: 1, nth: 2 },
+      { name: "Remembrance Day", month: 11, day: 11 },
+      COMMON_HOLIDAYS.christmas,
+      COMMON_HOLIDAYS.boxingDay,
+    ],
+    culture: "Draw on First Nations, Inuit and Métis knowledge, French as well as English Canada, and the local province's history",
+  },
+  GB: {
+    locale: "en-GB",
+    measurementSystem: "metric",
+    currency: "GBP (£)",
+    schoolYear: "Early September to late July, in three terms with half-terms (Scotland and local authorities differ)",
+    schoolBreaks: [
+      { name: "October half-term", from: [10, 25], to: [11, 2] },
+      { name: "Christmas holidays", from: [12, 20], to: [1, 5] },
+      { name: "February half-term", from: [2, 14], to: [2, 22] },
+      { name: "Easter holidays", from: [3, 29], to: [4, 13] },
+      { name: "May half-term", from: [5, 24], to: [6, 1] },
+      { name: "Summer holidays", from: [7, 22], to: [9, 2] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      COMMON_HOLIDAYS.goodFriday,
+      { name: "Easter Monday (not Scotland)", easterOffset: 1 },
+      { name: "Early May bank holiday", month: 5, weekday: 1, nth: 1 },
+      { name: "Spring bank holiday", month: 5, weekday: 1, nth: -1 },
+      { name: "Summer bank holiday", month: 8, weekday: 1, nth: -1 },
+      COMMON_HOLIDAYS.christmas,
+      COMMON_HOLIDAYS.boxingDay,
+    ],
+    culture: "Draw on local history, castles, museums and heritage sites, and traditions such as Bonfire Night and harvest festivals",
+  },
+  IE: {
+    locale: "en-IE",
+    measurementSystem: "metric",
+    currency: "EUR (€)",
+    schoolYear: "Late August/September to late June",
+    schoolBreaks: [
+      { name: "Halloween mid-term", from: [10, 27], to: [10, 31] },
+      { name: "Christmas holidays", from: [12, 21], to: [1, 5] },
+      { name: "February mid-term", from: [2, 16], to: [2, 20] },
+      { name: "Easter holidays", from: [3, 30], to: [4, 10] },
+      { name: "Summer holidays", from: [6, 27], to: [8, 31] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      { name: "St Brigid's Day", month: 2, weekday: 1, nth: 1 },
+      { name: "St Patrick's Day", month: 3, day: 17 },
+      COMMON_HOLIDAYS.easterMonday,
+      { name: "May bank holiday", month: 5, weekday: 1, nth: 1 },
+      { name: "June bank holiday", month: 6, weekday: 1, nth: 1 },
+      { name: "August bank holiday", month: 8, weekday: 1, nth: 1 },
+      { name: "October bank holiday", month: 10, weekday: 1, nth: -1 },
+      COMMON_HOLIDAYS.christmas,
+      { name: "St Stephen's Day", month: 12, day: 26 },
+    ],
+    culture: "Draw on the Irish language, myths and legends, and festivals such as Samhain and Bealtaine",
+  },
+  AU: {
+    locale: "en-AU",
+    measurementSystem: "metric",
+    currency: "AUD ($)",
+    schoolYear: "Late January/early February to mid December, in four terms (dates vary by state and territory)",
+    schoolBreaks: [
+      { name: "Summer holidays", from: [12, 18], to: [1, 28] },
+      { name: "Term 1 holidays", from: [4, 5], to: [4, 21] },
+      { name: "Term 2 holidays", from: [6, 28], to: [7, 14] },
+      { name: "Term 3 holidays", from: [9, 20], to: [10, 6] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      { name: "Australia Day", month: 1, day: 26 },
+      COMMON_HOLIDAYS.goodFriday,
+      COMMON_HOLIDAYS.easterMonday,
+      { name: "Anzac Day", month: 4, day: 25 },
+      { name: "King's Birthday (most states)", month: 6, weekday: 1, nth: 2 },
+      COMMON_HOLIDAYS.christmas,
+      COMMON_HOLIDAYS.boxingDay,
+    ],
+    culture: "Draw on Aboriginal and Torres Strait Islander knowledge of the local Country, and native plants and animals",
+  },
+  NZ: {
+    locale: "en-NZ",
+    measurementSystem: "metric",
+    currency: "NZD ($)",
+    schoolYear: "Late January/early February to mid December, in four terms",
+    schoolBreaks: [
+      { name: "Summer holidays", from: [12, 18], to: [2, 1] },
+      { name: "Term 1 holidays", from: [4, 12], to: [4, 27] },
+      { name: "Term 2 holidays", from: [7, 5], to: [7, 20] },
+      { name: "Term 3 holidays", from: [9, 27], to: [10, 12] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      { name: "Day after New Year's Day", month: 1, day: 2 },
+      { name: "Waitangi Day", month: 2, day: 6 },
+      COMMON_HOLIDAYS.goodFriday,
+      COMMON_HOLIDAYS.easterMonday,
+      { name: "Anzac Day", month: 4, day: 25 },
+      { name: "King's Birthday", month: 6, weekday: 1, nth: 1 },
+      { name: "Labour Day", month: 10, weekday: 1, nth: 4 },
+      COMMON_HOLIDAYS.christmas,
+      COMMON_HOLIDAYS.boxingDay,
+    ],
+    culture: "Draw on te reo Māori, local iwi history and Matariki (the Māori New Year, mid-winter)",
+  },
+  ZA: {
+    locale: "en-ZA",
+    measurementSystem: "metric",
+    currency: "ZAR (R)",
+    schoolYear: "Mid January to early December, in four terms",
+    schoolBreaks: [
+      { name: "Summer holidays", from: [12, 10], to: [1, 14] },
+      { name: "Term 1 holidays", from: [3, 28], to: [4, 8] },
+      { name: "Winter holidays", from: [6, 27], to: [7, 21] },
+      { name: "Term 3 holidays", from: [10, 3], to: [10, 13] },
+    ],
+    holidays: [
+      COMMON_HOLIDAYS.newYear,
+      { name: "Human Rights Day", month: 3, day: 21 },
+      COMMON_HOLIDAYS.goodFriday,
+      { name: "Family Day", easterOffset: 1 },
+      { name: "Freedom Day", month: 4, day: 27 },
+      { name: "Workers' Day", month: 5, day: 1 },
+      { name: "Youth Day", month: 6, day: 16 },
+      { name: "National Women's Day", month: 8, day: 9 },
+      { name: "Heritage Day", month: 9, day: 24 },
+      { name: "Day of Reconciliation", month: 12, day: 16 },
+      COMMON_HOLIDAYS.christmas,
+      { name: "Day of Goodwill", month: 12, day: 26 },
+    ],
+    culture: "Draw on South Africa's many languages and cultures, local wildlife and biomes, and its history",
+  },
+  IN: {
+    locale: "en-IN",
+    measurementSystem: "metric",
+    currency: "INR (₹)",
+    schoolYear: "April/June to March (dates vary by state and board)",
+    schoolBreaks: [
+      { name: "Summer vacation", from: [5, 1], to: [6, 30] },
+      { name: "Winter break", from: [12, 25], to: [1, 1] },
+    ],
+    holidays: [
+      { name: "Republic Day", month: 1, day: 26 },
+      { name: "Independence Day", month: 8, day: 15 },
+      { name: "Gandhi Jayanti", month: 10, day: 2 },
+    ],
+    culture: "Draw on regional languages and festivals that follow the lunar calendar, such as Diwali, Holi and Eid",
+  },
+};
+
+// Countries with no profile still get the right season, spelling and units
+const IMPERIAL_COUNTRIES = new Set(["US", "LR", "MM"]);
+
+// The locale and measurement system a family in this country most likely uses
+export function getLocaleDefaults(country: string): { locale: string; measurementSystem: "metric" | "imperial" } {
+  const profile = COUNTRY_PROFILES[country];
+  if (profile) {
+    return { locale: profile.locale, measurementSystem: profile.measurementSystem };
+  }
+  return {
+    locale: `en-${country}`,
+    measurementSystem: IMPERIAL_COUNTRIES.has(country) ? "imperial" : "metric",
+  };
+}
+
+// Families saved before locale and units followed the country hold the column defaults (en-AU,
+// metric) wherever they live, so only trust the stored values when the locale matches the country
+function resolveLocale(family: Family): { locale: string; measurementSystem: string } {
+  const region = family.locale?.split("-")[1]?.toUpperCase();
+  if (region === family.country) {
+    return { locale: family.locale, measurementSystem: family.measurementSystem };
+  }
+  return getLocaleDefaults(family.country);
+}
+
+// "Today" where the family lives, falling back to the server's date for unknown timezones
+function getLocalToday(timezone: string | null): Date {
+  if (timezone) {
+    try {
+      // en-CA formats as yyyy-MM-dd
+      return parseISO(new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(new Date()));
+    } catch {
+      console.warn(`Unknown family timezone "${timezone}", using server date`);
+    }
+  }
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+export function getHemisphere(latitude: number): Hemisphere {
+  return latitude < 0 ? "southern" : "northern";
+}
+
+// Meteorological seasons away from the tropics; wet and dry seasons within them
+export function getSeason(latitude: number, date: Date, country?: string): string {
+  const month = date.getMonth() + 1;
+  const southern = latitude < 0;
+
+  if (Math.abs(latitude) < 23.5) {
+    const wet = southern ? month >= 11 || month <= 4 : month >= 5 && month <= 10;
+    return wet ? "Wet season" : "Dry season";
+  }
+
+  // Shift the southern hemisphere by six months onto the northern calendar
+  const northernMonth = southern ? ((month + 5) % 12) + 1 : month;
+  if (northernMonth >= 3 && northernMonth <= 5) return "Spring";
+  if (northernMonth >= 6 && northernMonth <= 8) return "Summer";
+  if (northernMonth >= 9 && northernMonth <= 11) return country === "US" || country === "CA" ? "Fall" : "Autumn";
+  return "Winter";
+}
+
+// Anonymous Gregorian algorithm
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+function getHolidayDate(rule: HolidayRule, year: number): Date {
+  if ("easterOffset" in rule) {
+    return addDays(getEasterSunday(year), rule.easterOffset);
+  }
+  if ("day" in rule) {
+    return new Date(year, rule.month - 1, rule.day);
+  }
+  if (rule.nth === -1) {
+    const lastDay = new Date(year, rule.month, 0);
+    return addDays(lastDay, -((lastDay.getDay() - rule.weekday + 7) % 7));
+  }
+  const from = new Date(year, rule.month - 1, rule.fromDay ?? 1);
+  return addDays(from, (rule.weekday - from.getDay() + 7) % 7 + (rule.nth - 1) * 7);
+}
+
+function getWeekNumber(date: Date, window: PlanningWindow): number {
+  return window.firstWeek + Math.floor(differenceInCalendarDays(date, window.startDate) / 7);
+}
+
+function getPublicHolidays(rules: HolidayRule[], window: PlanningWindow, endDate: Date): string[] {
+  const years = [window.startDate.getFullYear(), endDate.getFullYear()].filter((year, idx, all) => all.indexOf(year) === idx);
+  return years
+    .flatMap(year => rules.map(rule => ({ name: rule.name, date: getHolidayDate(rule, year) })))
+    .filter(({ date }) => date >= window.startDate && date <= endDate)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(({ name, date }) => `${name} (${formatDate(date, "EEE d MMM")}, week ${getWeekNumber(date, window)})`);
+}
+
+function getSchoolBreaks(breaks: SchoolBreak[], window: PlanningWindow, endDate: Date): string[] {
+  const startYear = window.startDate.getFullYear();
+  const found: { name: string; from: Date; to: Date }[] = [];
+
+  // A break can straddle New Year, so check the occurrences starting in the year before too
+  for (let year = startYear - 1; year <= endDate.getFullYear(); year++) {
+    for (const schoolBreak of breaks) {
+      const from = new Date(year, schoolBreak.from[0] - 1, schoolBreak.from[1]);
+      const toYear = schoolBreak.to[0] < schoolBreak.from[0] ? year + 1 : year;
+      const to = new Date(toYear, schoolBreak.to[0] - 1, schoolBreak.to[1]);
+      if (from <= endDate && to >= window.startDate) {
+        found.push({ name: schoolBreak.name, from, to });
+      }
+    }
+  }
+
+  return found
+    .sort((a, b) => a.from.getTime() - b.from.getTime())
+    .map(({ name, from, to }) => {
+      const firstWeek = getWeekNumber(from < window.startDate ? window.startDate : from, window);
+      const lastWeek = getWeekNumber(to > endDate ? endDate : to, window);
+      const weeks = firstWeek === lastWeek ? `week ${firstWeek}` : `weeks ${firstWeek}-${lastWeek}`;
+      return `${name} (about ${formatDate(from, "d MMM")} - ${formatDate(to, "d MMM")}, ${weeks})`;
+    });
+}
+
+// "Spring (weeks 1-6), Summer (weeks 7-12)", judged at the middle of each week
+function describeSeasons(latitude: number, country: string, window: PlanningWindow): string {
+  const runs: { season: string; first: number; last: number }[] = [];
+  for (let offset = 0; offset < window.weekCount; offset++) {
+    const season = getSeason(latitude, addDays(window.startDate, offset * 7 + 3), country);
+    const weekNumber = window.firstWeek + offset;
+    const run = runs[runs.length - 1];
+    if (run && run.season === season) {
+      run.last = weekNumber;
+    } else {
+      runs.push({ season, first: weekNumber, last: weekNumber });
+    }
+  }
+  if (runs.length === 1) {
+    return runs[0].season;
+  }
+  return runs.map(run => `${run.season} (${run.first === run.last ? `week ${run.first}` : `weeks ${run.first}-${run.last}`})`).join(", ");
+}
+
+function describeLanguage(locale: string): string {
+  const [language, region] = locale.split("-");
+  let spelling = "British/Commonwealth English spelling (colour, centre, maths, mum)";
+  if (region?.toUpperCase() === "US") {
+    spelling = "American English spelling (color, center, math, mom)";
+  } else if (region?.toUpperCase() === "CA") {
+    spelling = "Canadian English spelling (colour, centre, math, mom)";
+  }
+  if (language.toLowerCase() === "en") {
+    return spelling;
+  }
+  let languageName = language;
+  try {
+    languageName = new Intl.DisplayNames(["en"], { type: "language" }).of(language) || language;
+  } catch {
+    // Fall back to the raw language code
+  }
+  return `${spelling}; the family's home language is ${languageName}, so weave it in where it fits`;
+}
+
+// Start of a fresh 12-week plan, in the family's own timezone
+export function getInitialPlanningWindow(family: Family, weekCount: number): PlanningWindow {
+  return { startDate: getLocalToday(family.timezone), firstWeek: 1, weekCount };
+}
+
+export function getSeasonalContext(family: Family, window: PlanningWindow): SeasonalContext {
+  const profile = COUNTRY_PROFILES[family.country];
+  const { locale, measurementSystem } = resolveLocale(family);
+  const endDate = addDays(window.startDate, window.weekCount * 7 - 1);
+
+  return {
+    hemisphere: getHemisphere(family.latitude),
+    seasons: describeSeasons(family.latitude, family.country, window),
+    localDate: `${formatDate(getLocalToday(family.timezone), "EEEE d MMMM yyyy")}${family.timezone ? ` (${family.timezone})` : ""}`,
+    schoolCalendar: profile?.schoolYear || "Follow the local school calendar",
+    schoolBreaks: profile ? getSchoolBreaks(profile.schoolBreaks, window, endDate) : [],
+    publicHolidays: profile ? getPublicHolidays(profile.holidays, window, endDate) : [],
+    language: describeLanguage(locale),
+    units: measurementSystem === "imperial"
+      ? "Imperial units (miles, pounds, °F, cups)"
+      : "Metric units (km, kg, °C, mL)",
+    currency: profile?.currency || "Local currency",
+    culture: profile?.culture,
+  };
+}
+
+// The FAMILY CONTEXT lines for a curriculum prompt
+export function formatSeasonalContext(context: SeasonalContext): string {
+  const lines = [
+    `- Hemisphere: ${context.hemisphere === "southern" ? "Southern" : "Northern"}`,
+    `- Season: ${context.seasons}`,
+    `- Today's Date: ${context.localDate}`,
+    `- School Year: ${context.schoolCalendar}`,
+  ];
+  if (context.schoolBreaks.length > 0) {
+    lines.push(`- School Holidays in This Period (approximate): ${context.schoolBreaks.join("; ")}`);
+  }
+  if (context.publicHolidays.length > 0) {
+    lines.push(`- Public Holidays in This Period: ${context.publicHolidays.join("; ")}`);
+  }
+  lines.push(`- Language: ${context.language}`);
+  lines.push(`- Units: ${context.units}`);
+  lines.push(`- Currency: ${context.currency}`);
+  if (context.culture) {
+    lines.push(`- Local Culture: ${context.culture}`);
+  }
+  return lines.join("\n");
+}
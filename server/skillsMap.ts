@@ -0,0 +1,234 @@
+import type { Child, CurriculumData, JournalEntry, SkillNode, SkillsMap, SkillTrend } from "@shared/schema";
+import { getStandardConfig } from "@shared/standardsConfig";
+import { getCurrentWeekNumber, getWeekDates } from "@shared/curriculumSchedule";
+import { differenceInCalendarDays, format as formatDate, parseISO, subDays } from "date-fns";
+
+// Confidence is a 0-100 score per skill. Each time a skill shows up it closes part of the gap to
+// 100 (more when the child was enthusiastic), and it fades while the skill goes unpractised.
+const GAIN_BY_ENTHUSIASM: Record<string, number> = { high: 0.35, medium: 0.25, low: 0.15 };
+const HALF_LIFE_DAYS = 90;
+const TREND_WINDOW_DAYS = 30;
+const TREND_THRESHOLD = 5;
+const MAX_EVIDENCE = 10;
+const OTHER_SUBJECT = "Other";
+
+// Same scale as the mastery rings on the progress page
+const MASTERY_LEVEL_CONFIDENCE: Record<string, number> = {
+  exposure: 25,
+  developing: 50,
+  strong: 70,
+  mastery: 90,
+  mentor: 100,
+};
+
+// Fallback for skills whose journal entries weren't tagged with a subject
+const SUBJECT_KEYWORDS: Array<{ subjectTerms: string[]; skillTerms: string[] }> = [
+  { subjectTerms: ["math"], skillTerms: ["math", "count", "number", "add", "subtract", "multipl", "divid", "fraction", "measur", "geometr", "shape", "pattern", "money", "time"] },
+  { subjectTerms: ["english", "language arts", "native language", "literature"], skillTerms: ["read", "writ", "spell", "phonic", "narrat", "story", "grammar", "vocab", "poem", "letter"] },
+  { subjectTerms: ["science"], skillTerms: ["experiment", "observ", "hypothes", "predict", "biolog", "chemi", "physic", "nature", "plant", "animal", "weather"] },
+  { subjectTerms: ["history", "social", "humanities"], skillTerms: ["history", "histori", "map", "geograph", "culture", "timeline", "community"] },
+  { subjectTerms: ["art", "fine arts"], skillTerms: ["draw", "paint", "sketch", "colour", "color", "music", "sing", "craft", "sculpt"] },
+  { subjectTerms: ["language", "french"], skillTerms: ["french", "spanish", "german", "mandarin", "japanese", "italian"] },
+];
+
+interface Observation {
+  date: string;
+  gain?: number; // Journal mention
+  level?: number; // Weekly mastery update - confidence is at least this
+  subjectTags: string[];
+  entry?: JournalEntry;
+}
+
+interface SkillAccumulator {
+  skill: string;
+  observations: Observation[];
+}
+
+function normalizeKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function displayName(skill: string): string {
+  const trimmed = skill.replace(/\s+/g, " ").trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+// Every word of the shorter name starts a word of the longer one: "Science" matches "Sciences",
+// "Math" matches "Mathematics", but "Art" doesn't match "Partitioning"
+function subjectMatches(subject: string, tag: string): boolean {
+  const words = (text: string) => normalizeKey(text).split(/[^a-z0-9]+/).filter(Boolean);
+  const [shorter, longer] = [words(subject), words(tag)].sort((a, b) => a.length - b.length);
+  return shorter.length > 0 && shorter.every(word => longer.some(candidate => candidate.startsWith(word) || word.startsWith(candidate)));
+}
+
+function keywordSubject(skill: string, subjects: string[]): string | null {
+  const key = normalizeKey(skill);
+  for (const { subjectTerms, skillTerms } of SUBJECT_KEYWORDS) {
+    if (!skillTerms.some(term => key.includes(term))) continue;
+    const subject = subjects.find(candidate => subjectTerms.some(term => normalizeKey(candidate).includes(term)));
+    if (subject) {
+      return subject;
+    }
+  }
+  return null;
+}
+
+function resolveSubject(skill: string, subjectTags: string[], subjects: string[]): string {
+  // Mastery updates are often keyed by the subject itself
+  const named = subjects.find(candidate => subjectMatches(candidate, skill));
+  if (named) {
+    return named;
+  }
+
+  // The journal analysis tags entries with the child's own subject names. An entry can cover
+  // several subjects, so the keywords break ties between them.
+  const guessed = keywordSubject(skill, subjects);
+  const votes = new Map<string, number>();
+  for (const tag of subjectTags) {
+    const subject = subjects.find(candidate => subjectMatches(candidate, tag));
+    if (subject) {
+      votes.set(subject, (votes.get(subject) || 0) + 1);
+    }
+  }
+  if (votes.size > 0) {
+    const ranked = Array.from(votes.entries()).sort((a, b) => b[1] - a[1]);
+    const tied = ranked.filter(([, count]) => count === ranked[0][1]).map(([subject]) => subject);
+    return guessed && tied.includes(guessed) ? guessed : ranked[0][0];
+  }
+
+  return guessed || OTHER_SUBJECT;
+}
+
+function decay(confidence: number, fromDate: string, toDate: string): number {
+  const days = Math.max(0, differenceInCalendarDays(parseISO(toDate), parseISO(fromDate)));
+  return confidence * Math.pow(0.5, days / HALF_LIFE_DAYS);
+}
+
+function confidenceOn(history: Array<{ date: string; confidence: number }>, date: string): number {
+  const last = history.filter(point => point.date <= date).pop();
+  return last ? decay(last.confidence, last.date, date) : 0;
+}
+
+function buildSkillNode(accumulator: SkillAccumulator, subjects: string[], today: string): SkillNode {
+  const observations = [...accumulator.observations].sort((a, b) => a.date.localeCompare(b.date));
+
+  const history: Array<{ date: string; confidence: number }> = [];
+  let confidence = 0;
+  let lastDate: string | null = null;
+  for (const observation of observations) {
+    if (lastDate) {
+      confidence = decay(confidence, lastDate, observation.date);
+    }
+    if (observation.gain) {
+      confidence += (100 - confidence) * observation.gain;
+    }
+    if (observation.level) {
+      confidence = Math.max(confidence, observation.level);
+    }
+    lastDate = observation.date;
+    // One point per day - the last observation of the day wins
+    if (history.length > 0 && history[history.length - 1].date === observation.date) {
+      history.pop();
+    }
+    history.push({ date: observation.date, confidence: Math.round(confidence) });
+  }
+
+  const firstSeen = observations[0].date;
+  const lastPractised = observations[observations.length - 1].date;
+  const current = confidenceOn(history, today);
+  const windowStart = formatDate(subDays(parseISO(today), TREND_WINDOW_DAYS), "yyyy-MM-dd");
+  let trend: SkillTrend;
+  if (firstSeen > windowStart) {
+    trend = "new";
+  } else {
+    const change = current - confidenceOn(history, windowStart);
+    trend = change >= TREND_THRESHOLD ? "rising" : change <= -TREND_THRESHOLD ? "falling" : "steady";
+  }
+
+  const evidence = observations
+    .filter((observation): observation is Observation & { entry: JournalEntry } => !!observation.entry)
+    .reverse()
+    .slice(0, MAX_EVIDENCE)
+    .map(({ entry }) => ({
+      entryId: entry.id,
+      entryDate: entry.entryDate,
+      excerpt: ((entry.aiAnalysis as { summary?: string } | null)?.summary || entry.content).slice(0, 200),
+    }));
+
+  return {
+    skill: accumulator.skill,
+    subject: resolveSubject(accumulator.skill, observations.flatMap(o => o.subjectTags), subjects),
+    firstSeen,
+    lastPractised,
+    occurrences: observations.length,
+    confidence: Math.round(current),
+    trend,
+    history,
+    evidence,
+  };
+}
+
+// Accumulate a child's skills from their journal analyses and the mastery updates of finished curriculum weeks
+export function buildSkillsMap(
+  child: Child,
+  entries: JournalEntry[],
+  curriculum: CurriculumData | null,
+  today: Date = new Date()
+): SkillsMap {
+  const todayKey = formatDate(today, "yyyy-MM-dd");
+  const skills = new Map<string, SkillAccumulator>();
+  const observe = (skill: string, observation: Observation) => {
+    const key = normalizeKey(skill);
+    if (!key) return;
+    const accumulator = skills.get(key) || { skill: displayName(skill), observations: [] };
+    accumulator.observations.push(observation);
+    skills.set(key, accumulator);
+  };
+
+  for (const entry of entries) {
+    if (entry.childId !== child.id || entry.entryDate > todayKey) continue;
+    const analysis = entry.aiAnalysis as { skills?: unknown; enthusiasm?: unknown } | null;
+    if (!analysis || !Array.isArray(analysis.skills)) continue;
+    const gain = GAIN_BY_ENTHUSIASM[String(analysis.enthusiasm).toLowerCase()] || GAIN_BY_ENTHUSIASM.medium;
+    // A skill named twice in one entry still only counts once
+    const entrySkills = new Map(analysis.skills
+      .filter((skill): skill is string => typeof skill === "string")
+      .map(skill => [normalizeKey(skill), skill]));
+    entrySkills.forEach(skill => observe(skill, { date: entry.entryDate, gain, subjectTags: entry.subjects || [], entry }));
+  }
+
+  // Planned mastery only counts once the week is over
+  if (curriculum) {
+    const currentWeek = getCurrentWeekNumber(curriculum.generatedAt, today);
+    for (const week of curriculum.weeks) {
+      if (week.weekNumber >= currentWeek) continue;
+      const plan = week.children.find(c => c.childId === child.id);
+      const weekEnd = formatDate(getWeekDates(curriculum.generatedAt, week.weekNumber).endDate, "yyyy-MM-dd");
+      for (const [topic, level] of Object.entries(plan?.masteryUpdates || {})) {
+        const levelConfidence = MASTERY_LEVEL_CONFIDENCE[normalizeKey(level)];
+        if (levelConfidence) {
+          observe(topic, { date: weekEnd, level: levelConfidence, subjectTags: [] });
+        }
+      }
+    }
+  }
+
+  const subjects = getStandardConfig(child.educationStandard, child.standardMetadata).subjects;
+  const groups = new Map<string, SkillNode[]>();
+  skills.forEach(accumulator => {
+    const node = buildSkillNode(accumulator, subjects, todayKey);
+    groups.set(node.subject, [...(groups.get(node.subject) || []), node]);
+  });
+
+  // Standard subjects in their usual order, then "Other"; strongest skills first
+  const subjectOrder = [...subjects, OTHER_SUBJECT];
+  return {
+    childId: child.id,
+    subjects: Array.from(groups.entries())
+      .sort((a, b) => subjectOrder.indexOf(a[0]) - subjectOrder.indexOf(b[0]))
+      .map(([subject, nodes]) => ({
+        subject,
+        skills: nodes.sort((a, b) => b.confidence - a.confidence || a.skill.localeCompare(b.skill)),
+      })),
+  };
+}
@@ -0,0 +1,219 @@
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import OpenAI, { toFile } from "openai";
+import type { TranscriptSegment } from "@shared/schema";
+
+// Voice journal recordings are transcribed on the server through a speech-to-text engine.
+// Engines are tried in order and the first one that succeeds wins, like the AI task routes.
+//
+// Configuration (all optional):
+// - STT_ENGINE=whisper-cpp,openai   choose and order the engines (default: every configured engine)
+// - WHISPER_CPP_MODEL=/models/ggml-base.en.bin   enables the local whisper.cpp engine, which works offline
+// - WHISPER_CPP_BIN=whisper-cli     whisper.cpp binary (default "whisper-cli" on the PATH)
+// - FFMPEG_PATH=ffmpeg              ffmpeg binary, used to turn browser recordings into the 16 kHz WAV whisper.cpp reads
+// - OPENAI_API_KEY                  enables OpenAI's hosted Whisper
+// AI_PROVIDER=fixture also swaps in a canned transcript, so voice journals work without either engine.
+
+export type SpeechToTextEngineId = "whisper-cpp" | "openai" | "fixture";
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimeType: string;
+  // ISO 639-1 code such as "en"; engines detect the language when it's missing
+  language?: string;
+}
+
+export interface Transcription {
+  text: string;
+  segments: TranscriptSegment[];
+  engine: string;
+}
+
+interface SpeechToTextEngine {
+  label: string;
+  isConfigured(): boolean;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptSegment[]>;
+}
+
+const TRANSCRIBE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// OpenAI's upload limit, and well over an hour of compressed browser audio
+export const MAX_RECORDING_BYTES = 25 * 1024 * 1024;
+
+// Run a command to completion, failing on a non-zero exit or once the timeout passes
+function runCommand(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`${command} timed out`));
+    }, TRANSCRIBE_TIMEOUT_MS);
+
+    child.stderr.on("data", (chunk) => {
+      // Keep the tail only - whisper.cpp is chatty
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+function extensionForMimeType(mimeType: string): string {
+  if (mimeType.includes("webm")) return "webm";
+  if (mimeType.includes("mp4") || mimeType.includes("m4a")) return "m4a";
+  if (mimeType.includes("ogg")) return "ogg";
+  if (mimeType.includes("wav")) return "wav";
+  if (mimeType.includes("mpeg")) return "mp3";
+  return "bin";
+}
+
+// whisper.cpp's -oj output: offsets are in milliseconds
+interface WhisperCppOutput {
+  transcription?: Array<{ offsets: { from: number; to: number }; text: string }>;
+}
+
+const whisperCppEngine: SpeechToTextEngine = {
+  label: "whisper.cpp",
+  isConfigured: () => !!process.env.WHISPER_CPP_MODEL,
+  async transcribe({ audio, mimeType, language }) {
+    const workDir = await mkdtemp(path.join(os.tmpdir(), "voice-journal-"));
+    try {
+      const inputPath = path.join(workDir, `recording.${extensionForMimeType(mimeType)}`);
+      const wavPath = path.join(workDir, "recording.wav");
+      const outputBase = path.join(workDir, "transcript");
+      await writeFile(inputPath, audio);
+
+      await runCommand(process.env.FFMPEG_PATH || "ffmpeg", [
+        "-nostdin", "-loglevel", "error", "-y",
+        "-i", inputPath,
+        "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le",
+        wavPath,
+      ]);
+      await runCommand(process.env.WHISPER_CPP_BIN || "whisper-cli", [
+        "-m", process.env.WHISPER_CPP_MODEL!,
+        "-f", wavPath,
+        "-l", language || "auto",
+        "-oj",
+        "-of", outputBase,
+        "-np",
+      ]);
+
+      const output = JSON.parse(await readFile(`${outputBase}.json`, "utf8")) as WhisperCppOutput;
+      return (output.transcription || []).map(segment => ({
+        start: segment.offsets.from / 1000,
+        end: segment.offsets.to / 1000,
+        text: segment.text,
+      }));
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  },
+};
+
+const openAiClient = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+
+const openAiEngine: SpeechToTextEngine = {
+  label: "OpenAI Whisper",
+  isConfigured: () => openAiClient !== null,
+  async transcribe({ audio, mimeType, language }) {
+    if (!openAiClient) {
+      throw new Error("OpenAI Whisper is not configured");
+    }
+    const transcription = await openAiClient.audio.transcriptions.create({
+      file: await toFile(audio, `recording.${extensionForMimeType(mimeType)}`, { type: mimeType }),
+      model: "whisper-1",
+      language,
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment"],
+    });
+    return (transcription.segments || []).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+    }));
+  },
+};
+
+// A fixed transcript for local development and tests
+const fixtureEngine: SpeechToTextEngine = {
+  label: "Local fixtures",
+  isConfigured: () => true,
+  async transcribe() {
+    return [
+      { start: 0, end: 4.2, text: "Today we went down to the creek and looked for tadpoles." },
+      { start: 4.2, end: 9.8, text: "They counted how many they could see and drew the different stages in their nature journal." },
+      { start: 9.8, end: 13.5, text: "Afterwards we read a book about frogs and talked about metamorphosis." },
+    ];
+  },
+};
+
+const engines: Record<SpeechToTextEngineId, SpeechToTextEngine> = {
+  "whisper-cpp": whisperCppEngine,
+  openai: openAiEngine,
+  fixture: fixtureEngine,
+};
+
+const DEFAULT_ENGINE_ORDER: SpeechToTextEngineId[] = ["whisper-cpp", "openai"];
+
+export function getSpeechToTextEngines(): SpeechToTextEngineId[] {
+  if (process.env.AI_PROVIDER === "fixture" && !process.env.STT_ENGINE) {
+    return ["fixture"];
+  }
+  const order = process.env.STT_ENGINE
+    ? process.env.STT_ENGINE.split(",").map(id => id.trim()).filter((id): id is SpeechToTextEngineId => {
+        if (id in engines) return true;
+        console.warn(`Ignoring unknown speech-to-text engine "${id}"`);
+        return false;
+      })
+    : DEFAULT_ENGINE_ORDER;
+  return order.filter(id => engines[id].isConfigured());
+}
+
+export function isSpeechToTextConfigured(): boolean {
+  return getSpeechToTextEngines().length > 0;
+}
+
+// Engines disagree on spacing around segments, so tidy them up and drop empty ones
+function cleanSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments
+    .map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, " ").trim() }))
+    .filter(segment => segment.text.length > 0);
+}
+
+// Transcribe with each engine in turn. If every engine fails, the first error is rethrown.
+export async function transcribeAudio(request: TranscriptionRequest): Promise<Transcription> {
+  const engineIds = getSpeechToTextEngines();
+  if (engineIds.length === 0) {
+    throw new Error("No speech-to-text engine configured. Please set WHISPER_CPP_MODEL or OPENAI_API_KEY.");
+  }
+
+  let firstError: any = null;
+  for (const engineId of engineIds) {
+    const engine = engines[engineId];
+    try {
+      const segments = cleanSegments(await engine.transcribe(request));
+      return {
+        text: segments.map(segment => segment.text).join(" "),
+        segments,
+        engine: engine.label,
+      };
+    } catch (error: any) {
+      console.error(`Speech-to-text engine ${engine.label} failed:`, error.message);
+      firstError = firstError || error;
+    }
+  }
+  throw firstError;
+}
@@ -5,8 +5,12 @@ import type {
   Child,
   InsertCurriculum,
   Curriculum,
+  InsertCurriculumTemplate,
+  CurriculumTemplate,
   InsertJournalEntry,
   JournalEntry,
+  InsertNarration,
+  Narration,
   InsertLocalOpportunity,
   LocalOpportunity,
   InsertSubscription,
@@ -29,10 +33,45 @@ import type {
   TranscriptCourse,
   InsertCreditMapping,
   CreditMapping,
+  InsertTranscriptVerification,
+  TranscriptVerification,
+  InsertStateRequirement,
+  StateRequirement,
+  InsertChildPortfolioYear,
+  ChildPortfolioYear,
+  InsertPortfolioEntry,
+  PortfolioEntry,
   User,
   UpsertUser,
 } from "@shared/schema";
 
+// Escape LIKE wildcards so user text is matched literally (backslash is Postgres's default escape character)
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+// Filters and a page of the journal, newest first
+export interface JournalEntryQuery {
+  childId?: string;
+  subject?: string;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+  search?: string; // Matched against content, transcript, AI analysis and subjects
+  cursor?: JournalEntryCursor; // Decoded nextCursor from the previous page
+  limit: number;
+}
+
+// Position of the last entry on a page, sent to the client base64url-encoded as "entryDate|id"
+export interface JournalEntryCursor {
+  entryDate: string; // yyyy-MM-dd
+  id: string;
+}
+
+export interface JournalEntryPage {
+  entries: JournalEntry[];
+  nextCursor: string | null;
+}
+
 export interface IStorage {
   // User (for authentication)
   getUser(id: string): Promise<User | undefined>;
@@ -41,6 +80,7 @@ export interface IStorage {
   // Family
   createFamily(family: InsertFamily): Promise<Family>;
   getFamily(userId: string): Promise<Family | null>;
+  getFamilyById(familyId: string): Promise<Family | null>;
   updateFamily(userId: string, updates: Partial<InsertFamily>): Promise<Family>;
 
   // Children
@@ -54,16 +94,41 @@ export interface IStorage {
   createCurriculum(curriculum: InsertCurriculum): Promise<Curriculum>;
   getActiveCurriculum(familyId: string): Promise<Curriculum | null>;
   getAllCurricula(familyId: string): Promise<Curriculum[]>;
-  deactivateAllCurricula(familyId: string): Promise<void>;
+  getAllActiveCurricula(): Promise<Curriculum[]>;
+  getCurriculum(curriculumId: string): Promise<Curriculum | null>;
+  activateCurriculum(familyId: string, curriculumId: string): Promise<Curriculum>;
+  replaceActiveCurriculum(curriculum: InsertCurriculum): Promise<Curriculum>;
+  updateCurriculum(curriculumId: string, updates: Partial<InsertCurriculum>): Promise<Curriculum>;
+
+  // Curriculum Templates
+  createCurriculumTemplate(template: InsertCurriculumTemplate): Promise<CurriculumTemplate>;
+  getCurriculumTemplate(templateId: string): Promise<CurriculumTemplate | null>;
+  getCurriculumTemplates(familyId: string): Promise<CurriculumTemplate[]>;
+  getPublishedCurriculumTemplates(filters: { approach?: string; ageBand?: string; theme?: string }): Promise<CurriculumTemplate[]>;
+  updateCurriculumTemplate(templateId: string, updates: Partial<InsertCurriculumTemplate>): Promise<CurriculumTemplate>;
+  incrementTemplateImportCount(templateId: string): Promise<void>;
+  deleteCurriculumTemplate(templateId: string): Promise<void>;
 
   // Journal Entries
   createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
+  createJournalEntriesWithInterests(entries: InsertJournalEntry[], interests: InsertEmergingInterestSignal[]): Promise<JournalEntry[]>;
   getJournalEntries(familyId: string): Promise<JournalEntry[]>;
   getJournalEntriesByChild(childId: string): Promise<JournalEntry[]>;
+  getJournalEntry(entryId: string): Promise<JournalEntry | null>;
+  countJournalEntriesWithAudio(audioUrl: string): Promise<number>;
+  searchJournalEntries(familyId: string, query: JournalEntryQuery): Promise<JournalEntryPage>;
   updateJournalEntry(entryId: string, updates: Partial<InsertJournalEntry>): Promise<JournalEntry>;
   updateJournalEntryFollowUpAnswers(entryId: string, answers: string[]): Promise<JournalEntry>;
   deleteJournalEntry(entryId: string): Promise<void>;
 
+  // Narrations
+  createNarration(narration: InsertNarration): Promise<Narration>;
+  getNarrations(familyId: string): Promise<Narration[]>;
+  getNarrationsByChild(childId: string): Promise<Narration[]>;
+  getNarration(narrationId: string): Promise<Narration | null>;
+  updateNarration(narrationId: string, updates: Partial<InsertNarration>): Promise<Narration>;
+  deleteNarration(narrationId: string): Promise<void>;
+
   // Local Opportunities
   createOpportunity(opportunity: InsertLocalOpportunity): Promise<LocalOpportunity>;
   getOpportunities(familyId: string): Promise<LocalOpportunity[]>;
@@ -135,15 +200,46 @@ export interface IStorage {
   // High School Mode - Credit Mappings
   createCreditMapping(mapping: InsertCreditMapping): Promise<CreditMapping>;
   getCreditMappings(childId: string): Promise<CreditMapping[]>;
+  getCreditMapping(mappingId: string): Promise<CreditMapping | null>;
   updateCreditMapping(mappingId: string, updates: Partial<InsertCreditMapping>): Promise<CreditMapping>;
   deleteCreditMapping(mappingId: string): Promise<void>;
 
+  // High School Mode - Transcript Verifications
+  createTranscriptVerification(verification: InsertTranscriptVerification): Promise<TranscriptVerification>;
+  getTranscriptVerifications(childId: string): Promise<TranscriptVerification[]>;
+  getTranscriptVerification(verificationId: string): Promise<TranscriptVerification | null>;
+  getTranscriptVerificationByCode(verificationCode: string): Promise<TranscriptVerification | null>;
+  revokeTranscriptVerification(verificationId: string): Promise<TranscriptVerification>;
+
+  // Compliance Portfolio - State Requirements
+  createStateRequirement(requirement: InsertStateRequirement): Promise<StateRequirement>;
+  getStateRequirements(countryCode?: string): Promise<StateRequirement[]>;
+  getStateRequirement(requirementId: string): Promise<StateRequirement | null>;
+  updateStateRequirement(requirementId: string, updates: Partial<InsertStateRequirement>): Promise<StateRequirement>;
+
+  // Compliance Portfolio - Academic Years
+  createPortfolioYear(year: InsertChildPortfolioYear): Promise<ChildPortfolioYear>;
+  getPortfolioYears(childId: string): Promise<ChildPortfolioYear[]>;
+  getAllPortfolioYears(): Promise<ChildPortfolioYear[]>;
+  getPortfolioYear(yearId: string): Promise<ChildPortfolioYear | null>;
+  updatePortfolioYear(yearId: string, updates: Partial<InsertChildPortfolioYear>): Promise<ChildPortfolioYear>;
+  deletePortfolioYear(yearId: string): Promise<void>;
+
+  // Compliance Portfolio - Weekly Entries
+  createPortfolioEntry(entry: InsertPortfolioEntry): Promise<PortfolioEntry>;
+  getPortfolioEntries(portfolioYearId: string): Promise<PortfolioEntry[]>;
+  getPortfolioEntry(entryId: string): Promise<PortfolioEntry | null>;
+  getPortfolioEntryByWeek(childId: string, weekStartDate: string): Promise<PortfolioEntry | null>;
+  updatePortfolioEntry(entryId: string, updates: Partial<InsertPortfolioEntry>): Promise<PortfolioEntry>;
+  deletePortfolioEntry(entryId: string): Promise<void>;
+
   // Privacy & Data Management
   getAllFamilyData(userId: string): Promise<{
     family: Family | null;
     children: Child[];
     curricula: Curriculum[];
     journalEntries: JournalEntry[];
+    narrations: Narration[];
     activityFeedback: ActivityFeedback[];
     emergingInterests: EmergingInterestSignal[];
     localOpportunities: LocalOpportunity[];
@@ -160,7 +256,9 @@ import {
   families,
   children,
   curricula,
+  curriculumTemplates,
   journalEntries,
+  narrations,
   localOpportunities,
   subscriptions,
   upcomingEvents,
@@ -173,6 +271,10 @@ import {
   childApproaches,
   transcriptCourses,
   creditMappings,
+  transcriptVerifications,
+  stateRequirements,
+  childPortfolioYears,
+  portfolioEntries,
 } from "@shared/schema";
 import { eq, and, desc, gte, lte, sql as sqlOp, inArray } from "drizzle-orm";
 
@@ -231,6 +333,11 @@ export class DatabaseStorage implements IStorage {
     return result || null;
   }
 
+  async getFamilyById(familyId: string): Promise<Family | null> {
+    const [result] = await db.select().from(families).where(eq(families.id, familyId));
+    return result || null;
+  }
+
   async updateFamily(userId: string, updates: Partial<InsertFamily>): Promise<Family> {
     const [result] = await db
       .update(families)
@@ -284,18 +391,117 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllCurricula(familyId: string): Promise<Curriculum[]> {
+    // Versions of a rolling curriculum share generatedAt, so order by when each was saved
     return await db
       .select()
       .from(curricula)
       .where(eq(curricula.familyId, familyId))
-      .orderBy(desc(curricula.generatedAt));
+      .orderBy(desc(curricula.createdAt));
   }
 
-  async deactivateAllCurricula(familyId: string): Promise<void> {
-    await db
+  async getAllActiveCurricula(): Promise<Curriculum[]> {
+    return await db.select().from(curricula).where(eq(curricula.isActive, true));
+  }
+
+  async getCurriculum(curriculumId: string): Promise<Curriculum | null> {
+    const [result] = await db.select().from(curricula).where(eq(curricula.id, curriculumId));
+    return result || null;
+  }
+
+  async activateCurriculum(familyId: string, curriculumId: string): Promise<Curriculum> {
+    // One transaction, so a failure can't leave the family with no active curriculum
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(curricula)
+        .set({ isActive: false })
+        .where(eq(curricula.familyId, familyId));
+      const [result] = await tx
+        .update(curricula)
+        .set({ isActive: true })
+        .where(and(eq(curricula.id, curriculumId), eq(curricula.familyId, familyId)))
+        .returning();
+      return result;
+    });
+  }
+
+  // Save a new active version; the old ones stay as history. One transaction, like activateCurriculum.
+  async replaceActiveCurriculum(curriculum: InsertCurriculum): Promise<Curriculum> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(curricula)
+        .set({ isActive: false })
+        .where(eq(curricula.familyId, curriculum.familyId));
+      const [result] = await tx.insert(curricula).values({ ...curriculum, isActive: true }).returning();
+      return result;
+    });
+  }
+
+  async updateCurriculum(curriculumId: string, updates: Partial<InsertCurriculum>): Promise<Curriculum> {
+    const [result] = await db
       .update(curricula)
-      .set({ isActive: false })
-      .where(eq(curricula.familyId, familyId));
+      .set(updates)
+      .where(eq(curricula.id, curriculumId))
+      .returning();
+    return result;
+  }
+
+  // Curriculum Templates
+  async createCurriculumTemplate(template: InsertCurriculumTemplate): Promise<CurriculumTemplate> {
+    const [result] = await db.insert(curriculumTemplates).values(template).returning();
+    return result;
+  }
+
+  async getCurriculumTemplate(templateId: string): Promise<CurriculumTemplate | null> {
+    const [result] = await db.select().from(curriculumTemplates).where(eq(curriculumTemplates.id, templateId));
+    return result || null;
+  }
+
+  async getCurriculumTemplates(familyId: string): Promise<CurriculumTemplate[]> {
+    return await db
+      .select()
+      .from(curriculumTemplates)
+      .where(eq(curriculumTemplates.familyId, familyId))
+      .orderBy(desc(curriculumTemplates.createdAt));
+  }
+
+  async getPublishedCurriculumTemplates(filters: { approach?: string; ageBand?: string; theme?: string }): Promise<CurriculumTemplate[]> {
+    const conditions = [eq(curriculumTemplates.isPublished, true)];
+    if (filters.approach) {
+      conditions.push(sqlOp`${filters.approach} = ANY(${curriculumTemplates.approaches})`);
+    }
+    if (filters.ageBand) {
+      conditions.push(sqlOp`${filters.ageBand} = ANY(${curriculumTemplates.ageBands})`);
+    }
+    if (filters.theme) {
+      // Themes are free text, so match any theme containing the search
+      conditions.push(sqlOp`EXISTS (SELECT 1 FROM unnest(${curriculumTemplates.themes}) AS theme WHERE theme ILIKE ${`%${escapeLikePattern(filters.theme)}%`})`);
+    }
+
+    return await db
+      .select()
+      .from(curriculumTemplates)
+      .where(and(...conditions))
+      .orderBy(desc(curriculumTemplates.importCount), desc(curriculumTemplates.publishedAt));
+  }
+
+  async updateCurriculumTemplate(templateId: string, updates: Partial<InsertCurriculumTemplate>): Promise<CurriculumTemplate> {
+    const [result] = await db
+      .update(curriculumTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(curriculumTemplates.id, templateId))
+      .returning();
+    return result;
+  }
+
+  async incrementTemplateImportCount(templateId: string): Promise<void> {
+    await db
+      .update(curriculumTemplates)
+      .set({ importCount: sqlOp`${curriculumTemplates.importCount} + 1` })
+      .where(eq(curriculumTemplates.id, templateId));
+  }
+
+  async deleteCurriculumTemplate(templateId: string): Promise<void> {
+    await db.delete(curriculumTemplates).where(eq(curriculumTemplates.id, templateId));
   }
 
   // Journal Entries
@@ -304,6 +510,21 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // One transaction, so a failure part way through a split voice journal leaves nothing behind
+  async createJournalEntriesWithInterests(entries: InsertJournalEntry[], interests: InsertEmergingInterestSignal[]): Promise<JournalEntry[]> {
+    return await db.transaction(async (tx) => {
+      const results: JournalEntry[] = [];
+      for (const entry of entries) {
+        const [result] = await tx.insert(journalEntries).values(entry).returning();
+        results.push(result);
+      }
+      if (interests.length > 0) {
+        await tx.insert(emergingInterestSignals).values(interests);
+      }
+      return results;
+    });
+  }
+
   async getJournalEntries(familyId: string): Promise<JournalEntry[]> {
     return await db
       .select()
@@ -320,6 +541,61 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(journalEntries.entryDate));
   }
 
+  async getJournalEntry(entryId: string): Promise<JournalEntry | null> {
+    const [result] = await db.select().from(journalEntries).where(eq(journalEntries.id, entryId));
+    return result || null;
+  }
+
+  async countJournalEntriesWithAudio(audioUrl: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sqlOp<number>`count(*)::int` })
+      .from(journalEntries)
+      .where(eq(journalEntries.audioUrl, audioUrl));
+    return result?.count || 0;
+  }
+
+  async searchJournalEntries(familyId: string, query: JournalEntryQuery): Promise<JournalEntryPage> {
+    const conditions = [eq(journalEntries.familyId, familyId)];
+    if (query.childId) {
+      conditions.push(eq(journalEntries.childId, query.childId));
+    }
+    if (query.subject) {
+      conditions.push(sqlOp`EXISTS (SELECT 1 FROM unnest(${journalEntries.subjects}) AS subject WHERE lower(subject) = lower(${query.subject}))`);
+    }
+    if (query.from) {
+      conditions.push(gte(journalEntries.entryDate, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(journalEntries.entryDate, query.to));
+    }
+    if (query.search) {
+      // Full-text match for whole words, plus a substring match on the content so partial words still find something
+      const document = sqlOp`to_tsvector('english', ${journalEntries.content} || ' ' || coalesce(${journalEntries.transcript}, '') || ' ' || coalesce(${journalEntries.aiAnalysis}::text, '') || ' ' || coalesce(array_to_string(${journalEntries.subjects}, ' '), ''))`;
+      conditions.push(sqlOp`(${document} @@ websearch_to_tsquery('english', ${query.search}) OR ${journalEntries.content} ILIKE ${`%${escapeLikePattern(query.search)}%`})`);
+    }
+
+    // Keyset pagination on (entryDate, id), so entries added meanwhile don't shift later pages
+    if (query.cursor) {
+      conditions.push(sqlOp`(${journalEntries.entryDate}, ${journalEntries.id}) < (${query.cursor.entryDate}, ${query.cursor.id})`);
+    }
+
+    const rows = await db
+      .select()
+      .from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(desc(journalEntries.entryDate), desc(journalEntries.id))
+      .limit(query.limit + 1);
+
+    const entries = rows.slice(0, query.limit);
+    const last = entries[entries.length - 1];
+    return {
+      entries,
+      nextCursor: rows.length > query.limit && last
+        ? Buffer.from(`${last.entryDate}|${last.id}`).toString("base64url")
+        : null,
+    };
+  }
+
   async updateJournalEntry(entryId: string, updates: Partial<InsertJournalEntry>): Promise<JournalEntry> {
     const [result] = await db
       .update(journalEntries)
@@ -342,6 +618,47 @@ export class DatabaseStorage implements IStorage {
     await db.delete(journalEntries).where(eq(journalEntries.id, entryId));
   }
 
+  // Narrations
+  async createNarration(narration: InsertNarration): Promise<Narration> {
+    const [result] = await db.insert(narrations).values(narration).returning();
+    return result;
+  }
+
+  async getNarrations(familyId: string): Promise<Narration[]> {
+    return await db
+      .select()
+      .from(narrations)
+      .where(eq(narrations.familyId, familyId))
+      .orderBy(desc(narrations.narrationDate), desc(narrations.createdAt));
+  }
+
+  // Oldest first, so growth can be measured in the order the child narrated
+  async getNarrationsByChild(childId: string): Promise<Narration[]> {
+    return await db
+      .select()
+      .from(narrations)
+      .where(eq(narrations.childId, childId))
+      .orderBy(narrations.narrationDate, narrations.createdAt);
+  }
+
+  async getNarration(narrationId: string): Promise<Narration | null> {
+    const [result] = await db.select().from(narrations).where(eq(narrations.id, narrationId));
+    return result || null;
+  }
+
+  async updateNarration(narrationId: string, updates: Partial<InsertNarration>): Promise<Narration> {
+    const [result] = await db
+      .update(narrations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(narrations.id, narrationId))
+      .returning();
+    return result;
+  }
+
+  async deleteNarration(narrationId: string): Promise<void> {
+    await db.delete(narrations).where(eq(narrations.id, narrationId));
+  }
+
   // Local Opportunities
   async createOpportunity(opportunity: InsertLocalOpportunity): Promise<LocalOpportunity> {
     const [result] = await db.insert(localOpportunities).values(opportunity).returning();
@@ -878,6 +1195,7 @@ export class DatabaseStorage implements IStorage {
         children: [],
         curricula: [],
         journalEntries: [],
+        narrations: [],
         activityFeedback: [],
         emergingInterests: [],
         localOpportunities: [],
@@ -891,6 +1209,7 @@ export class DatabaseStorage implements IStorage {
     
     const curricula = await this.getAllCurricula(family.id);
     const journalEntries = await this.getJournalEntries(family.id);
+    const narrations = await this.getNarrations(family.id);
     const localOpportunities = await this.getOpportunities(family.id);
     const upcomingEvents = await this.getUpcomingEvents(family.id);
     const homeschoolGroups = await this.getHomeschoolGroups(family.id);
@@ -910,6 +1229,7 @@ export class DatabaseStorage implements IStorage {
       children,
       curricula,
       journalEntries,
+      narrations,
       activityFeedback,
       emergingInterests,
       localOpportunities,
@@ -923,6 +1243,7 @@ export class DatabaseStorage implements IStorage {
     const childIds = children.map(c => c.id);
 
     await db.delete(journalEntries).where(eq(journalEntries.familyId, familyId));
+    await db.delete(narrations).where(eq(narrations.familyId, familyId));
     
     if (childIds.length > 0) {
       await db.delete(activityFeedback).where(inArray(activityFeedback.childId, childIds));
@@ -981,6 +1302,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(creditMappings.weekNumber);
   }
 
+  async getCreditMapping(mappingId: string): Promise<CreditMapping | null> {
+    const [mapping] = await db
+      .select()
+      .from(creditMappings)
+      .where(eq(creditMappings.id, mappingId));
+    return mapping || null;
+  }
+
   async updateCreditMapping(mappingId: string, updates: Partial<InsertCreditMapping>): Promise<CreditMapping> {
     const [updated] = await db
       .update(creditMappings)
@@ -993,6 +1322,157 @@ export class DatabaseStorage implements IStorage {
   async deleteCreditMapping(mappingId: string): Promise<void> {
     await db.delete(creditMappings).where(eq(creditMappings.id, mappingId));
   }
+
+  async createTranscriptVerification(verification: InsertTranscriptVerification): Promise<TranscriptVerification> {
+    const [newVerification] = await db.insert(transcriptVerifications).values(verification).returning();
+    return newVerification;
+  }
+
+  async getTranscriptVerifications(childId: string): Promise<TranscriptVerification[]> {
+    return await db
+      .select()
+      .from(transcriptVerifications)
+      .where(eq(transcriptVerifications.childId, childId))
+      .orderBy(desc(transcriptVerifications.issuedAt));
+  }
+
+  async getTranscriptVerification(verificationId: string): Promise<TranscriptVerification | null> {
+    const [verification] = await db
+      .select()
+      .from(transcriptVerifications)
+      .where(eq(transcriptVerifications.id, verificationId));
+    return verification || null;
+  }
+
+  async getTranscriptVerificationByCode(verificationCode: string): Promise<TranscriptVerification | null> {
+    const [verification] = await db
+      .select()
+      .from(transcriptVerifications)
+      .where(eq(transcriptVerifications.verificationCode, verificationCode));
+    return verification || null;
+  }
+
+  async revokeTranscriptVerification(verificationId: string): Promise<TranscriptVerification> {
+    const [revoked] = await db
+      .update(transcriptVerifications)
+      .set({ revokedAt: new Date() })
+      .where(eq(transcriptVerifications.id, verificationId))
+      .returning();
+    return revoked;
+  }
+
+  async createStateRequirement(requirement: InsertStateRequirement): Promise<StateRequirement> {
+    const [newRequirement] = await db.insert(stateRequirements).values(requirement).returning();
+    return newRequirement;
+  }
+
+  async getStateRequirements(countryCode?: string): Promise<StateRequirement[]> {
+    if (countryCode) {
+      return await db
+        .select()
+        .from(stateRequirements)
+        .where(eq(stateRequirements.countryCode, countryCode))
+        .orderBy(stateRequirements.stateName);
+    }
+    return await db.select().from(stateRequirements).orderBy(stateRequirements.stateName);
+  }
+
+  async getStateRequirement(requirementId: string): Promise<StateRequirement | null> {
+    const [requirement] = await db
+      .select()
+      .from(stateRequirements)
+      .where(eq(stateRequirements.id, requirementId));
+    return requirement || null;
+  }
+
+  async updateStateRequirement(requirementId: string, updates: Partial<InsertStateRequirement>): Promise<StateRequirement> {
+    const [updated] = await db
+      .update(stateRequirements)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(stateRequirements.id, requirementId))
+      .returning();
+    return updated;
+  }
+
+  async createPortfolioYear(year: InsertChildPortfolioYear): Promise<ChildPortfolioYear> {
+    const [newYear] = await db.insert(childPortfolioYears).values(year).returning();
+    return newYear;
+  }
+
+  async getPortfolioYears(childId: string): Promise<ChildPortfolioYear[]> {
+    return await db
+      .select()
+      .from(childPortfolioYears)
+      .where(eq(childPortfolioYears.childId, childId))
+      .orderBy(desc(childPortfolioYears.academicYear));
+  }
+
+  async getAllPortfolioYears(): Promise<ChildPortfolioYear[]> {
+    return await db.select().from(childPortfolioYears);
+  }
+
+  async getPortfolioYear(yearId: string): Promise<ChildPortfolioYear | null> {
+    const [year] = await db
+      .select()
+      .from(childPortfolioYears)
+      .where(eq(childPortfolioYears.id, yearId));
+    return year || null;
+  }
+
+  async updatePortfolioYear(yearId: string, updates: Partial<InsertChildPortfolioYear>): Promise<ChildPortfolioYear> {
+    const [updated] = await db
+      .update(childPortfolioYears)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(childPortfolioYears.id, yearId))
+      .returning();
+    return updated;
+  }
+
+  async deletePortfolioYear(yearId: string): Promise<void> {
+    await db.delete(childPortfolioYears).where(eq(childPortfolioYears.id, yearId));
+  }
+
+  async createPortfolioEntry(entry: InsertPortfolioEntry): Promise<PortfolioEntry> {
+    const [newEntry] = await db.insert(portfolioEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async getPortfolioEntries(portfolioYearId: string): Promise<PortfolioEntry[]> {
+    return await db
+      .select()
+      .from(portfolioEntries)
+      .where(eq(portfolioEntries.portfolioYearId, portfolioYearId))
+      .orderBy(portfolioEntries.weekStartDate);
+  }
+
+  async getPortfolioEntry(entryId: string): Promise<PortfolioEntry | null> {
+    const [entry] = await db
+      .select()
+      .from(portfolioEntries)
+      .where(eq(portfolioEntries.id, entryId));
+    return entry || null;
+  }
+
+  async getPortfolioEntryByWeek(childId: string, weekStartDate: string): Promise<PortfolioEntry | null> {
+    const [entry] = await db
+      .select()
+      .from(portfolioEntries)
+      .where(and(eq(portfolioEntries.childId, childId), eq(portfolioEntries.weekStartDate, weekStartDate)));
+    return entry || null;
+  }
+
+  async updatePortfolioEntry(entryId: string, updates: Partial<InsertPortfolioEntry>): Promise<PortfolioEntry> {
+    const [updated] = await db
+      .update(portfolioEntries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(portfolioEntries.id, entryId))
+      .returning();
+    return updated;
+  }
+
+  async deletePortfolioEntry(entryId: string): Promise<void> {
+    await db.delete(portfolioEntries).where(eq(portfolioEntries.id, entryId));
+  }
 }
 
 export const storage = new DatabaseStorage();
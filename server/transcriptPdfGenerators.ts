@@ -2,6 +2,7 @@ import PDFDocument from "pdfkit";
 import { format as formatDate } from "date-fns";
 import type { Child, TranscriptCourse, Family } from "@shared/schema";
 import { getStandardConfig, getProgressLabel } from "@shared/standardsConfig";
+import { calculateGradeSummary, getGradingScale, type GradeMetric } from "@shared/gradeCalculations";
 
 interface TranscriptData {
   child: Child;
@@ -9,11 +10,25 @@ interface TranscriptData {
   courses: TranscriptCourse[];
 }
 
+// One "Label: value (detail)" line per grade metric; returns the next y position
+function renderGradeMetrics(doc: InstanceType<typeof PDFDocument>, metrics: GradeMetric[], x: number, yPos: number): number {
+  metrics.forEach(metric => {
+    doc.fontSize(10).font('Helvetica-Bold').text(`${metric.label}:`, x, yPos);
+    doc.font('Helvetica').text(metric.display, x + 200, yPos);
+    if (metric.detail) {
+      doc.fontSize(8).font('Helvetica-Oblique').text(metric.detail, x + 270, yPos + 1, { width: 200 });
+    }
+    yPos += 18;
+  });
+  return yPos;
+}
+
 // US High School Transcript - Traditional Carnegie Unit format
 export function generateUSTranscript(doc: InstanceType<typeof PDFDocument>, data: TranscriptData) {
   const { child, family, courses } = data;
-  const standardConfig = getStandardConfig(child.educationStandard);
-  const progressLabels = getProgressLabel(child.educationStandard);
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
+  const progressLabels = getProgressLabel(child.educationStandard, child.standardMetadata);
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
   
   // Calculate totals
   const creditsBySubject: Record<string, number> = {};
@@ -30,7 +45,7 @@ export function generateUSTranscript(doc: InstanceType<typeof PDFDocument>, data
   // Header
   doc.fontSize(20)
      .font('Helvetica-Bold')
-     .text('OFFICIAL HIGH SCHOOL TRANSCRIPT', { align: 'center' });
+     .text(standardConfig.transcriptTitle || 'OFFICIAL HIGH SCHOOL TRANSCRIPT', { align: 'center' });
   
   doc.moveDown(0.3);
   doc.fontSize(9)
@@ -77,7 +92,10 @@ export function generateUSTranscript(doc: InstanceType<typeof PDFDocument>, data
   doc.font('Helvetica').text(`${totalCredits.toFixed(2)} ${progressLabels.creditUnit}`, leftCol + 150, yPos);
   yPos += 20;
 
-  doc.font('Helvetica-Bold').text('Credits by Subject:', leftCol, yPos);
+  yPos = renderGradeMetrics(doc, gradeSummary.metrics, leftCol, yPos);
+  if (gradeSummary.metrics.length > 0) yPos += 5;
+
+  doc.fontSize(10).font('Helvetica-Bold').text('Credits by Subject:', leftCol, yPos);
   yPos += 20;
 
   Object.entries(creditsBySubject).forEach(([subject, credits]) => {
@@ -93,12 +111,16 @@ export function generateUSTranscript(doc: InstanceType<typeof PDFDocument>, data
   doc.fontSize(12).font('Helvetica-Bold').text('COURSEWORK', leftCol, yPos);
   yPos += 25;
 
+  // Grades 9-12 first, then any other levels a custom framework uses (e.g. "Class 11")
   const grades = ['9', '10', '11', '12'];
+  courses.forEach(c => {
+    if (!grades.includes(c.gradeLevel)) grades.push(c.gradeLevel);
+  });
   grades.forEach(grade => {
     const gradeCourses = courses.filter(c => c.gradeLevel === grade);
     if (gradeCourses.length === 0) return;
 
-    doc.fontSize(11).font('Helvetica-Bold').text(`Grade ${grade}`, leftCol, yPos);
+    doc.fontSize(11).font('Helvetica-Bold').text(/^\d+$/.test(grade) ? `Grade ${grade}` : grade, leftCol, yPos);
     yPos += 20;
 
     gradeCourses.forEach(course => {
@@ -147,11 +169,11 @@ export function generateUSTranscript(doc: InstanceType<typeof PDFDocument>, data
 // UK/GCSE Academic Learning Record
 export function generateUKTranscript(doc: InstanceType<typeof PDFDocument>, data: TranscriptData) {
   const { child, family, courses } = data;
-  const standardConfig = getStandardConfig(child.educationStandard);
-  const progressLabels = getProgressLabel(child.educationStandard);
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
+  const progressLabels = getProgressLabel(child.educationStandard, child.standardMetadata);
 
   // Header
-  doc.fontSize(20).font('Helvetica-Bold').text('ACADEMIC LEARNING RECORD', { align: 'center' });
+  doc.fontSize(20).font('Helvetica-Bold').text(standardConfig.transcriptTitle || 'ACADEMIC LEARNING RECORD', { align: 'center' });
   doc.moveDown(0.3);
   doc.fontSize(9).font('Helvetica-Oblique').text(`${standardConfig.flag} ${standardConfig.name}`, { align: 'center' });
   doc.moveDown(0.3);
@@ -222,18 +244,20 @@ export function generateUKTranscript(doc: InstanceType<typeof PDFDocument>, data
     yPos += 15;
   });
 
-  // UCAS Points Summary (if applicable)
-  const completedCourses = courses.filter(c => c.isComplete);
-  if (completedCourses.length > 0) {
+  // UCAS Points and GCSE Results Summary (if applicable)
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
+  if (gradeSummary.metrics.length > 0) {
     if (yPos > doc.page.height - 150) {
       doc.addPage();
       yPos = 72;
     }
 
-    doc.fontSize(11).font('Helvetica-Bold').text('UCAS TARIFF POINTS', leftCol, yPos);
+    doc.fontSize(11).font('Helvetica-Bold').text('UCAS TARIFF POINTS & GCSE RESULTS', leftCol, yPos);
     yPos += 20;
+    yPos = renderGradeMetrics(doc, gradeSummary.metrics, leftCol + 10, yPos);
+    yPos += 5;
     doc.fontSize(9).font('Helvetica').text(
-      'Estimated UCAS points based on completed qualifications. Please verify with official UCAS calculator.',
+      'Calculated from recorded grades. Please verify with official UCAS calculator.',
       leftCol + 10, yPos, { width: 450 }
     );
     yPos += 30;
@@ -265,11 +289,15 @@ export function generateUKTranscript(doc: InstanceType<typeof PDFDocument>, data
 // IB Diploma Programme Transcript - Narrative format with TOK/CAS/EE
 export function generateIBTranscript(doc: InstanceType<typeof PDFDocument>, data: TranscriptData) {
   const { child, family, courses } = data;
-  const standardConfig = getStandardConfig(child.educationStandard);
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
 
   // Header
-  doc.fontSize(20).font('Helvetica-Bold').text('INTERNATIONAL BACCALAUREATE', { align: 'center' });
-  doc.fontSize(16).text('DIPLOMA PROGRAMME TRANSCRIPT', { align: 'center' });
+  if (standardConfig.transcriptTitle) {
+    doc.fontSize(20).font('Helvetica-Bold').text(standardConfig.transcriptTitle, { align: 'center' });
+  } else {
+    doc.fontSize(20).font('Helvetica-Bold').text('INTERNATIONAL BACCALAUREATE', { align: 'center' });
+    doc.fontSize(16).text('DIPLOMA PROGRAMME TRANSCRIPT', { align: 'center' });
+  }
   doc.moveDown(0.3);
   doc.fontSize(9).font('Helvetica-Oblique').text(`${standardConfig.flag} ${standardConfig.name}`, { align: 'center' });
   doc.moveDown(2);
@@ -342,6 +370,20 @@ export function generateIBTranscript(doc: InstanceType<typeof PDFDocument>, data
     yPos += 15;
   });
 
+  // Diploma Points
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
+  if (gradeSummary.metrics.length > 0) {
+    if (yPos > doc.page.height - 150) {
+      doc.addPage();
+      yPos = 72;
+    }
+
+    doc.fontSize(12).font('Helvetica-Bold').text('DIPLOMA POINTS', leftCol, yPos);
+    yPos += 25;
+    yPos = renderGradeMetrics(doc, gradeSummary.metrics, leftCol, yPos);
+    yPos += 20;
+  }
+
   // DP Core Components
   if (yPos > doc.page.height - 200) {
     doc.addPage();
@@ -401,11 +443,11 @@ export function generateIBTranscript(doc: InstanceType<typeof PDFDocument>, data
 // Australia/NZ NCEA/ATAR Achievement Record
 export function generateANZTranscript(doc: InstanceType<typeof PDFDocument>, data: TranscriptData) {
   const { child, family, courses } = data;
-  const standardConfig = getStandardConfig(child.educationStandard);
-  const progressLabels = getProgressLabel(child.educationStandard);
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
+  const progressLabels = getProgressLabel(child.educationStandard, child.standardMetadata);
 
   // Header
-  doc.fontSize(20).font('Helvetica-Bold').text('ACADEMIC ACHIEVEMENT RECORD', { align: 'center' });
+  doc.fontSize(20).font('Helvetica-Bold').text(standardConfig.transcriptTitle || 'ACADEMIC ACHIEVEMENT RECORD', { align: 'center' });
   doc.moveDown(0.3);
   doc.fontSize(9).font('Helvetica-Oblique').text(`${standardConfig.flag} ${standardConfig.name}`, { align: 'center' });
   doc.moveDown(0.3);
@@ -442,7 +484,12 @@ export function generateANZTranscript(doc: InstanceType<typeof PDFDocument>, dat
   const totalCredits = courses.reduce((sum, c) => sum + (c.credits || 0), 0);
   doc.fontSize(10).font('Helvetica-Bold').text('Total Credits Achieved:', leftCol, yPos);
   doc.font('Helvetica').text(totalCredits.toFixed(1), leftCol + 160, yPos);
-  yPos += 30;
+  yPos += 20;
+
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
+  const atarEstimate = gradeSummary.metrics.find(m => m.key === 'atar_estimate');
+  yPos = renderGradeMetrics(doc, gradeSummary.metrics.filter(m => m !== atarEstimate), leftCol, yPos);
+  yPos += 10;
 
   // Achievements by Level
   const levels = {
@@ -478,7 +525,7 @@ export function generateANZTranscript(doc: InstanceType<typeof PDFDocument>, dat
   });
 
   // ATAR Estimate (if applicable)
-  if (courses.filter(c => c.isComplete).length > 0) {
+  if (atarEstimate) {
     if (yPos > doc.page.height - 150) {
       doc.addPage();
       yPos = 72;
@@ -486,6 +533,8 @@ export function generateANZTranscript(doc: InstanceType<typeof PDFDocument>, dat
 
     doc.fontSize(11).font('Helvetica-Bold').text('ATAR ESTIMATE', leftCol, yPos);
     yPos += 20;
+    yPos = renderGradeMetrics(doc, [atarEstimate], leftCol + 10, yPos);
+    yPos += 5;
     doc.fontSize(9).font('Helvetica').text(
       'Estimated Australian Tertiary Admission Rank based on completed subjects. Official ATAR calculated by relevant state authority.',
       leftCol + 10, yPos, { width: 450 }
@@ -519,10 +568,10 @@ export function generateANZTranscript(doc: InstanceType<typeof PDFDocument>, dat
 // EU Competency Portfolio
 export function generateEUTranscript(doc: InstanceType<typeof PDFDocument>, data: TranscriptData) {
   const { child, family, courses } = data;
-  const standardConfig = getStandardConfig(child.educationStandard);
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
 
   // Header
-  doc.fontSize(20).font('Helvetica-Bold').text('EDUCATIONAL PORTFOLIO', { align: 'center' });
+  doc.fontSize(20).font('Helvetica-Bold').text(standardConfig.transcriptTitle || 'EDUCATIONAL PORTFOLIO', { align: 'center' });
   doc.moveDown(0.3);
   doc.fontSize(9).font('Helvetica-Oblique').text(`${standardConfig.flag} ${standardConfig.name}`, { align: 'center' });
   doc.moveDown(0.3);
@@ -559,7 +608,11 @@ export function generateEUTranscript(doc: InstanceType<typeof PDFDocument>, data
 
   doc.fontSize(10).font('Helvetica-Bold').text('Total ECTS Credits:', leftCol, yPos);
   doc.font('Helvetica').text(totalCredits.toFixed(1), leftCol + 130, yPos);
-  yPos += 30;
+  yPos += 20;
+
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
+  yPos = renderGradeMetrics(doc, gradeSummary.metrics, leftCol, yPos);
+  yPos += 10;
 
   // Competency Areas
   doc.fontSize(12).font('Helvetica-Bold').text('COMPETENCY AREAS', leftCol, yPos);
@@ -634,10 +687,10 @@ export function generateEUTranscript(doc: InstanceType<typeof PDFDocument>, data
 // Charlotte Mason/Classical Narrative Portfolio
 export function generateClassicalTranscript(doc: InstanceType<typeof PDFDocument>, data: TranscriptData) {
   const { child, family, courses } = data;
-  const standardConfig = getStandardConfig(child.educationStandard);
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
 
   // Header
-  doc.fontSize(20).font('Helvetica-Bold').text('CLASSICAL EDUCATION PORTFOLIO', { align: 'center' });
+  doc.fontSize(20).font('Helvetica-Bold').text(standardConfig.transcriptTitle || 'CLASSICAL EDUCATION PORTFOLIO', { align: 'center' });
   doc.moveDown(0.3);
   doc.fontSize(9).font('Helvetica-Oblique').text(`${standardConfig.flag} ${standardConfig.name}`, { align: 'center' });
   doc.moveDown(0.3);
@@ -688,7 +741,12 @@ export function generateClassicalTranscript(doc: InstanceType<typeof PDFDocument
   doc.fontSize(12).font('Helvetica-Bold').text('LEARNING JOURNEY', leftCol, yPos);
   yPos += 25;
 
+  // Default learning areas first, then any other subjects (custom frameworks define their own)
   const subjects = ['english', 'math', 'science', 'history', 'elective'];
+  courses.forEach(c => {
+    const subject = c.subject.toLowerCase();
+    if (!subjects.includes(subject)) subjects.push(subject);
+  });
   subjects.forEach(subject => {
     const subjectCourses = courses.filter(c => c.subject.toLowerCase() === subject);
     if (subjectCourses.length === 0) return;
@@ -715,6 +773,20 @@ export function generateClassicalTranscript(doc: InstanceType<typeof PDFDocument
     yPos += 15;
   });
 
+  // Grade Summary (only when the family has recorded letter grades)
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
+  if (gradeSummary.metrics.length > 0) {
+    if (yPos > doc.page.height - 150) {
+      doc.addPage();
+      yPos = 72;
+    }
+
+    doc.fontSize(11).font('Helvetica-Bold').text('GRADE SUMMARY', leftCol, yPos);
+    yPos += 20;
+    yPos = renderGradeMetrics(doc, gradeSummary.metrics, leftCol + 10, yPos);
+    yPos += 20;
+  }
+
   // Living Books Section
   if (yPos > doc.page.height - 200) {
     doc.addPage();
@@ -751,3 +823,186 @@ export function generateClassicalTranscript(doc: InstanceType<typeof PDFDocument
   doc.fontSize(8).text('Parent Educator', leftCol + 90, yPos);
   doc.text('Date', leftCol + 360, yPos);
 }
+
+interface CourseBookletData extends TranscriptData {
+  approaches: string[];
+  administratorName: string | null;
+  contactEmail: string | null;
+}
+
+// Course-Description Booklet - school profile page followed by one section per course
+export function generateCourseBooklet(doc: InstanceType<typeof PDFDocument>, data: CourseBookletData) {
+  const { child, family, courses, approaches, administratorName, contactEmail } = data;
+  const standardConfig = getStandardConfig(child.educationStandard, child.standardMetadata);
+  const progressLabels = getProgressLabel(child.educationStandard, child.standardMetadata);
+  const gradeSummary = calculateGradeSummary(child.educationStandard, courses, child.standardMetadata);
+  const gradingScale = getGradingScale(child.educationStandard, child.standardMetadata);
+  const usesDateFormatUS = family.country === 'US' || family.locale === 'en-US';
+  const formatDay = (date: string) => formatDate(new Date(date), usesDateFormatUS ? 'MMMM d, yyyy' : 'd MMMM yyyy');
+
+  // Header
+  doc.fontSize(20).font('Helvetica-Bold').text('SCHOOL PROFILE', { align: 'center' });
+  doc.moveDown(0.3);
+  doc.fontSize(14).font('Helvetica').text(`${family.familyName} Homeschool`, { align: 'center' });
+  doc.moveDown(0.3);
+  doc.fontSize(9).font('Helvetica-Oblique').text(standardConfig.name, { align: 'center' });
+  doc.moveDown(2);
+
+  const leftCol = 72;
+  let yPos = doc.y;
+  const ensureSpace = (needed: number) => {
+    if (yPos > doc.page.height - needed) {
+      doc.addPage();
+      yPos = 72;
+    }
+  };
+
+  // School Information
+  doc.fontSize(12).font('Helvetica-Bold').text('SCHOOL INFORMATION', leftCol, yPos);
+  yPos += 25;
+
+  const schoolRows: Array<[string, string]> = [
+    ['School:', `${family.familyName} Homeschool`],
+    ['Address:', [family.address, family.city, family.state, family.postalCode].filter(Boolean).join(', ') || 'Not specified'],
+    ['Country:', family.country],
+    ['Administrator:', administratorName || 'Parent Educator'],
+    ['Contact:', contactEmail || 'Available on request'],
+    ['Student:', child.name],
+  ];
+  schoolRows.forEach(([label, value]) => {
+    doc.fontSize(10).font('Helvetica-Bold').text(label, leftCol, yPos);
+    doc.font('Helvetica').text(value, leftCol + 100, yPos, { width: 370 });
+    yPos += Math.max(20, doc.heightOfString(value, { width: 370 }) + 6);
+  });
+  yPos += 10;
+
+  doc.moveTo(leftCol, yPos).lineTo(doc.page.width - 72, yPos).stroke();
+  yPos += 20;
+
+  // Educational Philosophy
+  doc.fontSize(12).font('Helvetica-Bold').text('EDUCATIONAL APPROACH', leftCol, yPos);
+  yPos += 25;
+
+  const approachNames = approaches
+    .map(a => a.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '))
+    .join(', ');
+  const philosophy =
+    `${child.name} is educated at home by their family${approachNames ? ` using ${approachNames} methods` : ''}. ` +
+    `Courses are planned around the ${standardConfig.name} framework and documented through ` +
+    `completed activities, journal records and work samples.`;
+  doc.fontSize(9).font('Helvetica').text(philosophy, leftCol, yPos, { width: 470, align: 'justify' });
+  yPos += doc.heightOfString(philosophy, { width: 470 }) + 20;
+
+  // Credits
+  doc.fontSize(12).font('Helvetica-Bold').text('CREDIT SYSTEM', leftCol, yPos);
+  yPos += 25;
+
+  let creditText = `Credit is recorded in ${progressLabels.creditLabel} (${progressLabels.creditUnit}).`;
+  if (standardConfig.transcriptFormat === 'us') {
+    creditText += ' One credit represents approximately 120 hours of study; a one-semester course earns 0.5 credit.';
+  }
+  doc.fontSize(9).font('Helvetica').text(creditText, leftCol, yPos, { width: 470 });
+  yPos += doc.heightOfString(creditText, { width: 470 }) + 20;
+
+  // Grading Scale
+  ensureSpace(200);
+  doc.fontSize(12).font('Helvetica-Bold').text(gradingScale.title.toUpperCase(), leftCol, yPos);
+  yPos += 25;
+
+  if (gradingScale.rows.length > 0) {
+    doc.fontSize(9).font('Helvetica-Bold').text('Grade', leftCol + 10, yPos);
+    if (gradingScale.rows.some(r => r.range)) doc.text('Range', leftCol + 170, yPos);
+    doc.text(gradingScale.valueLabel, leftCol + 300, yPos);
+    yPos += 15;
+
+    gradingScale.rows.forEach(row => {
+      ensureSpace(100);
+      doc.fontSize(9).font('Helvetica').text(row.grade, leftCol + 10, yPos);
+      if (row.range) doc.text(row.range, leftCol + 170, yPos);
+      if (row.value) doc.text(row.value, leftCol + 300, yPos);
+      yPos += 13;
+    });
+    yPos += 10;
+  }
+
+  gradingScale.notes.forEach(note => {
+    ensureSpace(100);
+    doc.fontSize(8).font('Helvetica-Oblique').text(note, leftCol + 10, yPos, { width: 450 });
+    yPos += doc.heightOfString(note, { width: 450 }) + 5;
+  });
+  yPos += 15;
+
+  // Academic Summary
+  ensureSpace(150);
+  doc.fontSize(12).font('Helvetica-Bold').text('ACADEMIC SUMMARY', leftCol, yPos);
+  yPos += 25;
+
+  const totalCredits = courses.reduce((sum, c) => sum + (c.credits || 0), 0);
+  doc.fontSize(10).font('Helvetica-Bold').text(`Total ${progressLabels.creditLabel}:`, leftCol, yPos);
+  doc.font('Helvetica').text(`${totalCredits.toFixed(2)} ${progressLabels.creditUnit}`, leftCol + 200, yPos);
+  yPos += 18;
+  renderGradeMetrics(doc, gradeSummary.metrics, leftCol, yPos);
+
+  // Course Descriptions
+  doc.addPage();
+  yPos = 72;
+  doc.fontSize(18).font('Helvetica-Bold').text('COURSE DESCRIPTIONS', leftCol, yPos, { width: 470, align: 'center' });
+  yPos += 22;
+  doc.fontSize(10).font('Helvetica').text(child.name, leftCol, yPos, { width: 470, align: 'center' });
+  yPos += 30;
+
+  const sortedCourses = [...courses].sort((a, b) =>
+    a.gradeLevel.localeCompare(b.gradeLevel, undefined, { numeric: true }) || a.courseTitle.localeCompare(b.courseTitle)
+  );
+
+  sortedCourses.forEach(course => {
+    ensureSpace(180);
+
+    doc.fontSize(12).font('Helvetica-Bold').text(course.courseTitle, leftCol, yPos, { width: 470 });
+    yPos += doc.heightOfString(course.courseTitle, { width: 470 }) + 4;
+
+    const gradeLevelLabel = /^\d+$/.test(course.gradeLevel) ? `Grade ${course.gradeLevel}` : course.gradeLevel;
+    const details = [
+      course.subject.charAt(0).toUpperCase() + course.subject.slice(1),
+      gradeLevelLabel,
+      `${course.credits?.toFixed(2)} ${progressLabels.creditUnit}`,
+      `Grade: ${course.grade || 'In Progress'}`,
+      course.gcseLevel && `GCSE ${course.gcseLevel}`,
+      course.ibGroup && `IB Group ${course.ibGroup}`,
+      course.nceaLevel && `NCEA ${course.nceaLevel}`,
+    ].filter(Boolean).join('  •  ');
+    doc.fontSize(9).font('Helvetica').fillColor('#444444').text(details, leftCol, yPos, { width: 470 });
+    doc.fillColor('black');
+    yPos += doc.heightOfString(details, { width: 470 }) + 4;
+
+    if (course.startDate || course.endDate) {
+      const dates = `${course.startDate ? formatDay(course.startDate) : 'Not recorded'} – ${course.endDate ? formatDay(course.endDate) : (course.isComplete ? 'Not recorded' : 'Present')}`;
+      doc.fontSize(9).font('Helvetica-Oblique').text(dates, leftCol, yPos);
+      yPos += 16;
+    }
+    yPos += 4;
+
+    const sections: Array<[string, string | null]> = [
+      ['Description', course.courseDescription],
+      ['Texts and Resources', course.textsUsed && course.textsUsed.length > 0 ? course.textsUsed.map(t => `• ${t}`).join('\n') : null],
+      ['Evaluation', course.gradeRationale],
+    ];
+    sections.forEach(([heading, body]) => {
+      if (!body) return;
+      ensureSpace(100);
+      doc.fontSize(9).font('Helvetica-Bold').text(heading, leftCol + 10, yPos);
+      yPos += 13;
+      doc.fontSize(9).font('Helvetica').text(body, leftCol + 10, yPos, { width: 460, align: 'justify' });
+      yPos += doc.heightOfString(body, { width: 460 }) + 8;
+    });
+
+    if (!course.courseDescription && !course.gradeRationale) {
+      doc.fontSize(8).font('Helvetica-Oblique').text('Description not yet provided.', leftCol + 10, yPos);
+      yPos += 14;
+    }
+
+    yPos += 10;
+    doc.moveTo(leftCol, yPos).lineTo(doc.page.width - 72, yPos).strokeColor('#cccccc').stroke().strokeColor('black');
+    yPos += 16;
+  });
+}
@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import { format as formatDate } from "date-fns";
+import PDFDocument from "pdfkit";
+import type { Child, Family, TranscriptCourse, TranscriptVerification } from "@shared/schema";
+import { getStandardConfig } from "@shared/standardsConfig";
+
+export interface TranscriptSnapshot {
+  studentName: string;
+  birthdate: string | null;
+  schoolName: string;
+  educationStandard: string;
+  standardName: string;
+  issuedAt: string;
+  courses: Array<{
+    courseTitle: string;
+    subject: string;
+    gradeLevel: string;
+    credits: number;
+    grade: string | null;
+    isComplete: boolean;
+    startDate: string | null;
+    endDate: string | null;
+  }>;
+}
+
+export type VerificationStatus = "valid" | "revoked" | "tampered";
+
+// No 0/O or 1/I so codes survive being read off paper and typed back in
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+
+export function generateVerificationCode(): string {
+  const bytes = crypto.randomBytes(CODE_GROUPS * CODE_GROUP_LENGTH);
+  const chars = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  const groups: string[] = [];
+  for (let i = 0; i < CODE_GROUPS; i++) {
+    groups.push(chars.slice(i * CODE_GROUP_LENGTH, (i + 1) * CODE_GROUP_LENGTH).join(""));
+  }
+  return groups.join("-");
+}
+
+// Accepts "k7qd m2xp 9frt", "K7QDM2XP9FRT", etc.
+export function normalizeVerificationCode(input: string): string {
+  const compact = input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const groups = compact.match(new RegExp(`.{1,${CODE_GROUP_LENGTH}}`, "g")) || [];
+  return groups.join("-");
+}
+
+export function buildTranscriptSnapshot(
+  child: Child,
+  family: Family,
+  courses: TranscriptCourse[],
+  issuedAt: Date
+): TranscriptSnapshot {
+  return {
+    studentName: child.name,
+    birthdate: child.birthdate || null,
+    schoolName: `${family.familyName} Homeschool`,
+    educationStandard: child.educationStandard || "us",
+    standardName: getStandardConfig(child.educationStandard, child.standardMetadata).name,
+    issuedAt: issuedAt.toISOString(),
+    courses: courses.map(course => ({
+      courseTitle: course.courseTitle,
+      subject: course.subject,
+      gradeLevel: course.gradeLevel,
+      credits: course.credits,
+      grade: course.grade,
+      isComplete: course.isComplete,
+      startDate: course.startDate,
+      endDate: course.endDate,
+    })),
+  };
+}
+
+// Postgres jsonb doesn't preserve key order, so hash a key-sorted serialisation
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// A dedicated secret, so rotating the session secret doesn't turn every issued transcript into "tampered"
+function getSigningSecret(): string {
+  const secret = process.env.TRANSCRIPT_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("TRANSCRIPT_SIGNING_SECRET is not configured");
+  }
+  return secret;
+}
+
+// HMAC rather than a bare hash: only this server can produce a hash that matches a snapshot
+export function signTranscriptSnapshot(snapshot: TranscriptSnapshot): string {
+  return crypto.createHmac("sha256", getSigningSecret()).update(canonicalJson(snapshot)).digest("hex");
+}
+
+// Same student, school and courses - only the issue time differs
+export function isSameTranscript(a: TranscriptSnapshot, b: TranscriptSnapshot): boolean {
+  return canonicalJson({ ...a, issuedAt: null }) === canonicalJson({ ...b, issuedAt: null });
+}
+
+// Printed on the PDF, so it comes from configuration rather than the request's Host header
+export function getVerifyUrl(verificationCode: string): string {
+  const baseUrl = process.env.APP_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("APP_BASE_URL is not configured");
+  }
+  return `${baseUrl.replace(/\/+$/, "")}/verify/${verificationCode}`;
+}
+
+export function getVerificationStatus(verification: TranscriptVerification): VerificationStatus {
+  if (verification.revokedAt) return "revoked";
+
+  const expected = Buffer.from(signTranscriptSnapshot(verification.snapshot as TranscriptSnapshot), "hex");
+  const stored = Buffer.from(verification.contentHash, "hex");
+  if (expected.length !== stored.length || !crypto.timingSafeEqual(expected, stored)) {
+    return "tampered";
+  }
+  return "valid";
+}
+
+// Print the code and hash on every page, and record them in the PDF metadata.
+// The document must be created with bufferPages: true and stamped before doc.end().
+export function stampVerification(
+  doc: InstanceType<typeof PDFDocument>,
+  verification: TranscriptVerification,
+  verifyUrl: string
+) {
+  doc.info.Subject = `Verification code ${verification.verificationCode}`;
+  doc.info.Keywords = `verification:${verification.verificationCode} sha256:${verification.contentHash}`;
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+
+    // Writing inside the bottom margin would otherwise make PDFKit start a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    // The issue date comes from the record, so a re-downloaded copy matches what the verify page shows
+    const y = doc.page.height - 40;
+    doc.fontSize(7).font('Helvetica').fillColor('#555555').text(
+      `Issued ${formatDate(verification.issuedAt, "d MMM yyyy")}  |  Verify at ${verifyUrl} with code ${verification.verificationCode}  |  Content hash ${verification.contentHash.slice(0, 16)}…  |  Page ${i - range.start + 1} of ${range.count}`,
+      72, y, { width: doc.page.width - 144, align: 'center', lineBreak: false }
+    );
+    doc.fillColor('black');
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
@@ -4,6 +4,7 @@ import type { Server } from "http";
 import { parse } from "url";
 import type { IStorage } from "./storage";
 import type { RequestHandler } from "express";
+import type { WeekCurriculum } from "@shared/schema";
 
 interface CollaborationMessage {
   type: "presence" | "curriculum_update" | "week_update";
@@ -23,6 +24,16 @@ interface ClientConnection {
   userFamilyId?: string; // The actual family this user belongs to
 }
 
+// Sent while a background curriculum generation streams in, so the dashboard can show weeks as they arrive
+export interface CurriculumProgress {
+  status: "started" | "week" | "completed" | "failed";
+  totalWeeks: number;
+  weekNumber?: number;
+  week?: WeekCurriculum;
+  curriculumId?: string;
+  error?: { message: string; code: string };
+}
+
 type AuthValidator = (req: any) => Promise<{ userId: string; userName: string; familyId: string } | null>;
 
 export class CollaborationService {
@@ -232,4 +243,11 @@ export class CollaborationService {
       message: "New curriculum has been generated",
     });
   }
+
+  public broadcastCurriculumProgress(familyId: string, progress: CurriculumProgress) {
+    this.broadcastToFamily(familyId, {
+      type: "curriculum_progress",
+      ...progress,
+    });
+  }
 }
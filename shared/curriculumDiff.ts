@@ -0,0 +1,120 @@
+// Structured comparison between two versions of a family's curriculum
+// Used by the backend (history diff endpoint) and frontend (curriculum history dialog)
+
+import type { ChildWeekPlan, CurriculumData, DailyActivity, WeekCurriculum } from "./schema";
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface ChildWeekDiff {
+  childId: string;
+  name: string;
+  deepDives: ListChange;
+  activities: ListChange;
+}
+
+export type WeekChangeStatus = "added" | "removed" | "changed";
+
+export interface WeekDiff {
+  weekNumber: number;
+  status: WeekChangeStatus;
+  fromTheme: string | null;
+  toTheme: string | null;
+  familyActivities: ListChange;
+  children: ChildWeekDiff[];
+}
+
+export interface CurriculumDiff {
+  weeks: WeekDiff[];
+  unchangedWeeks: number;
+}
+
+const PLAN_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"] as const;
+
+function activityTitle(activity: DailyActivity): string {
+  return typeof activity === "string" ? activity : activity.activity;
+}
+
+function childActivities(plan: ChildWeekPlan | undefined): string[] {
+  if (!plan) return [];
+  const titles = PLAN_DAYS.flatMap(day => (plan.dailyPlan[day] || []).map(activityTitle));
+  if (plan.dailyPlan.Weekend) titles.push(plan.dailyPlan.Weekend);
+  return titles;
+}
+
+function compareLists(from: string[], to: string[]): ListChange {
+  const fromSet = new Set(from);
+  const toSet = new Set(to);
+  return {
+    added: Array.from(toSet).filter(item => !fromSet.has(item)),
+    removed: Array.from(fromSet).filter(item => !toSet.has(item)),
+  };
+}
+
+function hasChanges(change: ListChange): boolean {
+  return change.added.length > 0 || change.removed.length > 0;
+}
+
+function diffWeek(weekNumber: number, from: WeekCurriculum | undefined, to: WeekCurriculum | undefined): WeekDiff | null {
+  const childIds = Array.from(new Set([
+    ...(from?.children || []).map(c => c.childId),
+    ...(to?.children || []).map(c => c.childId),
+  ]));
+
+  const children = childIds
+    .map(childId => {
+      const fromPlan = from?.children.find(c => c.childId === childId);
+      const toPlan = to?.children.find(c => c.childId === childId);
+      return {
+        childId,
+        name: toPlan?.name || fromPlan?.name || "",
+        deepDives: compareLists(fromPlan?.deepDives || [], toPlan?.deepDives || []),
+        activities: compareLists(childActivities(fromPlan), childActivities(toPlan)),
+      };
+    })
+    .filter(child => hasChanges(child.deepDives) || hasChanges(child.activities));
+
+  const familyActivities = compareLists(from?.familyActivities || [], to?.familyActivities || []);
+  const fromTheme = from?.familyTheme ?? null;
+  const toTheme = to?.familyTheme ?? null;
+
+  if (from && to && fromTheme === toTheme && !hasChanges(familyActivities) && children.length === 0) {
+    return null;
+  }
+
+  return {
+    weekNumber,
+    status: !from ? "added" : !to ? "removed" : "changed",
+    fromTheme,
+    toTheme,
+    familyActivities,
+    children,
+  };
+}
+
+// Compare week by week; weeks with identical themes, deep dives and activities are only counted
+export function diffCurricula(from: CurriculumData, to: CurriculumData): CurriculumDiff {
+  const weekNumbers = Array.from(new Set([
+    ...from.weeks.map(w => w.weekNumber),
+    ...to.weeks.map(w => w.weekNumber),
+  ])).sort((a, b) => a - b);
+
+  const weeks: WeekDiff[] = [];
+  let unchangedWeeks = 0;
+  for (const weekNumber of weekNumbers) {
+    const weekDiff = diffWeek(
+      weekNumber,
+      from.weeks.find(w => w.weekNumber === weekNumber),
+      to.weeks.find(w => w.weekNumber === weekNumber)
+    );
+    if (weekDiff) {
+      weeks.push(weekDiff);
+    } else {
+      unchangedWeeks++;
+    }
+  }
+
+  return { weeks, unchangedWeeks };
+}
@@ -0,0 +1,54 @@
+// Week dates for the rolling curriculum
+// Used by the backend (rolling job, week PDFs) and frontend (dashboard calendar)
+
+import { addDays, differenceInCalendarDays, parseISO, startOfWeek } from "date-fns";
+import type { CurriculumData, WeekCurriculum } from "./schema";
+
+// The plan always holds this many weeks from the current week onwards
+export const ROLLING_WINDOW_WEEKS = 12;
+
+function toDate(startDate: string | Date): Date {
+  return typeof startDate === "string" ? parseISO(startDate) : startDate;
+}
+
+// Week 1 starts on the Monday of the week the curriculum was generated; every week after it is seven days on
+export function getCurriculumStartDate(startDate: string | Date): Date {
+  return startOfWeek(toDate(startDate), { weekStartsOn: 1 });
+}
+
+export function getWeekDates(startDate: string | Date, weekNumber: number): { startDate: Date; endDate: Date } {
+  const start = getCurriculumStartDate(startDate);
+  return {
+    startDate: addDays(start, (weekNumber - 1) * 7),
+    endDate: addDays(start, (weekNumber - 1) * 7 + 6),
+  };
+}
+
+// Unbounded - week 15 is week 15, whether or not it has been generated yet
+export function getCurrentWeekNumber(startDate: string | Date, today: Date = new Date()): number {
+  const days = differenceInCalendarDays(today, getCurriculumStartDate(startDate));
+  return days < 0 ? 1 : Math.floor(days / 7) + 1;
+}
+
+export function getLastWeekNumber(curriculum: Pick<CurriculumData, "weeks">): number {
+  return curriculum.weeks.reduce((max, week) => Math.max(max, week.weekNumber), 0);
+}
+
+// Weeks that have finished but haven't been archived with a recap yet
+export function getWeeksToArchive(curriculum: CurriculumData, today: Date = new Date()): WeekCurriculum[] {
+  const currentWeek = getCurrentWeekNumber(curriculum.generatedAt, today);
+  return curriculum.weeks.filter(week => week.weekNumber < currentWeek && !week.archivedAt);
+}
+
+// Week numbers that need generating to keep a full window ahead of the current week
+export function getWeeksToExtend(curriculum: CurriculumData, today: Date = new Date()): number[] {
+  const currentWeek = getCurrentWeekNumber(curriculum.generatedAt, today);
+  const lastWeek = getLastWeekNumber(curriculum);
+  const targetWeek = currentWeek + ROLLING_WINDOW_WEEKS - 1;
+
+  const weekNumbers: number[] = [];
+  for (let weekNumber = lastWeek + 1; weekNumber <= targetWeek; weekNumber++) {
+    weekNumbers.push(weekNumber);
+  }
+  return weekNumbers;
+}
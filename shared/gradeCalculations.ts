@@ -0,0 +1,634 @@
+// Grade summary calculations per education standard
+// Used by both frontend (transcript page) and backend (transcript PDF generators)
+
+import { getStandardConfig, type EducationStandard, type GradeScaleEntry } from "./standardsConfig";
+
+// The subset of a transcript course the calculations need (TranscriptCourse satisfies this)
+export interface GradeableCourse {
+  courseTitle: string;
+  grade: string | null;
+  credits: number | null;
+  isComplete?: boolean;
+  gcseLevel?: string | null;
+  standardExtras?: unknown;
+}
+
+export type CourseLevel = "standard" | "honors" | "ap" | "ib" | "dual-enrollment";
+
+export interface GradeMetric {
+  key: string;
+  label: string;
+  value: number | null;
+  display: string;
+  detail?: string;
+}
+
+export interface GradeSummary {
+  standard: EducationStandard;
+  metrics: GradeMetric[];
+  gradedCourses: number;
+  totalCourses: number;
+  note?: string;
+}
+
+// ---------------------------------------------------------------------------
+// US / Canada / Custom - 4.0 GPA with honours and AP weighting
+// ---------------------------------------------------------------------------
+
+const US_LETTER_POINTS: Record<string, number> = {
+  "A+": 4.0, "A": 4.0, "A-": 3.7,
+  "B+": 3.3, "B": 3.0, "B-": 2.7,
+  "C+": 2.3, "C": 2.0, "C-": 1.7,
+  "D+": 1.3, "D": 1.0, "D-": 0.7,
+  "F": 0,
+};
+
+// Extra quality points added to a passing grade in a weighted GPA
+export const COURSE_LEVEL_WEIGHTS: Record<CourseLevel, number> = {
+  "standard": 0,
+  "honors": 0.5,
+  "ap": 1.0,
+  "ib": 1.0,
+  "dual-enrollment": 1.0,
+};
+
+function getExtras(course: GradeableCourse): Record<string, any> {
+  return (course.standardExtras && typeof course.standardExtras === "object")
+    ? course.standardExtras as Record<string, any>
+    : {};
+}
+
+// standardExtras.courseLevel wins; otherwise infer from the title ("AP Biology", "Honors English 10")
+export function getCourseLevel(course: GradeableCourse): CourseLevel {
+  const explicit = getExtras(course).courseLevel;
+  if (explicit && explicit in COURSE_LEVEL_WEIGHTS) {
+    return explicit as CourseLevel;
+  }
+
+  const title = course.courseTitle;
+  if (/\bAP\b/.test(title)) return "ap";
+  if (/\bIB\b/.test(title)) return "ib";
+  if (/dual[\s-]?enrol/i.test(title)) return "dual-enrollment";
+  if (/honou?rs/i.test(title)) return "honors";
+  return "standard";
+}
+
+// Lowest percentage for each letter; anything below 60 is an F
+const US_PERCENT_FLOORS: Array<[string, number]> = [
+  ["A+", 97], ["A", 93], ["A-", 90],
+  ["B+", 87], ["B", 83], ["B-", 80],
+  ["C+", 77], ["C", 73], ["C-", 70],
+  ["D+", 67], ["D", 63], ["D-", 60],
+];
+
+function percentToLetter(percent: number): string {
+  return US_PERCENT_FLOORS.find(([, floor]) => percent >= floor)?.[0] || "F";
+}
+
+function parsePercent(grade: string): number | null {
+  const match = grade.trim().match(/^(\d{1,3}(?:\.\d+)?)\s*%?$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return value >= 0 && value <= 100 ? value : null;
+}
+
+// Returns null for grades that don't carry GPA points (Pass, In Progress, blank)
+export function gradeToGpaPoints(grade: string | null): number | null {
+  if (!grade) return null;
+  const normalized = grade.trim().toUpperCase();
+  if (normalized in US_LETTER_POINTS) return US_LETTER_POINTS[normalized];
+
+  const percent = parsePercent(normalized);
+  return percent !== null ? US_LETTER_POINTS[percentToLetter(percent)] : null;
+}
+
+function creditsOf(course: GradeableCourse): number {
+  return course.credits && course.credits > 0 ? course.credits : 1;
+}
+
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function calculateUSMetrics(courses: GradeableCourse[]): { metrics: GradeMetric[]; graded: number } {
+  let credits = 0;
+  let unweighted = 0;
+  let weighted = 0;
+  let percentCredits = 0;
+  let percentTotal = 0;
+  let graded = 0;
+
+  for (const course of courses) {
+    const points = gradeToGpaPoints(course.grade);
+    if (points === null) continue;
+
+    const courseCredits = creditsOf(course);
+    const bonus = points > 0 ? COURSE_LEVEL_WEIGHTS[getCourseLevel(course)] : 0;
+    credits += courseCredits;
+    unweighted += points * courseCredits;
+    weighted += (points + bonus) * courseCredits;
+    graded++;
+
+    const percent = parsePercent(course.grade || "");
+    if (percent !== null) {
+      percentCredits += courseCredits;
+      percentTotal += percent * courseCredits;
+    }
+  }
+
+  if (graded === 0) return { metrics: [], graded };
+
+  const metrics: GradeMetric[] = [
+    {
+      key: "gpa_unweighted",
+      label: "Cumulative GPA (Unweighted)",
+      value: round(unweighted / credits, 2),
+      display: (unweighted / credits).toFixed(2),
+      detail: "4.0 scale",
+    },
+  ];
+
+  if (weighted !== unweighted) {
+    metrics.push({
+      key: "gpa_weighted",
+      label: "Cumulative GPA (Weighted)",
+      value: round(weighted / credits, 2),
+      display: (weighted / credits).toFixed(2),
+      detail: "Honors +0.5, AP/IB/Dual Enrollment +1.0",
+    });
+  }
+
+  if (percentCredits > 0) {
+    metrics.push({
+      key: "average_percent",
+      label: "Average Percentage",
+      value: round(percentTotal / percentCredits, 1),
+      display: `${(percentTotal / percentCredits).toFixed(1)}%`,
+    });
+  }
+
+  return { metrics, graded };
+}
+
+// ---------------------------------------------------------------------------
+// UK - UCAS tariff points (A-Level / AS) and GCSE 9-1 results
+// ---------------------------------------------------------------------------
+
+const A_LEVEL_TARIFF: Record<string, number> = { "A*": 56, "A": 48, "B": 40, "C": 32, "D": 24, "E": 16 };
+const AS_LEVEL_TARIFF: Record<string, number> = { "A": 20, "B": 16, "C": 12, "D": 10, "E": 6 };
+
+type UKQualification = "gcse" | "as-level" | "a-level";
+
+export function getUKQualification(course: GradeableCourse): UKQualification {
+  const explicit = getExtras(course).qualification;
+  if (explicit === "gcse" || explicit === "as-level" || explicit === "a-level") return explicit;
+  if (course.gcseLevel || /\bGCSE\b/i.test(course.courseTitle)) return "gcse";
+  if (/\bAS\b/.test(course.courseTitle)) return "as-level";
+  if (/\bA[\s-]?Level\b/i.test(course.courseTitle)) return "a-level";
+
+  // Numeric 9-1 grades are GCSE; letter grades are A-Level
+  return /^[1-9]$/.test((course.grade || "").trim()) ? "gcse" : "a-level";
+}
+
+function calculateUKMetrics(courses: GradeableCourse[]): { metrics: GradeMetric[]; graded: number } {
+  let tariff = 0;
+  let tariffCourses = 0;
+  let gcseCount = 0;
+  let gcseTotal = 0;
+  let gcsePasses = 0;
+
+  for (const course of courses) {
+    const grade = (course.grade || "").trim().toUpperCase();
+    if (!grade) continue;
+
+    const qualification = getUKQualification(course);
+    if (qualification === "gcse") {
+      const numeric = parseInt(grade, 10);
+      if (numeric >= 1 && numeric <= 9) {
+        gcseCount++;
+        gcseTotal += numeric;
+        if (numeric >= 4) gcsePasses++;
+      }
+    } else {
+      const table = qualification === "as-level" ? AS_LEVEL_TARIFF : A_LEVEL_TARIFF;
+      if (grade in table) {
+        tariff += table[grade];
+        tariffCourses++;
+      }
+    }
+  }
+
+  const metrics: GradeMetric[] = [];
+  if (tariffCourses > 0) {
+    metrics.push({
+      key: "ucas_points",
+      label: "UCAS Tariff Points",
+      value: tariff,
+      display: `${tariff}`,
+      detail: `${tariffCourses} A-Level/AS qualification${tariffCourses !== 1 ? "s" : ""}`,
+    });
+  }
+  if (gcseCount > 0) {
+    metrics.push({
+      key: "gcse_passes",
+      label: "GCSE Standard Passes (4+)",
+      value: gcsePasses,
+      display: `${gcsePasses} of ${gcseCount}`,
+    });
+    metrics.push({
+      key: "gcse_average",
+      label: "GCSE Average Grade",
+      value: round(gcseTotal / gcseCount, 1),
+      display: (gcseTotal / gcseCount).toFixed(1),
+      detail: "9-1 scale",
+    });
+  }
+
+  return { metrics, graded: tariffCourses + gcseCount };
+}
+
+// ---------------------------------------------------------------------------
+// IB - best six subject grades (max 42) plus up to 3 core points (max 45)
+// ---------------------------------------------------------------------------
+
+function calculateIBMetrics(courses: GradeableCourse[]): { metrics: GradeMetric[]; graded: number } {
+  const subjectGrades: number[] = [];
+  let corePoints = 0;
+
+  for (const course of courses) {
+    const core = Number(getExtras(course).ibCorePoints);
+    if (!isNaN(core) && core > corePoints) corePoints = Math.min(3, core);
+
+    const grade = parseInt((course.grade || "").trim(), 10);
+    if (grade >= 1 && grade <= 7) subjectGrades.push(grade);
+  }
+
+  if (subjectGrades.length === 0) return { metrics: [], graded: 0 };
+
+  const bestSix = subjectGrades.sort((a, b) => b - a).slice(0, 6);
+  const subjectPoints = bestSix.reduce((sum, g) => sum + g, 0);
+
+  return {
+    graded: subjectGrades.length,
+    metrics: [
+      {
+        key: "ib_subject_points",
+        label: "IB Subject Points",
+        value: subjectPoints,
+        display: `${subjectPoints} / 42`,
+        detail: `Best ${bestSix.length} of ${subjectGrades.length} subject${subjectGrades.length !== 1 ? "s" : ""}`,
+      },
+      {
+        key: "ib_total_points",
+        label: "IB Diploma Points",
+        value: subjectPoints + corePoints,
+        display: `${subjectPoints + corePoints} / 45`,
+        detail: `Includes ${corePoints} core point${corePoints !== 1 ? "s" : ""} (TOK/EE)`,
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Australia / NZ - NCEA credits and endorsements, or an indicative ATAR
+// ---------------------------------------------------------------------------
+
+const NCEA_GRADES: Record<string, "E" | "M" | "A" | "N"> = {
+  "EXCELLENCE": "E", "E": "E",
+  "MERIT": "M", "M": "M",
+  "ACHIEVED": "A", "A": "A",
+  "NOT ACHIEVED": "N", "N": "N",
+};
+
+const AU_LETTER_MARKS: Record<string, number> = { "A": 90, "B": 78, "C": 65, "D": 50, "E": 35 };
+
+function calculateANZMetrics(courses: GradeableCourse[]): { metrics: GradeMetric[]; graded: number } {
+  const graded = courses.filter(c => c.grade && c.grade.trim());
+  const isNcea = graded.length > 0 && graded.every(c => {
+    const g = c.grade!.trim().toUpperCase();
+    return g.length > 1 && g in NCEA_GRADES;
+  });
+
+  if (isNcea) {
+    let achieved = 0;
+    let merit = 0;
+    let excellence = 0;
+    for (const course of graded) {
+      const result = NCEA_GRADES[course.grade!.trim().toUpperCase()];
+      const credits = course.credits || 0;
+      if (result !== "N") achieved += credits;
+      if (result === "M" || result === "E") merit += credits;
+      if (result === "E") excellence += credits;
+    }
+
+    // An endorsement needs 50 credits at Merit or Excellence for the level
+    const endorsement = excellence >= 50 ? "Excellence" : merit >= 50 ? "Merit" : "None yet";
+    return {
+      graded: graded.length,
+      metrics: [
+        { key: "ncea_credits", label: "NCEA Credits Achieved", value: achieved, display: `${achieved}` },
+        { key: "ncea_merit_excellence", label: "Credits at Merit or Excellence", value: merit, display: `${merit}` },
+        { key: "ncea_endorsement", label: "Certificate Endorsement", value: null, display: endorsement },
+      ],
+    };
+  }
+
+  const marks: number[] = [];
+  for (const course of graded) {
+    const grade = course.grade!.trim().toUpperCase();
+    const percent = parsePercent(grade);
+    if (percent !== null) marks.push(percent);
+    else if (grade in AU_LETTER_MARKS) marks.push(AU_LETTER_MARKS[grade]);
+  }
+
+  if (marks.length === 0) return { metrics: [], graded: 0 };
+
+  // Indicative only: mean of the best five subject marks, capped like a real ATAR
+  const bestFive = marks.sort((a, b) => b - a).slice(0, 5);
+  const mean = bestFive.reduce((sum, m) => sum + m, 0) / bestFive.length;
+  const estimate = Math.min(99.95, Math.round(mean * 20) / 20);
+
+  return {
+    graded: marks.length,
+    metrics: [
+      {
+        key: "atar_estimate",
+        label: "ATAR-Style Estimate",
+        value: estimate,
+        display: estimate.toFixed(2),
+        detail: `Indicative only - best ${bestFive.length} subject${bestFive.length !== 1 ? "s" : ""}, unscaled`,
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// EU - credit-weighted average grade (numeric scales) or ECTS grade
+// ---------------------------------------------------------------------------
+
+const ECTS_LETTERS = ["F", "E", "D", "C", "B", "A"];
+
+function calculateEUMetrics(courses: GradeableCourse[]): { metrics: GradeMetric[]; graded: number } {
+  let numericCredits = 0;
+  let numericTotal = 0;
+  let letterCredits = 0;
+  let letterTotal = 0;
+  let graded = 0;
+
+  for (const course of courses) {
+    const grade = (course.grade || "").trim().toUpperCase();
+    if (!grade) continue;
+
+    const credits = creditsOf(course);
+    const numeric = parseFloat(grade.replace(",", "."));
+    if (!isNaN(numeric) && /^[\d.,]+$/.test(grade)) {
+      numericCredits += credits;
+      numericTotal += numeric * credits;
+      graded++;
+    } else if (ECTS_LETTERS.includes(grade)) {
+      letterCredits += credits;
+      letterTotal += ECTS_LETTERS.indexOf(grade) * credits;
+      graded++;
+    }
+  }
+
+  const metrics: GradeMetric[] = [];
+  if (numericCredits > 0) {
+    metrics.push({
+      key: "weighted_average",
+      label: "Credit-Weighted Average Grade",
+      value: round(numericTotal / numericCredits, 2),
+      display: (numericTotal / numericCredits).toFixed(2),
+      detail: "On the grading scale recorded for each course",
+    });
+  }
+  if (letterCredits > 0) {
+    const average = letterTotal / letterCredits;
+    metrics.push({
+      key: "ects_grade",
+      label: "Average ECTS Grade",
+      value: round(average, 2),
+      display: ECTS_LETTERS[Math.round(average)],
+    });
+  }
+
+  return { metrics, graded };
+}
+
+// ---------------------------------------------------------------------------
+// Custom - credit-weighted average on the family's own grade scale
+// ---------------------------------------------------------------------------
+
+function calculateScaleMetrics(
+  courses: GradeableCourse[],
+  scale: GradeScaleEntry[],
+  terminology: string
+): { metrics: GradeMetric[]; graded: number } {
+  const pointsByGrade = new Map(scale.map(entry => [entry.grade.trim().toUpperCase(), entry.points]));
+  const maxPoints = Math.max(...scale.map(entry => entry.points));
+  let credits = 0;
+  let total = 0;
+  let graded = 0;
+
+  for (const course of courses) {
+    const points = pointsByGrade.get((course.grade || "").trim().toUpperCase());
+    if (points === undefined) continue;
+
+    const courseCredits = creditsOf(course);
+    credits += courseCredits;
+    total += points * courseCredits;
+    graded++;
+  }
+
+  if (graded === 0) return { metrics: [], graded };
+
+  return {
+    graded,
+    metrics: [
+      {
+        key: "scale_average",
+        label: `Average ${terminology}`,
+        value: round(total / credits, 2),
+        display: (total / credits).toFixed(2),
+        detail: `Out of ${maxPoints}, weighted by credits`,
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+export function calculateGradeSummary(
+  standard: EducationStandard | string | null | undefined,
+  courses: GradeableCourse[],
+  standardMetadata?: unknown
+): GradeSummary {
+  const resolved = (standard || "us") as EducationStandard;
+  let result: { metrics: GradeMetric[]; graded: number };
+  let note: string | undefined;
+
+  const config = getStandardConfig(resolved, standardMetadata);
+  if (config.gradeScale && config.gradeScale.length > 0) {
+    result = calculateScaleMetrics(courses, config.gradeScale, config.gradeTerminology);
+    return {
+      standard: resolved,
+      metrics: result.metrics,
+      gradedCourses: result.graded,
+      totalCourses: courses.length,
+    };
+  }
+
+  switch (resolved) {
+    case "uk":
+      result = calculateUKMetrics(courses);
+      break;
+    case "ib":
+      result = calculateIBMetrics(courses);
+      break;
+    case "australia-nz":
+      result = calculateANZMetrics(courses);
+      break;
+    case "eu":
+      result = calculateEUMetrics(courses);
+      break;
+    case "classical":
+      // Narrative portfolios only get a GPA when the family has chosen to record letter grades
+      result = calculateUSMetrics(courses);
+      if (result.graded === 0) note = "Mastery is documented narratively rather than graded.";
+      break;
+    case "us":
+    case "canada":
+    case "custom":
+    default:
+      result = calculateUSMetrics(courses);
+      break;
+  }
+
+  return {
+    standard: resolved,
+    metrics: result.metrics,
+    gradedCourses: result.graded,
+    totalCourses: courses.length,
+    note,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Grading scale legend (school profile and course-description booklet)
+// ---------------------------------------------------------------------------
+
+export interface GradingScaleRow {
+  grade: string;
+  range?: string;
+  value?: string;
+}
+
+export interface GradingScale {
+  title: string;
+  valueLabel: string;
+  rows: GradingScaleRow[];
+  notes: string[];
+}
+
+function usGradingScale(): GradingScale {
+  const rows: GradingScaleRow[] = US_PERCENT_FLOORS.map(([grade, floor], index) => {
+    const ceiling = index === 0 ? 100 : US_PERCENT_FLOORS[index - 1][1] - 1;
+    return { grade, range: `${floor}-${ceiling}%`, value: US_LETTER_POINTS[grade].toFixed(1) };
+  });
+  rows.push({ grade: "F", range: "Below 60%", value: "0.0" });
+
+  return {
+    title: "Grading Scale",
+    valueLabel: "GPA Points",
+    rows,
+    notes: [
+      "GPA is credit-weighted on a 4.0 scale.",
+      `Weighted GPA adds ${COURSE_LEVEL_WEIGHTS.honors} for Honors and ${COURSE_LEVEL_WEIGHTS.ap.toFixed(1)} for AP, IB and Dual Enrollment courses with a passing grade.`,
+      "Pass/Fail courses earn credit but are not included in the GPA.",
+    ],
+  };
+}
+
+export function getGradingScale(
+  standard: EducationStandard | string | null | undefined,
+  standardMetadata?: unknown
+): GradingScale {
+  const resolved = (standard || "us") as EducationStandard;
+  const config = getStandardConfig(resolved, standardMetadata);
+
+  if (config.gradeScale && config.gradeScale.length > 0) {
+    return {
+      title: `${config.shortName} Grading Scale`,
+      valueLabel: "Points",
+      rows: [...config.gradeScale]
+        .sort((a, b) => b.points - a.points)
+        .map(entry => ({ grade: entry.grade, value: `${entry.points}` })),
+      notes: [`${config.gradeTerminology} is the credit-weighted average of these points.`],
+    };
+  }
+
+  switch (resolved) {
+    case "uk":
+      return {
+        title: "Qualification Grades",
+        valueLabel: "UCAS Tariff",
+        rows: [
+          ...Object.entries(A_LEVEL_TARIFF).map(([grade, points]) => ({ grade: `A-Level ${grade}`, value: `${points}` })),
+          ...Object.entries(AS_LEVEL_TARIFF).map(([grade, points]) => ({ grade: `AS ${grade}`, value: `${points}` })),
+        ],
+        notes: ["GCSEs are graded 9 (highest) to 1; grade 4 is a standard pass and grade 5 a strong pass."],
+      };
+    case "ib":
+      return {
+        title: "IB Grading Scale",
+        valueLabel: "Descriptor",
+        rows: [
+          { grade: "7", value: "Excellent" },
+          { grade: "6", value: "Very good" },
+          { grade: "5", value: "Good" },
+          { grade: "4", value: "Satisfactory" },
+          { grade: "3", value: "Mediocre" },
+          { grade: "2", value: "Poor" },
+          { grade: "1", value: "Very poor" },
+        ],
+        notes: ["Diploma points are the best six subject grades plus up to 3 core points (maximum 45)."],
+      };
+    case "australia-nz":
+      return {
+        title: "Achievement Grades",
+        valueLabel: "Indicative Mark",
+        rows: [
+          { grade: "Excellence (E)", value: "NCEA" },
+          { grade: "Merit (M)", value: "NCEA" },
+          { grade: "Achieved (A)", value: "NCEA" },
+          { grade: "Not Achieved (N)", value: "NCEA" },
+          ...Object.entries(AU_LETTER_MARKS).map(([grade, mark]) => ({ grade, value: `${mark}` })),
+        ],
+        notes: ["ATAR-style estimates are indicative only and unscaled; the official ATAR is calculated by the state authority."],
+      };
+    case "eu":
+      return {
+        title: "ECTS Grading Scale",
+        valueLabel: "Outcome",
+        rows: [
+          { grade: "A", value: "Excellent" },
+          { grade: "B", value: "Very good" },
+          { grade: "C", value: "Good" },
+          { grade: "D", value: "Satisfactory" },
+          { grade: "E", value: "Sufficient" },
+          { grade: "F", value: "Fail" },
+        ],
+        notes: ["Numeric grades are reported on the scale recorded for each course and averaged by ECTS credits."],
+      };
+    case "classical":
+      return {
+        title: "Assessment",
+        valueLabel: "",
+        rows: [],
+        notes: ["Learning is assessed through narration, discussion and portfolio work rather than conventional grades. Where letter grades appear they follow the 4.0 scale."],
+      };
+    default:
+      return usGradingScale();
+  }
+}
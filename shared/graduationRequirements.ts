@@ -0,0 +1,254 @@
+// Graduation requirements per education standard
+// Used by the backend (requirements endpoint) and frontend (transcript checklist)
+
+import { addMonths, differenceInCalendarMonths, format } from "date-fns";
+import { getStandardConfig, type EducationStandard } from "./standardsConfig";
+import { calculateGradeSummary, getUKQualification, type GradeableCourse } from "./gradeCalculations";
+
+export interface RequirementCourse extends GradeableCourse {
+  subject: string;
+  isComplete: boolean;
+  ibGroup?: string | null;
+  nceaLevel?: string | null;
+  startDate?: string | null;
+  createdAt?: Date | string | null;
+}
+
+export type RequirementMeasure = "credits" | "courses" | "groups" | "points";
+
+export interface GraduationRequirement {
+  id: string;
+  label: string;
+  description?: string;
+  measure: RequirementMeasure;
+  minimum: number;
+  subjects?: string[]; // Course must match one of these subject areas
+  titlePattern?: string; // Case-insensitive regex on the course title (e.g. IB core components)
+  qualification?: "gcse" | "a-level"; // UK only
+  minimumGrade?: number; // Numeric grade the course must reach (GCSE 9-1)
+  minimumNceaLevel?: number; // NCEA level the course must be at or above
+}
+
+export type RequirementStatus = "met" | "on-track" | "missing";
+
+export interface RequirementProgress {
+  id: string;
+  label: string;
+  description?: string;
+  measure: RequirementMeasure;
+  required: number;
+  completed: number;
+  inProgress: number;
+  remaining: number;
+  status: RequirementStatus;
+  projectedDate: string | null; // yyyy-MM-dd at the current pace, null if there's no pace yet
+}
+
+export interface GraduationProgress {
+  standard: EducationStandard;
+  requirements: RequirementProgress[];
+  isComplete: boolean;
+  projectedGraduationDate: string | null;
+  typicalGraduationDate: string | null;
+}
+
+// Typical diplomas - families can still graduate a student on their own terms
+const STANDARD_REQUIREMENTS: Partial<Record<EducationStandard, GraduationRequirement[]>> = {
+  us: [
+    { id: "total", label: "Total credits", description: "Most states and colleges expect 24-28 Carnegie units", measure: "credits", minimum: 24 },
+    { id: "english", label: "English", measure: "credits", minimum: 4, subjects: ["english"] },
+    { id: "math", label: "Mathematics", description: "Through Algebra II for most colleges", measure: "credits", minimum: 3, subjects: ["math"] },
+    { id: "science", label: "Science", description: "Including at least two lab sciences", measure: "credits", minimum: 3, subjects: ["science"] },
+    { id: "history", label: "Social studies", measure: "credits", minimum: 3, subjects: ["history"] },
+  ],
+  canada: [
+    { id: "total", label: "Total credits", description: "Based on the Ontario Secondary School Diploma", measure: "credits", minimum: 30 },
+    { id: "english", label: "English (or French)", measure: "credits", minimum: 4, subjects: ["english"] },
+    { id: "math", label: "Mathematics", measure: "credits", minimum: 3, subjects: ["math"] },
+    { id: "science", label: "Science", measure: "credits", minimum: 2, subjects: ["science"] },
+    { id: "history", label: "Canadian history and geography", measure: "credits", minimum: 2, subjects: ["history"] },
+  ],
+  uk: [
+    { id: "gcse-passes", label: "GCSEs at grade 4 or above", description: "Five standard passes is the usual sixth form entry requirement", measure: "courses", minimum: 5, qualification: "gcse", minimumGrade: 4 },
+    { id: "gcse-english", label: "GCSE English at grade 4+", measure: "courses", minimum: 1, qualification: "gcse", minimumGrade: 4, subjects: ["english"] },
+    { id: "gcse-maths", label: "GCSE Maths at grade 4+", measure: "courses", minimum: 1, qualification: "gcse", minimumGrade: 4, subjects: ["math"] },
+    { id: "a-levels", label: "A-Levels", description: "Three A-Levels for most university courses", measure: "courses", minimum: 3, qualification: "a-level" },
+  ],
+  ib: [
+    { id: "groups", label: "Subjects across the six groups", measure: "groups", minimum: 6 },
+    { id: "tok", label: "Theory of Knowledge", measure: "courses", minimum: 1, titlePattern: "theory of knowledge|\\bTOK\\b" },
+    { id: "ee", label: "Extended Essay", measure: "courses", minimum: 1, titlePattern: "extended essay|\\bEE\\b" },
+    { id: "cas", label: "Creativity, Activity, Service", measure: "courses", minimum: 1, titlePattern: "creativity|\\bCAS\\b" },
+    { id: "points", label: "Diploma points", description: "24 of 45 points are needed for the diploma", measure: "points", minimum: 24 },
+  ],
+  "australia-nz": [
+    { id: "total", label: "Total credits", description: "Based on NCEA Level 2", measure: "credits", minimum: 80 },
+    { id: "level-2", label: "Credits at Level 2 or above", measure: "credits", minimum: 60, minimumNceaLevel: 2 },
+    { id: "literacy", label: "Literacy credits", measure: "credits", minimum: 10, subjects: ["english"] },
+    { id: "numeracy", label: "Numeracy credits", measure: "credits", minimum: 10, subjects: ["math"] },
+  ],
+};
+
+// Course subjects are stored as buckets ("english", "math"); framework subjects are free text ("Language Arts")
+const SUBJECT_ALIASES: Record<string, string[]> = {
+  english: ["english", "language", "literature", "literacy", "reading", "writing"],
+  math: ["math", "numeracy", "algebra", "geometry"],
+  science: ["science", "biology", "chemistry", "physics"],
+  history: ["history", "social", "humanities", "geography", "civic"],
+};
+
+function courseMatchesSubject(course: RequirementCourse, required: string): boolean {
+  const courseSubject = course.subject.toLowerCase();
+  const requiredSubject = required.toLowerCase();
+  if (courseSubject === requiredSubject) return true;
+
+  const courseAliases = SUBJECT_ALIASES[courseSubject] || [courseSubject];
+  return courseAliases.some(alias => requiredSubject.includes(alias));
+}
+
+// Requirements with no fixed diploma (EU, classical, custom) check coverage of the framework's subject areas
+export function getGraduationRequirements(
+  standard: EducationStandard | string | null | undefined,
+  standardMetadata?: unknown
+): GraduationRequirement[] {
+  const resolved = (standard || "us") as EducationStandard;
+  const fixed = STANDARD_REQUIREMENTS[resolved];
+  if (fixed) return fixed;
+
+  return getStandardConfig(resolved, standardMetadata).subjects.map(subject => ({
+    id: `subject-${subject.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+    label: subject,
+    measure: "courses" as const,
+    minimum: 1,
+    subjects: [subject],
+  }));
+}
+
+function courseMatches(course: RequirementCourse, requirement: GraduationRequirement): boolean {
+  if (requirement.subjects && !requirement.subjects.some(subject => courseMatchesSubject(course, subject))) {
+    return false;
+  }
+  if (requirement.titlePattern && !new RegExp(requirement.titlePattern, "i").test(course.courseTitle)) {
+    return false;
+  }
+  if (requirement.qualification && getUKQualification(course) !== requirement.qualification) {
+    return false;
+  }
+  if (requirement.minimumNceaLevel) {
+    const level = parseInt((course.nceaLevel || "").replace(/\D/g, ""), 10);
+    if (!(level >= requirement.minimumNceaLevel)) return false;
+  }
+  return true;
+}
+
+// A graded requirement only counts a course once its grade is in; ungraded courses are still in progress
+function meetsMinimumGrade(course: RequirementCourse, requirement: GraduationRequirement): boolean {
+  if (!requirement.minimumGrade) return course.isComplete;
+  const grade = parseInt((course.grade || "").trim(), 10);
+  return grade >= requirement.minimumGrade;
+}
+
+function measureCourses(
+  courses: RequirementCourse[],
+  requirement: GraduationRequirement
+): { completed: number; inProgress: number } {
+  if (requirement.measure === "groups") {
+    const groupOf = (c: RequirementCourse) => (c.ibGroup || "").split("-")[0].trim();
+    const completedGroups = new Set(courses.filter(c => c.isComplete && groupOf(c)).map(groupOf));
+    const allGroups = new Set(courses.filter(c => groupOf(c)).map(groupOf));
+    return { completed: completedGroups.size, inProgress: allGroups.size - completedGroups.size };
+  }
+
+  let completed = 0;
+  let inProgress = 0;
+  for (const course of courses) {
+    if (!courseMatches(course, requirement)) continue;
+
+    const amount = requirement.measure === "credits" ? (course.credits || 0) : 1;
+    if (meetsMinimumGrade(course, requirement)) completed += amount;
+    else if (!course.isComplete || !course.grade) inProgress += amount;
+  }
+  return { completed, inProgress };
+}
+
+function getStartDate(courses: RequirementCourse[]): Date | null {
+  const dates = courses
+    .map(c => c.startDate || c.createdAt)
+    .filter((d): d is string | Date => !!d)
+    .map(d => new Date(d))
+    .filter(d => !isNaN(d.getTime()));
+  if (dates.length === 0) return null;
+  return new Date(Math.min(...dates.map(d => d.getTime())));
+}
+
+// Southern hemisphere school years finish in December; most others finish mid-year
+function getTypicalGraduationDate(standard: EducationStandard, birthdate: string | null | undefined): string | null {
+  if (!birthdate) return null;
+  const born = new Date(birthdate);
+  if (isNaN(born.getTime())) return null;
+
+  const year = born.getFullYear() + 18;
+  return standard === "australia-nz" ? `${year}-12-15` : `${year}-06-30`;
+}
+
+export function evaluateGraduationRequirements(
+  standard: EducationStandard | string | null | undefined,
+  courses: RequirementCourse[],
+  options: { standardMetadata?: unknown; birthdate?: string | null; today?: Date } = {}
+): GraduationProgress {
+  const resolved = (standard || "us") as EducationStandard;
+  const today = options.today || new Date();
+  const startDate = getStartDate(courses);
+  // Count at least one month so a brand-new transcript doesn't project an absurd pace
+  const monthsElapsed = startDate ? Math.max(1, differenceInCalendarMonths(today, startDate)) : 0;
+  const diplomaPoints = calculateGradeSummary(resolved, courses, options.standardMetadata)
+    .metrics.find(m => m.key === "ib_total_points")?.value || 0;
+
+  const requirements = getGraduationRequirements(resolved, options.standardMetadata).map((requirement): RequirementProgress => {
+    let { completed, inProgress } = requirement.measure === "points"
+      ? { completed: diplomaPoints, inProgress: 0 }
+      : measureCourses(courses, requirement);
+
+    completed = Math.round(completed * 100) / 100;
+    inProgress = Math.round(inProgress * 100) / 100;
+    const remaining = Math.max(0, Math.round((requirement.minimum - completed) * 100) / 100);
+    const status: RequirementStatus = remaining === 0
+      ? "met"
+      : completed + inProgress >= requirement.minimum ? "on-track" : "missing";
+
+    let projectedDate: string | null = null;
+    if (remaining === 0) {
+      projectedDate = format(today, "yyyy-MM-dd");
+    } else if (monthsElapsed > 0 && completed > 0) {
+      const monthsNeeded = Math.ceil(remaining / (completed / monthsElapsed));
+      projectedDate = format(addMonths(today, monthsNeeded), "yyyy-MM-dd");
+    }
+
+    return {
+      id: requirement.id,
+      label: requirement.label,
+      description: requirement.description,
+      measure: requirement.measure,
+      required: requirement.minimum,
+      completed,
+      inProgress,
+      remaining,
+      status,
+      projectedDate,
+    };
+  });
+
+  const isComplete = requirements.every(r => r.status === "met");
+  // Graduation is only projected once every requirement has a pace to project from
+  const projectedGraduationDate = requirements.every(r => r.projectedDate)
+    ? requirements.map(r => r.projectedDate!).sort().pop() || null
+    : null;
+
+  return {
+    standard: resolved,
+    requirements,
+    isComplete,
+    projectedGraduationDate,
+    typicalGraduationDate: getTypicalGraduationDate(resolved, options.birthdate),
+  };
+}
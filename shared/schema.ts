@@ -89,6 +89,36 @@ export const educationStandards = [
 
 export type EducationStandard = typeof educationStandards[number];
 
+// What caused a curriculum version to be saved
+export const curriculumTriggers = [
+  "onboarding",
+  "settings",
+  "manual",
+  "week",
+  "rolling",
+  "template"
+] as const;
+
+export type CurriculumTrigger = typeof curriculumTriggers[number];
+
+// Curriculum templates hold either one week or a whole curriculum
+export const curriculumTemplateKinds = [
+  "week",
+  "curriculum"
+] as const;
+
+export type CurriculumTemplateKind = typeof curriculumTemplateKinds[number];
+
+// Age bands for tagging and filtering the shared template library
+export const templateAgeBands = [
+  "0-4",
+  "5-8",
+  "9-12",
+  "13-18"
+] as const;
+
+export type TemplateAgeBand = typeof templateAgeBands[number];
+
 // Family learning approach preferences
 export const familyApproaches = pgTable("family_approaches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -138,7 +168,7 @@ export const children = pgTable("children", {
 export const childApproaches = pgTable("child_approaches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   childId: varchar("child_id").notNull().unique().references(() => children.id, { onDelete: "cascade" }),
-  approaches: text("approaches").array().notNull().default(sql`ARRAY[]::text[]`), // Per-child pedagogy override if different from family
+  approaches: text("approaches").array().notNull().default(sql`ARRAY[]::text[]`), // Per-child pedagogy override, used when the family has usePerChildApproaches on; empty means follow the family
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -151,8 +181,11 @@ export const transcriptCourses = pgTable("transcript_courses", {
   subject: varchar("subject").notNull(), // "english", "math", "science", "history", "elective", etc.
   gradeLevel: varchar("grade_level").notNull(), // "9", "10", "11", "12"
   credits: real("credits").notNull().default(1.0), // Standard credits (0.5 = semester, 1.0 = year)
+  baseCredits: real("base_credits").notNull().default(0), // Credits entered by hand; accepted credit mappings are added on top
   grade: varchar("grade"), // "A", "A-", "B+", "B", "Pass", etc.
   courseDescription: text("course_description"), // College-board style description generated from activities
+  textsUsed: text("texts_used").array(), // Books, curricula and resources listed in the course-description booklet
+  gradeRationale: text("grade_rationale"), // How the grade was determined (tests, projects, narrations, etc.)
   startDate: date("start_date"),
   endDate: date("end_date"),
   isComplete: boolean("is_complete").notNull().default(false),
@@ -183,6 +216,19 @@ export const creditMappings = pgTable("credit_mappings", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Transcript Verifications - One row per issued transcript PDF, looked up by admissions officers
+export const transcriptVerifications = pgTable("transcript_verifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  childId: varchar("child_id").notNull().references(() => children.id, { onDelete: "cascade" }),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+  verificationCode: varchar("verification_code", { length: 20 }).notNull().unique(), // e.g., "K7QD-M2XP-9FRT"
+  contentHash: varchar("content_hash", { length: 64 }).notNull(), // HMAC-SHA256 of the snapshot, printed on the PDF
+  snapshot: jsonb("snapshot").notNull(), // Student, school and course data exactly as issued
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"), // Set when the parent withdraws this transcript
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Curricula table (stores generated 12-week curricula)
 export const curricula = pgTable("curricula", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -190,9 +236,29 @@ export const curricula = pgTable("curricula", {
   generatedAt: timestamp("generated_at").notNull(),
   curriculumData: jsonb("curriculum_data").notNull(), // Full JSON from AI
   isActive: boolean("is_active").notNull().default(true),
+  trigger: varchar("trigger", { enum: curriculumTriggers }),
+  provider: varchar("provider"), // AI model that generated (or last extended) this version
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Curriculum templates table (saved weeks or curricula with child details stripped, optionally shared)
+export const curriculumTemplates = pgTable("curriculum_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }), // Author
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  kind: varchar("kind", { enum: curriculumTemplateKinds }).notNull(),
+  templateData: jsonb("template_data").notNull(), // CurriculumTemplateData
+  approaches: text("approaches").array().notNull().default(sql`ARRAY[]::text[]`), // Learning approach tags
+  ageBands: text("age_bands").array().notNull().default(sql`ARRAY[]::text[]`), // TemplateAgeBand tags
+  themes: text("themes").array().notNull().default(sql`ARRAY[]::text[]`), // Family themes of the weeks
+  isPublished: boolean("is_published").notNull().default(false), // true = listed in the shared library
+  publishedAt: timestamp("published_at"),
+  importCount: integer("import_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Journal entries table
 export const journalEntries = pgTable("journal_entries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -203,6 +269,8 @@ export const journalEntries = pgTable("journal_entries", {
   photoUrls: text("photo_urls").array().default(sql`ARRAY[]::text[]`),
   audioUrl: text("audio_url"), // Voice recording URL from object storage
   audioDuration: integer("audio_duration"), // Duration in seconds
+  transcript: text("transcript"), // Speech-to-text of the recording, when the server transcribed it
+  transcriptSegments: jsonb("transcript_segments"), // Timed transcript: [{ start, end, text }] in seconds from the start of the recording
   aiFollowUpQuestions: text("ai_follow_up_questions").array(), // AI-generated reflection questions
   followUpAnswers: text("follow_up_answers").array(), // Mum's answers to follow-up questions
   aiAnalysis: jsonb("ai_analysis"), // Structured AI analysis: { summary, interests[], skills[], enthusiasm, notes }
@@ -210,7 +278,30 @@ export const journalEntries = pgTable("journal_entries", {
   elapsedMinutes: integer("elapsed_minutes"), // Time spent on this activity (for hour tracking)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_journal_family_date").on(table.familyId, table.entryDate),
+]);
+
+// Narrations: a child's oral retelling of a reading from their week's daily plan (Charlotte Mason)
+export const narrations = pgTable("narrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
+  childId: varchar("child_id").notNull().references(() => children.id, { onDelete: "cascade" }),
+  narrationDate: date("narration_date").notNull(),
+  weekNumber: integer("week_number").notNull(), // Curriculum week the reading came from
+  day: varchar("day", { length: 10 }).notNull(), // Monday-Friday of that week's daily plan
+  reading: text("reading").notNull(), // The daily plan activity that was narrated
+  audioUrl: text("audio_url"),
+  audioDuration: integer("audio_duration"), // Duration in seconds
+  transcript: text("transcript").notNull(), // Transcribed, or written down by the parent
+  transcriptSegments: jsonb("transcript_segments"), // Timed transcript: [{ start, end, text }] in seconds
+  transcriptionStatus: varchar("transcription_status").notNull().default("done"), // pending, done, failed - recordings are transcribed in the background
+  includeInPortfolio: boolean("include_in_portfolio").notNull().default(false), // Copied into that week's portfolio narration samples
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_narration_child_date").on(table.childId, table.narrationDate),
+]);
 
 // Local opportunities cache table
 export const localOpportunities = pgTable("local_opportunities", {
@@ -294,7 +385,7 @@ export const emergingInterestSignals = pgTable("emerging_interest_signals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   familyId: varchar("family_id").notNull().references(() => families.id, { onDelete: "cascade" }),
   childId: varchar("child_id").notNull().references(() => children.id, { onDelete: "cascade" }),
-  source: varchar("source", { enum: ["free_form", "ai_followup"] }).notNull().default("free_form"),
+  source: varchar("source", { enum: ["free_form", "ai_followup", "voice_journal"] }).notNull().default("free_form"),
   title: varchar("title", { length: 255 }).notNull(),
   description: text("description"),
   voiceNoteUrl: text("voice_note_url"),
@@ -411,6 +502,7 @@ export const familiesRelations = relations(families, ({ one, many }) => ({
   }),
   children: many(children),
   curricula: many(curricula),
+  curriculumTemplates: many(curriculumTemplates),
   journalEntries: many(journalEntries),
   localOpportunities: many(localOpportunities),
   upcomingEvents: many(upcomingEvents),
@@ -437,6 +529,13 @@ export const curriculaRelations = relations(curricula, ({ one }) => ({
   }),
 }));
 
+export const curriculumTemplatesRelations = relations(curriculumTemplates, ({ one }) => ({
+  family: one(families, {
+    fields: [curriculumTemplates.familyId],
+    references: [families.id],
+  }),
+}));
+
 export const journalEntriesRelations = relations(journalEntries, ({ one }) => ({
   child: one(children, {
     fields: [journalEntries.childId],
@@ -448,6 +547,17 @@ export const journalEntriesRelations = relations(journalEntries, ({ one }) => ({
   }),
 }));
 
+export const narrationsRelations = relations(narrations, ({ one }) => ({
+  child: one(children, {
+    fields: [narrations.childId],
+    references: [children.id],
+  }),
+  family: one(families, {
+    fields: [narrations.familyId],
+    references: [families.id],
+  }),
+}));
+
 export const localOpportunitiesRelations = relations(localOpportunities, ({ one }) => ({
   family: one(families, {
     fields: [localOpportunities.familyId],
@@ -511,17 +621,37 @@ export const insertCreditMappingSchema = createInsertSchema(creditMappings).omit
   updatedAt: true,
 });
 
+export const insertTranscriptVerificationSchema = createInsertSchema(transcriptVerifications).omit({
+  id: true,
+  issuedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
 export const insertCurriculumSchema = createInsertSchema(curricula).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertCurriculumTemplateSchema = createInsertSchema(curriculumTemplates).omit({
+  id: true,
+  importCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertNarrationSchema = createInsertSchema(narrations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertActivityFeedbackSchema = createInsertSchema(activityFeedback).omit({
   id: true,
   createdAt: true,
@@ -586,7 +716,6 @@ export const insertPortfolioEntrySchema = createInsertSchema(portfolioEntries).o
   updatedAt: true,
 });
 
-// Future feature - commented out until per-child overrides are implemented
 export const insertChildApproachSchema = createInsertSchema(childApproaches).omit({
   id: true,
   createdAt: true,
@@ -609,12 +738,21 @@ export type TranscriptCourse = typeof transcriptCourses.$inferSelect;
 export type InsertCreditMapping = z.infer<typeof insertCreditMappingSchema>;
 export type CreditMapping = typeof creditMappings.$inferSelect;
 
+export type InsertTranscriptVerification = z.infer<typeof insertTranscriptVerificationSchema>;
+export type TranscriptVerification = typeof transcriptVerifications.$inferSelect;
+
 export type InsertCurriculum = z.infer<typeof insertCurriculumSchema>;
 export type Curriculum = typeof curricula.$inferSelect;
 
+export type InsertCurriculumTemplate = z.infer<typeof insertCurriculumTemplateSchema>;
+export type CurriculumTemplate = typeof curriculumTemplates.$inferSelect;
+
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
 export type JournalEntry = typeof journalEntries.$inferSelect;
 
+export type InsertNarration = z.infer<typeof insertNarrationSchema>;
+export type Narration = typeof narrations.$inferSelect;
+
 export type InsertActivityFeedback = z.infer<typeof insertActivityFeedbackSchema>;
 export type ActivityFeedback = typeof activityFeedback.$inferSelect;
 
@@ -648,7 +786,6 @@ export type ChildPortfolioYear = typeof childPortfolioYears.$inferSelect;
 export type InsertPortfolioEntry = z.infer<typeof insertPortfolioEntrySchema>;
 export type PortfolioEntry = typeof portfolioEntries.$inferSelect;
 
-// Future feature types - commented out until per-child overrides are implemented
 export type InsertChildApproach = z.infer<typeof insertChildApproachSchema>;
 export type ChildApproach = typeof childApproaches.$inferSelect;
 
@@ -705,20 +842,63 @@ export const childWeekPlanSchema = z.object({
     Weekend: z.string(),
   }),
   masteryUpdates: z.record(z.string(), z.string()),
+  inspiredBy: z.array(z.object({
+    signalId: z.string(),
+    deepDive: z.string(),
+  })).optional(),
+});
+
+// What actually happened in a finished week - recorded when the rolling job archives it
+export const weekRecapSchema = z.object({
+  daysWithActivity: z.number().int().min(0),
+  activitiesCompleted: z.number().int().min(0),
+  journalEntries: z.number().int().min(0),
+  highlights: z.array(z.string()),
 });
 
 export const weekCurriculumSchema = z.object({
-  weekNumber: z.number().int().min(1).max(12),
+  weekNumber: z.number().int().min(1),
   familyTheme: z.string().min(1),
   familyActivities: z.array(z.string()).min(0).max(10),
   localOpportunities: z.array(weekActivitySchema).min(0).max(25),
   children: z.array(childWeekPlanSchema).min(1),
   resources: z.array(resourceSchema).min(0).max(20),
+  archivedAt: z.string().datetime().optional(),
+  recap: weekRecapSchema.optional(),
+});
+
+// A week the AI couldn't produce valid content for, even after repair - the family can retry it
+export const flaggedWeekSchema = z.object({
+  weekNumber: z.number().int().min(1),
+  reason: z.string(),
 });
 
+// At least the initial 12 weeks; the rolling job appends more as weeks finish
 export const curriculumDataSchema = z.object({
   generatedAt: z.string().datetime(),
-  weeks: z.array(weekCurriculumSchema).length(12),
+  weeks: z.array(weekCurriculumSchema).min(12),
+  flaggedWeeks: z.array(flaggedWeekSchema).optional(),
+});
+
+// A child's plan in a template keeps only their age, for the AI to adapt from
+export const templateChildPlanSchema = childWeekPlanSchema.pick({
+  age: true,
+  deepDives: true,
+  dailyPlan: true,
+});
+
+// A week with child names, ids, mastery and local opportunities stripped
+export const templateWeekSchema = weekCurriculumSchema.pick({
+  weekNumber: true,
+  familyTheme: true,
+  familyActivities: true,
+  resources: true,
+}).extend({
+  childPlans: z.array(templateChildPlanSchema).min(1),
+});
+
+export const curriculumTemplateDataSchema = z.object({
+  weeks: z.array(templateWeekSchema).min(1),
 });
 
 // Curriculum JSON structure types
@@ -764,6 +944,12 @@ export interface ChildWeekPlan {
     Weekend: string;
   };
   masteryUpdates: Record<string, string>;
+  inspiredBy?: InterestSignalLink[]; // Emerging interest signals that shaped this week's deep dives
+}
+
+export interface InterestSignalLink {
+  signalId: string;
+  deepDive: string;
 }
 
 export interface Resource {
@@ -780,9 +966,90 @@ export interface WeekCurriculum {
   localOpportunities: WeekActivity[];
   children: ChildWeekPlan[];
   resources: Resource[];
+  archivedAt?: string;
+  recap?: WeekRecap;
+}
+
+export interface WeekRecap {
+  daysWithActivity: number;
+  activitiesCompleted: number;
+  journalEntries: number;
+  highlights: string[];
+}
+
+export interface FlaggedWeek {
+  weekNumber: number;
+  reason: string;
 }
 
 export interface CurriculumData {
   generatedAt: string;
   weeks: WeekCurriculum[];
+  flaggedWeeks?: FlaggedWeek[];
+}
+
+export type TemplateChildPlan = Pick<ChildWeekPlan, "age" | "deepDives" | "dailyPlan">;
+
+export interface TemplateWeek {
+  weekNumber: number;
+  familyTheme: string;
+  familyActivities: string[];
+  resources: Resource[];
+  childPlans: TemplateChildPlan[];
+}
+
+export interface CurriculumTemplateData {
+  weeks: TemplateWeek[];
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Skills map: skills from journal analysis and weekly mastery updates, accumulated per child
+export type SkillTrend = "new" | "rising" | "steady" | "falling";
+
+export interface SkillEvidence {
+  entryId: string;
+  entryDate: string;
+  excerpt: string;
+}
+
+export interface SkillNode {
+  skill: string;
+  subject: string; // Subject area from the child's education standard, or "Other"
+  firstSeen: string; // yyyy-MM-dd
+  lastPractised: string; // yyyy-MM-dd
+  occurrences: number;
+  confidence: number; // 0-100, faded by time since it was last practised
+  trend: SkillTrend;
+  history: Array<{ date: string; confidence: number }>;
+  evidence: SkillEvidence[]; // Journal entries, newest first
+}
+
+export interface SkillsMap {
+  childId: string;
+  subjects: Array<{ subject: string; skills: SkillNode[] }>;
+}
+
+// Narration growth: each narration measured against the child's earlier ones
+export interface NarrationMetrics {
+  wordCount: number;
+  uniqueWordCount: number;
+  newWordCount: number; // Words the child hasn't used in an earlier narration
+  longWordCount: number; // Words of seven letters or more
+  wordsPerMinute: number | null;
+}
+
+export type MeasuredNarration = Narration & { metrics: NarrationMetrics };
+
+export interface NarrationGrowth {
+  narrationCount: number;
+  vocabularySize: number; // Distinct words across every narration
+  earlyAverageWords: number; // Mean length of the first few narrations
+  recentAverageWords: number; // Mean length of the latest few
+  earlyAverageUniqueWords: number;
+  recentAverageUniqueWords: number;
 }
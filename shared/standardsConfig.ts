@@ -1,6 +1,8 @@
 // International Education Standards Configuration
 // Used by both frontend (selector UI) and backend (AI mapping + transcript generation)
 
+import { z } from "zod";
+
 export const EDUCATION_STANDARDS = [
   "us",
   "canada",
@@ -32,7 +34,19 @@ export interface StandardConfig {
   subjects: string[]; // Required subject areas
   
   // Transcript format
-  transcriptFormat: "us" | "uk" | "ib" | "anz" | "eu" | "narrative";
+  transcriptFormat: TranscriptFormat;
+  transcriptTitle?: string; // Overrides the layout's default PDF heading
+
+  // Grade scale for custom frameworks (e.g. CBSE 10-point, CAPS levels 1-7)
+  gradeScale?: GradeScaleEntry[];
+}
+
+export const TRANSCRIPT_FORMATS = ["us", "uk", "ib", "anz", "eu", "narrative"] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+export interface GradeScaleEntry {
+  grade: string;
+  points: number;
 }
 
 export const STANDARDS_CONFIG: Record<EducationStandard, StandardConfig> = {
@@ -164,19 +178,66 @@ export const STANDARDS_CONFIG: Record<EducationStandard, StandardConfig> = {
   },
 };
 
+// A family-defined framework, saved per child in children.standardMetadata.customStandard
+export const customStandardSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  shortName: z.string().trim().min(1).max(30),
+  description: z.string().trim().max(300).optional(),
+  flag: z.string().trim().max(8).optional(),
+  creditUnit: z.string().trim().min(1).max(30),
+  creditLabel: z.string().trim().min(1).max(60),
+  gradeTerminology: z.string().trim().min(1).max(60),
+  gradeScale: z.array(z.object({
+    grade: z.string().trim().min(1).max(20),
+    points: z.number().min(0).max(1000),
+  })).max(30).default([]),
+  subjects: z.array(z.string().trim().min(1).max(60)).min(1).max(30),
+  transcriptFormat: z.enum(TRANSCRIPT_FORMATS),
+  transcriptTitle: z.string().trim().max(80).optional(),
+});
+
+export type CustomStandardDefinition = z.infer<typeof customStandardSchema>;
+
+// Returns the saved custom framework, or null if none has been built (or it no longer validates)
+export function getCustomStandard(standardMetadata: unknown): CustomStandardDefinition | null {
+  const saved = (standardMetadata as { customStandard?: unknown } | null | undefined)?.customStandard;
+  if (!saved) return null;
+  const parsed = customStandardSchema.safeParse(saved);
+  return parsed.success ? parsed.data : null;
+}
+
 // Helper to get standard config
-export function getStandardConfig(standard: EducationStandard | string | null | undefined): StandardConfig {
+// Pass the child's standardMetadata so a saved custom framework replaces the generic "custom" defaults
+export function getStandardConfig(
+  standard: EducationStandard | string | null | undefined,
+  standardMetadata?: unknown
+): StandardConfig {
   const key = (standard || "us") as EducationStandard;
+  if (key === "custom") {
+    const custom = getCustomStandard(standardMetadata);
+    if (custom) {
+      return {
+        ...STANDARDS_CONFIG.custom,
+        ...custom,
+        id: "custom",
+        description: custom.description || STANDARDS_CONFIG.custom.description,
+        flag: custom.flag || STANDARDS_CONFIG.custom.flag,
+      };
+    }
+  }
   return STANDARDS_CONFIG[key] || STANDARDS_CONFIG.us;
 }
 
 // Helper to get progress terminology
-export function getProgressLabel(standard: EducationStandard | string | null | undefined): {
+export function getProgressLabel(
+  standard: EducationStandard | string | null | undefined,
+  standardMetadata?: unknown
+): {
   creditUnit: string;
   creditLabel: string;
   gradeTerminology: string;
 } {
-  const config = getStandardConfig(standard);
+  const config = getStandardConfig(standard, standardMetadata);
   return {
     creditUnit: config.creditUnit,
     creditLabel: config.creditLabel,
@@ -185,7 +246,10 @@ export function getProgressLabel(standard: EducationStandard | string | null | u
 }
 
 // Helper to get subject list for a standard
-export function getSubjectsForStandard(standard: EducationStandard | string | null | undefined): string[] {
-  const config = getStandardConfig(standard);
+export function getSubjectsForStandard(
+  standard: EducationStandard | string | null | undefined,
+  standardMetadata?: unknown
+): string[] {
+  const config = getStandardConfig(standard, standardMetadata);
   return config.subjects;
 }